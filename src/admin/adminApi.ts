@@ -287,7 +287,7 @@ export function getGameTimerConfig(gameTimerManager: GameTimerManager) {
 export function updateGameTimerConfig(gameTimerManager: GameTimerManager) {
   return (req: Request, res: Response) => {
     try {
-      const { tickInterval, saveInterval } = req.body;
+      const { tickInterval, saveInterval, ticksPerGameHour } = req.body;
       
       // Validate inputs
       if (tickInterval !== undefined && (isNaN(tickInterval) || tickInterval < 1000)) {
@@ -304,10 +304,18 @@ export function updateGameTimerConfig(gameTimerManager: GameTimerManager) {
         });
       }
       
+      if (ticksPerGameHour !== undefined && (isNaN(ticksPerGameHour) || ticksPerGameHour < 1)) {
+        return res.status(400).json({ 
+          success: false, 
+          message: 'Ticks per game hour must be at least 1'
+        });
+      }
+      
       // Update config with validated values
       const newConfig: any = {};
       if (tickInterval !== undefined) newConfig.tickInterval = tickInterval;
       if (saveInterval !== undefined) newConfig.saveInterval = saveInterval;
+      if (ticksPerGameHour !== undefined) newConfig.ticksPerGameHour = ticksPerGameHour;
       
       gameTimerManager.updateConfig(newConfig);
       
@@ -13,10 +13,12 @@ import { ShutdownManager } from './server/shutdownManager';
 import { TelnetServer } from './server/telnetServer';
 import { WebSocketServer } from './server/webSocketServer';
 import { AdminSetup } from './setup/adminSetup'; // Import AdminSetup
+import { ShopManager } from './shop/shopManager';
 import { StateMachine } from './state/stateMachine';
 import { SnakeGameState } from './states/snake-game.state';
 import { WaitingState } from './states/waiting.state';
 import { GameTimerManager } from './timer/gameTimerManager';
+import { GameClock } from './timer/gameClock';
 import { ConnectedClient, ServerStats } from './types';
 import { UserManager } from './user/userManager';
 import { isDebugMode } from './utils/debugUtils'; // Import the isDebugMode function
@@ -353,6 +355,8 @@ export class GameServer {
       // This avoids the error with this.roomManager.forceSave not being a function
       this.userManager.forceSave();
       this.roomManager.forceSave();
+      GameClock.getInstance().save();
+      ShopManager.getInstance(this.roomManager).save();
 
       // Log successful save
       systemLogger.info('Game data saved successfully during shutdown');
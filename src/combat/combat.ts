@@ -6,7 +6,10 @@ import { UserManager } from '../user/userManager';
 import { RoomManager } from '../room/roomManager';
 import { formatUsername } from '../utils/formatters';
 import { CombatSystem } from './combatSystem';
-import { ItemManager } from '../utils/itemManager';
+import { ItemManager, WieldedItem } from '../utils/itemManager';
+import { NPC } from './npc';
+import { DEFAULT_DAMAGE_TYPE } from './combatStats';
+import { combatRandom, getNpcCombatStats, getPlayerCombatStats, resolveAttack } from './combatFormulas';
 import { systemLogger, createContextLogger, createMechanicsLogger } from '../utils/logger';
 
 // Create a context-specific logger for Combat
@@ -130,101 +133,101 @@ export class Combat {
 
   private processAttack(player: ConnectedClient, target: CombatEntity): void {
     if (!player.user || !player.user.currentRoomId) return;
-    
-    // 50% chance to hit
-    const hit = Math.random() >= 0.5;
+
+    // Swing every wielded weapon in turn, main hand first, or fists with none
+    const { weapons } = this.itemManager.getWieldedItems(player.user.equipment);
+    if (weapons.length === 0) {
+      this.processSwing(player, target);
+    } else {
+      for (const weapon of weapons) {
+        // The main hand may already have finished the target off
+        if (!target.isAlive()) break;
+        this.processSwing(player, target, weapon);
+      }
+    }
+
+    // Reduce armor durability after taking damage
+    this.reduceArmorDurability(target);
+  }
+
+  private processSwing(player: ConnectedClient, target: CombatEntity, weapon?: WieldedItem): void {
+    if (!player.user || !player.user.currentRoomId) return;
     
     // Get the room for broadcasting
     const roomId = player.user.currentRoomId;
+    const weaponName = weapon ? this.itemManager.getItemDisplayName(weapon.instanceId) : 'fists';
+    const damageType = weapon?.template.damageType ?? DEFAULT_DAMAGE_TYPE;
 
-    // Get the ItemManager for handling weapons and durability
-    const itemManager = require('../utils/itemManager').ItemManager.getInstance();
-    
-    // Check if player has a weapon equipped
-    const weaponId = player.user.equipment?.weapon;
-    let weaponName = "fists";
-    let weaponDamage = 0;
-    
-    if (weaponId) {
-      const displayName = itemManager.getItemDisplayName(weaponId);
-      if (displayName) {
-        weaponName = displayName;
-        
-        // Get base damage from the weapon
-        const instance = itemManager.getItemInstance(weaponId);
-        const template = instance ? itemManager.getItem(instance.templateId) : itemManager.getItem(weaponId);
-        
-        if (template && template.stats && template.stats.damage) {
-          weaponDamage = template.stats.damage;
-        }
-        
-        // Degrade weapon durability with use (only for item instances)
-        if (instance && instance.properties?.durability) {
-          // 25% chance to degrade durability on hit, 10% on miss
-          const degradeChance = hit ? 0.25 : 0.1;
-          if (Math.random() < degradeChance) {
-            // Degrade by 1 point
-            instance.properties.durability.current = Math.max(0, instance.properties.durability.current - 1);
-            
-            // Check if weapon broke
-            if (instance.properties.durability.current === 0) {
-              // Weapon broke!
-              writeFormattedMessageToClient(
-                player,
-                colorize(`Your ${weaponName} breaks from excessive use!\r\n`, 'red')
-              );
-              
-              // Broadcast to others
-              const username = formatUsername(player.user.username);
-              this.combatSystem.broadcastRoomCombatMessage(
-                roomId,
-                `${username}'s ${weaponName} breaks from excessive use!\r\n`,
-                'red' as ColorType,
-                player.user.username
-              );
-              
-              // Remove the broken weapon from equipment
-              if (player.user.equipment) {
-                player.user.equipment.weapon = undefined as unknown as string;
-              }
-              
-              // Set weapon name back to fists for this attack
-              weaponName = "fists";
-              weaponDamage = 0;
-            }
-            // Save instance changes
-            itemManager.saveItemInstances();
-          }
-        }
-      }
-    }
+    // Roll the attack with the player's stats and weapon against the target's
+    const { outcome, damage } = resolveAttack(
+      getPlayerCombatStats(player.user, weapon, this.roomManager.getStatModifiers(player.user.username)),
+      getNpcCombatStats(target)
+    );
+    const username = formatUsername(player.user.username);
     
-    if (hit) {
-      // Calculate damage (base damage 5-10 plus weapon damage)
-      const baseDamage = Math.floor(Math.random() * 6) + 5;
-      const totalDamage = baseDamage + weaponDamage;
-      const actualDamage = target.takeDamage(totalDamage);
+    if (outcome === 'hit' || outcome === 'critical') {
+      const actualDamage = target.takeDamage(damage, damageType);
       
       // Add aggression only when damage is dealt
       target.addAggression(player.user.username, actualDamage);
       
       // Send message to the player
+      if (outcome === 'critical') {
+        writeFormattedMessageToClient(
+          player,
+          colorize(`You land a critical hit on the ${target.name} with your ${weaponName} for ${actualDamage} damage!\r\n`, 'boldRed')
+        );
+        this.combatSystem.broadcastRoomCombatMessage(
+          roomId,
+          `${username} lands a critical hit on the ${target.name} with their ${weaponName} for ${actualDamage} damage!\r\n`,
+          'boldRed' as ColorType,
+          player.user.username
+        );
+      } else {
+        writeFormattedMessageToClient(
+          player,
+          colorize(`You hit the ${target.name} with your ${weaponName} for ${actualDamage} damage.\r\n`, 'red')
+        );
+        
+        // Broadcast to ALL other players in room instead of just combat participants
+        this.combatSystem.broadcastRoomCombatMessage(
+          roomId,
+          `${username} hits the ${target.name} with their ${weaponName} for ${actualDamage} damage.\r\n`,
+          'red' as ColorType,
+          player.user.username
+        );
+      }
+    } else if (outcome === 'fumble') {
+      // A fumbled attack still counts as an attack attempt
+      target.addAggression(player.user.username, 0);
+      
       writeFormattedMessageToClient(
         player,
-        colorize(`You hit the ${target.name} with your ${weaponName} for ${actualDamage} damage.\r\n`, 'red')
+        colorize(`You fumble your ${weaponName} and stumble past the ${target.name}!\r\n`, 'yellow')
       );
       
-      // Broadcast to ALL other players in room instead of just combat participants
-      const username = formatUsername(player.user.username);
       this.combatSystem.broadcastRoomCombatMessage(
         roomId,
-        `${username} hits the ${target.name} with their ${weaponName} for ${actualDamage} damage.\r\n`,
-        'red' as ColorType,
+        `${username} fumbles their ${weaponName} and stumbles past the ${target.name}!\r\n`,
+        'yellow' as ColorType,
+        player.user.username
+      );
+    } else if (outcome === 'block') {
+      // A blocked attack still counts as an attack attempt
+      target.addAggression(player.user.username, 0);
+      const shieldName = this.getShieldName(target.equipment);
+      
+      writeFormattedMessageToClient(
+        player,
+        colorize(`The ${target.name} blocks your ${weaponName} with its ${shieldName}!\r\n`, 'cyan')
+      );
+      
+      this.combatSystem.broadcastRoomCombatMessage(
+        roomId,
+        `The ${target.name} blocks ${username}'s ${weaponName} with its ${shieldName}!\r\n`,
+        'cyan' as ColorType,
         player.user.username
       );
-
-      // Reduce weapon durability after a successful hit
-      this.reduceWeaponDurability(player);
     } else {
       // Add aggression for a miss (attack attempt)
       target.addAggression(player.user.username, 0);
@@ -236,7 +239,6 @@ export class Combat {
       );
       
       // Broadcast to ALL other players in room
-      const username = formatUsername(player.user.username);
       this.combatSystem.broadcastRoomCombatMessage(
         roomId,
         `${username} swings at the ${target.name} with their ${weaponName}, and misses!\r\n`,
@@ -245,30 +247,54 @@ export class Combat {
       );
     }
 
-    // Reduce armor durability after taking damage
-    this.reduceArmorDurability(target);
+    // Weapons wear with use, faster when they connect
+    if (weapon) {
+      this.reduceWeaponDurability(player, weapon, outcome === 'hit' || outcome === 'critical');
+    }
   }
 
-  private reduceWeaponDurability(player: ConnectedClient): void {
-    if (!player.user || !player.user.equipment) return;
+  private reduceWeaponDurability(player: ConnectedClient, weapon: WieldedItem, hit: boolean): void {
+    if (!player.user || !player.user.equipment || !player.user.currentRoomId) return;
 
-    const weaponInstanceId = player.user.equipment.weapon;
-    if (!weaponInstanceId) return;
+    // 25% chance to degrade durability on hit, 10% otherwise
+    if (combatRandom() >= (hit ? 0.25 : 0.1)) return;
 
-    const weaponIntact = this.itemManager.updateDurability(weaponInstanceId, -1);
+    const weaponIntact = this.itemManager.updateDurability(weapon.instanceId, -1);
 
     if (!weaponIntact) {
-      const weaponName = this.itemManager.getItemDisplayName(weaponInstanceId);
-      player.user.equipment.weapon = undefined as unknown as string;
+      const weaponName = this.itemManager.getItemDisplayName(weapon.instanceId);
+      player.user.equipment[weapon.slot] = undefined as unknown as string;
+      player.user.attack = this.itemManager.calculateAttack(player.user);
 
       writeFormattedMessageToClient(
         player,
         colorize(`Your ${weaponName} breaks from excessive use!\r\n`, 'red')
       );
+
+      // Broadcast to others
+      const username = formatUsername(player.user.username);
+      this.combatSystem.broadcastRoomCombatMessage(
+        player.user.currentRoomId,
+        `${username}'s ${weaponName} breaks from excessive use!\r\n`,
+        'red' as ColorType,
+        player.user.username
+      );
     }
   }
 
+  /**
+   * Display name of the shield in an equipment set's off hand
+   */
+  private getShieldName(equipment: { [slot: string]: string } | undefined): string {
+    const shield = this.itemManager.getWieldedItems(equipment).shield;
+    return shield ? this.itemManager.getItemDisplayName(shield.instanceId) : 'shield';
+  }
+
   private reduceArmorDurability(target: CombatEntity): void {
+    if (target instanceof NPC) {
+      this.reduceNpcArmorDurability(target);
+      return;
+    }
     if (!target.isUser()) return;
 
     const user = this.userManager.getUser(target.getName());
@@ -279,7 +305,7 @@ export class Combat {
 
     if (equippedArmorSlots.length === 0) return;
 
-    const randomSlot = equippedArmorSlots[Math.floor(Math.random() * equippedArmorSlots.length)];
+    const randomSlot = equippedArmorSlots[Math.floor(combatRandom() * equippedArmorSlots.length)];
     const armorInstanceId = user.equipment[randomSlot];
 
     if (!armorInstanceId) return;
@@ -297,6 +323,25 @@ export class Combat {
     }
   }
 
+  /**
+   * NPC gear wears like a player's; a piece that breaks is gone, along with its defense
+   */
+  private reduceNpcArmorDurability(npc: NPC): void {
+    const armorSlots = ['head', 'chest', 'arms', 'hands', 'legs', 'feet'].filter(slot => npc.equipment[slot]);
+    if (armorSlots.length === 0) return;
+
+    const randomSlot = armorSlots[Math.floor(combatRandom() * armorSlots.length)];
+    const armorInstanceId = npc.equipment[randomSlot];
+    if (this.itemManager.updateDurability(armorInstanceId, -1)) return;
+
+    const armorName = this.itemManager.getItemDisplayName(armorInstanceId);
+    npc.breakEquipment(randomSlot);
+    writeFormattedMessageToClient(
+      this.player,
+      colorize(`The ${npc.name}'s ${armorName} breaks from taking damage!\r\n`, 'red')
+    );
+  }
+
   private processCounterAttack(npc: CombatEntity): void {
     if (!this.player.user || !this.player.user.currentRoomId) return;
     
@@ -321,7 +366,7 @@ export class Combat {
     // Try to find a valid target, attempting each player once
     while (!validTarget && attempts < maxAttempts) {
       attempts++;
-      const randomIndex = Math.floor(Math.random() * targetingPlayers.length);
+      const randomIndex = Math.floor(combatRandom() * targetingPlayers.length);
       const randomPlayerName = targetingPlayers[randomIndex];
       targetPlayer = this.combatSystem.findClientByUsername(randomPlayerName);
       
@@ -341,14 +386,16 @@ export class Combat {
     // Mark that this entity has attacked in this round
     this.combatSystem.markEntityAttacked(entityId);
     
-    // 50% chance to hit
-    const hit = Math.random() >= 0.5;
+    // Roll the attack with the NPC's stats against the player's
+    const { outcome, damage } = resolveAttack(
+      getNpcCombatStats(npc),
+      getPlayerCombatStats(targetPlayer.user, undefined, this.roomManager.getStatModifiers(targetPlayer.user.username))
+    );
     
     // Get the room for broadcasting
     const roomId = this.player.user.currentRoomId;
     
-    if (hit) {
-      const damage = npc.getAttackDamage();
+    if (outcome === 'hit' || outcome === 'critical') {
       targetPlayer.user.health -= damage;
       
       // Ensure health doesn't go below 0
@@ -359,17 +406,18 @@ export class Combat {
       
       // Format the target name for messages
       const targetNameFormatted = formatUsername(targetPlayer.user.username);
+      const critical = outcome === 'critical' ? ` It's a critical hit!` : '';
       
       // Send message to the targeted player
       writeFormattedMessageToClient(
         targetPlayer,
-        colorize(`The ${npc.name} ${npc.getAttackText('you')} for ${damage} damage.\r\n`, 'red')
+        colorize(`The ${npc.name} ${npc.getAttackText('you')} for ${damage} damage.${critical}\r\n`, 'red')
       );
       
       // Broadcast to ALL players in room except the target
       this.combatSystem.broadcastRoomCombatMessage(
         roomId,
-        `The ${npc.name} ${npc.getAttackText(targetNameFormatted)} for ${damage} damage.\r\n`,
+        `The ${npc.name} ${npc.getAttackText(targetNameFormatted)} for ${damage} damage.${critical}\r\n`,
         'red' as ColorType,
         targetPlayer.user.username
       );
@@ -378,6 +426,28 @@ export class Combat {
       if (targetPlayer.user.health <= 0) {
         this.handlePlayerDeath(targetPlayer);
       }
+    } else if (outcome === 'fumble') {
+      // Everyone in the room sees the NPC stumble, the target included
+      this.combatSystem.broadcastRoomCombatMessage(
+        roomId,
+        `The ${npc.name} stumbles and fumbles its attack!\r\n`,
+        'yellow' as ColorType
+      );
+    } else if (outcome === 'block') {
+      const targetNameFormatted = formatUsername(targetPlayer.user.username);
+      const shieldName = this.getShieldName(targetPlayer.user.equipment);
+      
+      writeFormattedMessageToClient(
+        targetPlayer,
+        colorize(`You block the ${npc.name}'s attack with your ${shieldName}!\r\n`, 'cyan')
+      );
+      
+      this.combatSystem.broadcastRoomCombatMessage(
+        roomId,
+        `${targetNameFormatted} blocks the ${npc.name}'s attack with their ${shieldName}!\r\n`,
+        'cyan' as ColorType,
+        targetPlayer.user.username
+      );
     } else {
       // Format the target name for messages
       const targetNameFormatted = formatUsername(targetPlayer.user.username);
@@ -507,6 +577,12 @@ export class Combat {
       this.roomManager.removeNPCFromRoom(roomId, npc.name);
     }
     
+    // Leave the corpse with its drops; the fighters, or the dungeon party, get first pick
+    if (npc instanceof NPC) {
+      const party = this.roomManager.getInstanceForRoom(roomId)?.members || [];
+      this.roomManager.createCorpse(roomId, npc, [...targetingPlayers, ...party]);
+    }
+    
     // Clean up the shared entity reference
     this.combatSystem.cleanupDeadEntity(roomId, npc.name);
     
@@ -1,3 +1,5 @@
+import { DamageType } from '../types';
+
 /**
  * Interface for any entity that can participate in combat
  */
@@ -9,10 +11,15 @@ export interface CombatEntity {
   isHostile: boolean;
   isPassive: boolean;
   experienceValue: number;
+  level: number;
+  armor: number; // Makes the entity harder to hit
+  accuracy: number; // Makes the entity's attacks more likely to land
+  damageType: DamageType;
+  equipment?: { [slot: string]: string }; // Slot -> item instance ID
   
   // Basic combat methods
   isAlive(): boolean;
-  takeDamage(amount: number): number; // Returns actual damage dealt
+  takeDamage(amount: number, damageType?: DamageType): number; // Returns actual damage dealt, after resistances
   getAttackDamage(): number;
   getAttackText(target: string): string;
   
@@ -23,6 +30,11 @@ export interface CombatEntity {
   getAllAggressors(): string[];
   clearAllAggression(): void;
   
+  // Ally tracking: players fought in defense of an ally, without turning hostile
+  assistAgainst(playerName: string): void;
+  isAssistingAgainst(playerName: string): boolean;
+  getAssistTargets(): string[];
+  
   // Entity type and identification methods
   isUser(): boolean;
   getName(): string;
@@ -0,0 +1,182 @@
+import { EquipmentSlot, User } from '../types';
+import { ItemManager, WieldedItem } from '../utils/itemManager';
+import config from '../config';
+import { calculateHitChance } from './combatStats';
+import { CombatEntity } from './combatEntity.interface';
+
+// Chance any attack goes wrong before it's rolled to hit
+export const FUMBLE_CHANCE = 0.05;
+
+// Chance an attack that lands is a critical hit, and how much a critical multiplies damage by
+export const CRITICAL_CHANCE = 0.05;
+export const CRITICAL_MULTIPLIER = 2;
+
+// Defense needed to soak half of each hit; defense below it soaks proportionally less
+export const HALF_MITIGATION_DEFENSE = 50;
+
+// Chance a shield blocks an attack that would land, per point of its defense, and the cap on it
+export const BLOCK_CHANCE_PER_DEFENSE = 0.03;
+export const MAX_BLOCK_CHANCE = 0.3;
+
+// Accuracy lost on swings with a weapon held in the off hand
+export const OFF_HAND_ACCURACY_PENALTY = 4;
+
+// Returns a number in [0, 1), like Math.random
+export type RandomSource = () => number;
+
+export type AttackOutcome = 'fumble' | 'miss' | 'block' | 'hit' | 'critical';
+
+// What the formulas need to know about either side of an attack
+export interface CombatantStats {
+  level: number;
+  accuracy: number; // Makes attacks land
+  evasion: number; // Makes attacks miss
+  damage: [number, number]; // Raw damage range before mitigation
+  mitigation: number; // Soaks part of the damage from each hit
+  blockChance: number; // Chance a shield stops an attack that would land
+}
+
+// The result of one attack, already mitigated
+export interface AttackResult {
+  outcome: AttackOutcome;
+  damage: number;
+}
+
+/**
+ * Formulas deciding how attacks turn out. Swap them with setCombatFormulas to rebalance combat.
+ */
+export interface CombatFormulas {
+  rollOutcome(attacker: CombatantStats, defender: CombatantStats, random: RandomSource): AttackOutcome;
+  rollDamage(attacker: CombatantStats, outcome: AttackOutcome, random: RandomSource): number;
+  mitigateDamage(damage: number, defender: CombatantStats): number;
+}
+
+export const defaultCombatFormulas: CombatFormulas = {
+  rollOutcome(attacker, defender, random) {
+    if (random() < FUMBLE_CHANCE) return 'fumble';
+    if (random() >= calculateHitChance(attacker.accuracy, defender.evasion, attacker.level, defender.level)) return 'miss';
+    if (random() < defender.blockChance) return 'block';
+    return random() < CRITICAL_CHANCE ? 'critical' : 'hit';
+  },
+
+  rollDamage(attacker, outcome, random) {
+    if (outcome !== 'hit' && outcome !== 'critical') return 0;
+
+    const [min, max] = attacker.damage;
+    const damage = min + Math.floor(random() * (Math.max(min, max) - min + 1));
+    return outcome === 'critical' ? damage * CRITICAL_MULTIPLIER : damage;
+  },
+
+  mitigateDamage(damage, defender) {
+    if (damage <= 0) return 0;
+
+    const mitigation = Math.max(0, defender.mitigation);
+    const soaked = damage * mitigation / (mitigation + HALF_MITIGATION_DEFENSE);
+    return Math.max(1, Math.round(damage - soaked));
+  }
+};
+
+let formulas: CombatFormulas = defaultCombatFormulas;
+let random: RandomSource = Math.random;
+
+export function getCombatFormulas(): CombatFormulas {
+  return formulas;
+}
+
+export function setCombatFormulas(newFormulas: CombatFormulas): void {
+  formulas = newFormulas;
+}
+
+/**
+ * Make every combat roll repeatable from a seed, e.g. for balance tests; without a seed rolls use Math.random again
+ */
+export function seedCombatRandom(seed?: number): void {
+  random = seed === undefined ? Math.random : createSeededRandom(seed);
+}
+
+/**
+ * Draw a number in [0, 1) from the combat random source. Everything random in a fight goes
+ * through here, so a seed makes the whole fight repeatable and not just the attack rolls.
+ */
+export function combatRandom(): number {
+  return random();
+}
+
+/**
+ * A small, fast seeded generator (mulberry32); the same seed always gives the same sequence
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Started with --combatSeed, the server rolls the same fights the same way every run
+seedCombatRandom(config.COMBAT_SEED);
+
+/**
+ * Roll one attack with the current formulas and random source
+ */
+export function resolveAttack(attacker: CombatantStats, defender: CombatantStats): AttackResult {
+  const outcome = formulas.rollOutcome(attacker, defender, random);
+  const damage = formulas.mitigateDamage(formulas.rollDamage(attacker, outcome, random), defender);
+  return { outcome, damage };
+}
+
+/**
+ * Chance a shield blocks, from its defense; no shield never blocks
+ */
+export function getBlockChance(shield: WieldedItem | undefined): number {
+  if (!shield) return 0;
+  return Math.min(MAX_BLOCK_CHANCE, (shield.template.stats?.defense || 0) * BLOCK_CHANCE_PER_DEFENSE);
+}
+
+/**
+ * A player's combat stats when swinging the given weapon, or fists without one: dexterity aims,
+ * agility dodges, strength and the weapon's attack hit hard, defense from constitution and armor
+ * soaks damage, and a shield blocks
+ * @param statModifiers Stat changes from active effects, such as a storm's agility penalty
+ */
+export function getPlayerCombatStats(
+  user: User,
+  weapon?: WieldedItem,
+  statModifiers: { [stat: string]: number } = {}
+): CombatantStats {
+  const itemManager = ItemManager.getInstance();
+  const bonuses = itemManager.calculateStatBonuses(user);
+  const bonus = (stat: string): number => (bonuses[stat] || 0) + (statModifiers[stat] || 0);
+  const strength = user.strength + bonus('strength');
+  const weaponDamage = weapon?.template.stats?.attack || 0;
+  const offHandPenalty = weapon?.slot === EquipmentSlot.OFF_HAND ? OFF_HAND_ACCURACY_PENALTY : 0;
+  const { shield } = itemManager.getWieldedItems(user.equipment);
+
+  return {
+    level: user.level,
+    accuracy: Math.floor((user.dexterity + bonus('dexterity')) / 2) - offHandPenalty,
+    evasion: Math.floor((user.agility + bonus('agility')) / 2),
+    damage: [Math.floor(strength / 2) + weaponDamage, strength + weaponDamage],
+    // A shield's defense goes into its block chance instead, so it isn't counted twice
+    mitigation: (user.defense ?? itemManager.calculateDefense(user)) - (shield?.template.stats?.defense || 0),
+    blockChance: getBlockChance(shield)
+  };
+}
+
+/**
+ * An NPC's combat stats; its armor makes it harder to hit, and resistances rather than
+ * mitigation reduce the damage it takes
+ */
+export function getNpcCombatStats(npc: CombatEntity): CombatantStats {
+  return {
+    level: npc.level,
+    accuracy: npc.accuracy,
+    evasion: npc.armor,
+    damage: npc.damage,
+    mitigation: 0,
+    blockChance: getBlockChance(ItemManager.getInstance().getWieldedItems(npc.equipment).shield)
+  };
+}
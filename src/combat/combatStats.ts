@@ -0,0 +1,41 @@
+import { DamageType } from '../types';
+
+// Chance to hit when accuracy matches defense and both sides are the same level
+export const BASE_HIT_CHANCE = 0.5;
+
+// Hit chance gained per point of accuracy over the defender's defense
+export const HIT_CHANCE_PER_POINT = 0.02;
+
+// Hit chance gained per level the attacker has over the defender
+export const HIT_CHANCE_PER_LEVEL = 0.05;
+
+// Every swing has some chance either way, however lopsided the fight
+export const MIN_HIT_CHANCE = 0.05;
+export const MAX_HIT_CHANCE = 0.95;
+
+// NPC stats used when a template leaves them out; these match a new character's accuracy
+// and evasion, so an even fight stays at the base hit chance
+export const DEFAULT_NPC_LEVEL = 1;
+export const DEFAULT_NPC_ARMOR = 5;
+export const DEFAULT_NPC_ACCURACY = 5;
+
+// Damage dealt by fists, and by weapons that don't say otherwise
+export const DEFAULT_DAMAGE_TYPE: DamageType = 'bash';
+
+/**
+ * Chance an attack lands, from the attacker's accuracy against the defender's defense or armor
+ */
+export function calculateHitChance(accuracy: number, defense: number, attackerLevel: number, defenderLevel: number): number {
+  const chance = BASE_HIT_CHANCE
+    + (accuracy - defense) * HIT_CHANCE_PER_POINT
+    + (attackerLevel - defenderLevel) * HIT_CHANCE_PER_LEVEL;
+  return Math.min(MAX_HIT_CHANCE, Math.max(MIN_HIT_CHANCE, chance));
+}
+
+/**
+ * Damage left after a resistance: 0.5 halves it, 1 ignores it, and a negative resistance
+ * is a vulnerability that adds to it
+ */
+export function applyResistance(damage: number, resistance: number): number {
+  return Math.max(0, Math.round(damage * (1 - Math.min(1, resistance))));
+}
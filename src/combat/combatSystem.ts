@@ -5,6 +5,7 @@ import { colorize } from '../utils/colors';
 import { writeFormattedMessageToClient, drawCommandPrompt, writeToClient } from '../utils/socketWriter';
 import { UserManager } from '../user/userManager';
 import { NPC } from './npc';
+import { combatRandom } from './combatFormulas';
 import { RoomManager } from '../room/roomManager';
 import { formatUsername } from '../utils/formatters';
 import { systemLogger, getPlayerLogger } from '../utils/logger';
@@ -60,7 +61,8 @@ export class CombatSystem {
     );
     this.commandFactory = new CombatCommandFactory(
       this.combatNotifier,
-      userManager
+      userManager,
+      roomManager.getStatModifiers.bind(roomManager)
     );
     
     // Set up event listeners
@@ -119,6 +121,9 @@ export class CombatSystem {
     const sharedTarget = this.entityTracker.getSharedEntity(roomId, entityName);
     if (!sharedTarget) return false;
     
+    // Any travel stops here; a move already under way still finishes
+    this.roomManager.cancelTravel(player, 'Combat interrupts your travel!');
+    
     // Check if player is already in combat with a different NPC
     let combat = this.combats.get(player.user.username);
     if (combat && combat.activeCombatants.length > 0) {
@@ -184,7 +189,7 @@ export class CombatSystem {
     
     const handleAttack = (attacker: CombatEntity, target: CombatEntity): boolean => {
       // Default attack handling logic
-      return Math.random() >= 0.5; // 50% hit chance
+      return combatRandom() >= 0.5; // 50% hit chance
     };
     
     const handleMovement = (entity: ConnectedClient): void => {
@@ -2,6 +2,7 @@ import { ConnectedClient } from '../../types';
 import { CombatEntity } from '../combatEntity.interface';
 import { UserManager } from '../../user/userManager';
 import { CombatNotifier } from './CombatNotifier';
+import { combatRandom, getNpcCombatStats, getPlayerCombatStats, resolveAttack } from '../combatFormulas';
 import { systemLogger, getPlayerLogger } from '../../utils/logger';
 
 /**
@@ -21,15 +22,18 @@ export class AttackCommand implements CombatCommand {
     private notifier: CombatNotifier,
     private roomId: string,
     private userManager?: UserManager,
-    private targetClient?: ConnectedClient
+    private targetClient?: ConnectedClient,
+    private getStatModifiers?: (username: string) => { [stat: string]: number }
   ) {}
   
   execute(): void {
-    // Calculate hit chance (50% base chance)
-    const hit = Math.random() >= 0.5;
+    // Roll the attack against a player's stats, or the target entity's own
+    const defender = this.targetClient?.user
+      ? getPlayerCombatStats(this.targetClient.user, undefined, this.getStatModifiers?.(this.targetClient.user.username))
+      : getNpcCombatStats(this.target);
+    const { outcome, damage } = resolveAttack(getNpcCombatStats(this.attacker), defender);
     
-    if (hit) {
-      const damage = this.attacker.getAttackDamage();
+    if (outcome === 'hit' || outcome === 'critical') {
       
       // If target is a player (has a client), update their health
       if (this.targetClient?.user && this.userManager) {
@@ -57,7 +61,8 @@ export class AttackCommand implements CombatCommand {
           this.targetClient,
           this.roomId,
           true,
-          damage
+          damage,
+          outcome
         );
       } else {
         // Generic notification for NPC targets
@@ -82,7 +87,9 @@ export class AttackCommand implements CombatCommand {
         this.attacker,
         this.targetClient,
         this.roomId,
-        false
+        false,
+        0,
+        outcome
       );
     } else {
       // Generic notification for NPC targets
@@ -113,7 +120,7 @@ export class FleeCommand implements CombatCommand {
     if (!this.player.user) return;
     
     // Calculate flee chance (30% base chance)
-    const fleeSuccess = Math.random() < 0.3;
+    const fleeSuccess = combatRandom() < 0.3;
     
     if (fleeSuccess) {
       // Set player's inCombat to false
@@ -150,7 +157,8 @@ export class FleeCommand implements CombatCommand {
 export class CombatCommandFactory {
   constructor(
     private notifier: CombatNotifier,
-    private userManager: UserManager
+    private userManager: UserManager,
+    private getStatModifiers?: (username: string) => { [stat: string]: number }
   ) {}
   
   createAttackCommand(
@@ -165,7 +173,8 @@ export class CombatCommandFactory {
       this.notifier,
       roomId,
       this.userManager,
-      targetClient
+      targetClient,
+      this.getStatModifiers
     );
   }
   
@@ -4,6 +4,8 @@ import { colorize, ColorType } from '../../utils/colors';
 import { writeFormattedMessageToClient, drawCommandPrompt, writeToClient } from '../../utils/socketWriter';
 import { RoomManager } from '../../room/roomManager';
 import { formatUsername } from '../../utils/formatters';
+import { AttackOutcome } from '../combatFormulas';
+import { ItemManager } from '../../utils/itemManager';
 
 /**
  * Responsible for all combat-related messaging to clients
@@ -19,7 +21,8 @@ export class CombatNotifier {
     target: ConnectedClient, 
     roomId: string, 
     hit: boolean, 
-    damage: number = 0
+    damage: number = 0,
+    outcome?: AttackOutcome
   ): void {
     if (!target.user) return;
     
@@ -27,19 +30,40 @@ export class CombatNotifier {
     const targetNameFormatted = formatUsername(target.user.username);
     
     if (hit) {
+      const critical = outcome === 'critical' ? ` It's a critical hit!` : '';
+      
       // Send message to the targeted player
       writeFormattedMessageToClient(
         target,
-        colorize(`The ${attacker.name} ${attacker.getAttackText('you')} for ${damage} damage.\r\n`, 'red')
+        colorize(`The ${attacker.name} ${attacker.getAttackText('you')} for ${damage} damage.${critical}\r\n`, 'red')
       );
       
       // Broadcast to ALL players in room except the target
       this.broadcastRoomMessage(
         roomId,
-        `The ${attacker.name} ${attacker.getAttackText(targetNameFormatted)} for ${damage} damage.\r\n`,
+        `The ${attacker.name} ${attacker.getAttackText(targetNameFormatted)} for ${damage} damage.${critical}\r\n`,
         'red',
         target.user.username
       );
+    } else if (outcome === 'fumble') {
+      // Everyone in the room sees the attacker stumble, the target included
+      this.broadcastRoomMessage(roomId, `The ${attacker.name} stumbles and fumbles its attack!\r\n`, 'yellow');
+    } else if (outcome === 'block') {
+      const itemManager = ItemManager.getInstance();
+      const shield = itemManager.getWieldedItems(target.user.equipment).shield;
+      const shieldName = shield ? itemManager.getItemDisplayName(shield.instanceId) : 'shield';
+      
+      writeFormattedMessageToClient(
+        target,
+        colorize(`You block the ${attacker.name}'s attack with your ${shieldName}!\r\n`, 'cyan')
+      );
+      
+      this.broadcastRoomMessage(
+        roomId,
+        `${targetNameFormatted} blocks the ${attacker.name}'s attack with their ${shieldName}!\r\n`,
+        'cyan',
+        target.user.username
+      );
     } else {
       // Send message to the targeted player about the miss
       writeFormattedMessageToClient(
@@ -148,6 +172,13 @@ export class CombatNotifier {
     }
   }
 
+  /**
+   * Broadcast an NPC joining a fight to help an ally
+   */
+  notifyAllyAssist(ally: CombatEntity, defender: CombatEntity, roomId: string): void {
+    this.broadcastRoomMessage(roomId, `The ${ally.name} rushes to the aid of the ${defender.name}!\r\n`, 'boldYellow');
+  }
+
   /**
    * Broadcast a message to all players in a room regarding combat
    */
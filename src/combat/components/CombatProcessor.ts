@@ -8,6 +8,7 @@ import { UserManager } from '../../user/userManager';
 // import { NPC } from '../npc';
 import { CombatNotifier } from './CombatNotifier';
 import { formatUsername } from '../../utils/formatters';
+import { combatRandom, getNpcCombatStats, getPlayerCombatStats, resolveAttack } from '../combatFormulas';
 
 /**
  * Responsible for processing attack logic and combat rounds
@@ -44,15 +45,18 @@ export class CombatProcessor {
     
     // Process combat for each room with active combat entities
     for (const roomId of roomsWithCombat) {
-      const entities = this.entityTracker.getCombatEntitiesInRoom(roomId);
-      systemLogger.debug(`Processing room combat for room ${roomId} with ${entities.length} entities`);
-      
       // Get the room to verify it exists
       const room = this.roomManager.getRoom(roomId);
       if (!room) {
         systemLogger.warn(`Room ${roomId} not found, skipping combat processing`);
         continue;
       }
+
+      // Nobody fights in safe rooms
+      if (room.hasFlag('safe')) {
+        systemLogger.debug(`Room ${roomId} is a safe room, skipping combat processing`);
+        continue;
+      }
       
       // Get all players in this room
       const playersInRoom = room.players;
@@ -62,6 +66,12 @@ export class CombatProcessor {
       }
       
       systemLogger.debug(`Room ${roomId} has ${playersInRoom.length} players: ${playersInRoom.join(', ')}`);
+
+      // Allies join in before anyone swings, so they fight this round too
+      this.rallyAllies(roomId, playersInRoom);
+
+      const entities = this.entityTracker.getCombatEntitiesInRoom(roomId);
+      systemLogger.debug(`Processing room combat for room ${roomId} with ${entities.length} entities`);
       
       // Process each entity in the room
       for (const entityName of entities) {
@@ -83,10 +93,13 @@ export class CombatProcessor {
           continue;
         }
         
-        // Check if entity is hostile and should initiate combat
-        if (entity.isHostile && !entity.isPassive) {
+        // Allies defending a faction member fight only the players they're assisting against
+        const assistTargets = entity.getAssistTargets();
+        
+        // Check if entity is hostile or defending an ally and should initiate combat
+        if ((entity.isHostile || assistTargets.length > 0) && !entity.isPassive) {
           // Get all players this entity has aggression against
-          const aggressors = entity.getAllAggressors().filter(player => 
+          const aggressors = [...new Set([...entity.getAllAggressors(), ...assistTargets])].filter(player => 
             playersInRoom.includes(player)
           );
           
@@ -94,7 +107,7 @@ export class CombatProcessor {
           
           // If there are aggressors in the room, pick one randomly to attack
           if (aggressors.length > 0) {
-            const targetPlayerName = aggressors[Math.floor(Math.random() * aggressors.length)];
+            const targetPlayerName = aggressors[Math.floor(combatRandom() * aggressors.length)];
             const targetPlayer = this.findClientByUsername(targetPlayerName);
             
             if (targetPlayer && targetPlayer.user) {
@@ -111,9 +124,9 @@ export class CombatProcessor {
             }
           }
           // If no specific aggressors but entity is hostile, target any player in the room
-          else if (playersInRoom.length > 0) {
+          else if (entity.isHostile && playersInRoom.length > 0) {
             // Select a random player from the room to attack
-            const randomIndex = Math.floor(Math.random() * playersInRoom.length);
+            const randomIndex = Math.floor(combatRandom() * playersInRoom.length);
             const targetPlayerName = playersInRoom[randomIndex];
             const targetPlayer = this.findClientByUsername(targetPlayerName);
             
@@ -139,6 +152,26 @@ export class CombatProcessor {
     }
   }
 
+  /**
+   * Bring NPCs into the fight when players attack a member of a faction they assist,
+   * e.g. guards defending townsfolk or wolves defending their pack
+   */
+  private rallyAllies(roomId: string, playersInRoom: string[]): void {
+    const room = this.roomManager.getRoom(roomId);
+    if (!room) return;
+
+    for (const entityName of this.entityTracker.getCombatEntitiesInRoom(roomId)) {
+      const defender = room.npcs.get(entityName);
+      if (!defender || !defender.isAlive() || !defender.faction) continue;
+
+      const attackers = defender.getAllAggressors().filter(player => playersInRoom.includes(player));
+      for (const ally of this.entityTracker.pullInAllies(roomId, defender, attackers)) {
+        systemLogger.info(`NPC ${ally.name} (${ally.instanceId}) joins the fight to help ${defender.name} in room ${roomId}`);
+        this.combatNotifier.notifyAllyAssist(ally, defender, roomId);
+      }
+    }
+  }
+
   /**
    * Get all rooms with active combat entities
    */
@@ -167,11 +200,13 @@ export class CombatProcessor {
   private processNpcAttack(npc: CombatEntity, player: ConnectedClient, roomId: string): void {
     if (!player.user) return;
     
-    // 50% chance to hit
-    const hit = Math.random() >= 0.5;
+    // Roll the attack with the NPC's stats against the player's
+    const { outcome, damage } = resolveAttack(
+      getNpcCombatStats(npc),
+      getPlayerCombatStats(player.user, undefined, this.roomManager.getStatModifiers(player.user.username))
+    );
     
-    if (hit) {
-      const damage = npc.getAttackDamage();
+    if (outcome === 'hit' || outcome === 'critical') {
       player.user.health -= damage;
       
       // Make sure it doesn't go below -10
@@ -181,7 +216,7 @@ export class CombatProcessor {
       this.userManager.updateUserStats(player.user.username, { health: player.user.health });
       
       // Send message to the targeted player and broadcast to room
-      this.combatNotifier.notifyAttackResult(npc, player, roomId, true, damage);
+      this.combatNotifier.notifyAttackResult(npc, player, roomId, true, damage, outcome);
       
       // Check if player died or became unconscious
       if (player.user.health <= 0) {
@@ -189,7 +224,7 @@ export class CombatProcessor {
       }
     } else {
       // Send message to the targeted player and broadcast to room about the miss
-      this.combatNotifier.notifyAttackResult(npc, player, roomId, false, 0);
+      this.combatNotifier.notifyAttackResult(npc, player, roomId, false, 0, outcome);
     }
   }
 
@@ -293,7 +328,8 @@ export class CombatProcessor {
   }
   
   /**
-   * Teleport a player to the starting room
+   * Teleport a player to the starting room. Moves the player directly, so death
+   * isn't held back by a noteleport room.
    */
   private teleportToStartingRoom(player: ConnectedClient): void {
     if (!player.user) return;
@@ -357,6 +393,11 @@ export class CombatProcessor {
       if (!room.npcs || room.npcs.size === 0 || !room.players || room.players.length === 0) {
         continue;
       }
+
+      // Hostile NPCs don't pick fights in safe rooms
+      if (room.hasFlag('safe')) {
+        continue;
+      }
       
       let hostileNpcsInRoom = 0;
       
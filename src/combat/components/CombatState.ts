@@ -1,5 +1,6 @@
 import { ConnectedClient } from '../../types';
 import { CombatEntity } from '../combatEntity.interface';
+import { combatRandom } from '../combatFormulas';
 
 /**
  * Base interface for combat states
@@ -79,7 +80,7 @@ export class FleeingCombatState implements CombatState {
     const fleeSuccessChance = Math.min(0.2 + (fleeingForSeconds / 3) * 0.1, 0.8);
     
     // If random roll is less than flee success chance, the attack misses
-    return regularResult && Math.random() > fleeSuccessChance;
+    return regularResult && combatRandom() > fleeSuccessChance;
   }
   
   handleMovement(entity: ConnectedClient): void {
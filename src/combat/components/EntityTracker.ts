@@ -60,6 +60,34 @@ export class EntityTracker {
            this.roomCombatEntities.get(roomId)!.has(entityName);
   }
 
+  /**
+   * Pull NPCs that assist a defender's faction into its fight, turning them on its attackers
+   * @returns the allies that joined the fight just now
+   */
+  pullInAllies(roomId: string, defender: NPC, attackers: string[]): NPC[] {
+    const room = this.roomManager.getRoom(roomId);
+    if (!room || !defender.faction || attackers.length === 0) return [];
+
+    const joined: NPC[] = [];
+    for (const ally of room.npcs.values()) {
+      if (ally === defender || !ally.isAlive() || ally.isPassive) continue;
+      if (!ally.assists.includes(defender.faction)) continue;
+
+      const newAttackers = attackers.filter(attacker => !ally.isAssistingAgainst(attacker));
+      if (newAttackers.length === 0) continue;
+
+      // Only the attackers become targets; the ally doesn't turn hostile to the whole room
+      for (const attacker of newAttackers) {
+        ally.assistAgainst(attacker);
+      }
+      if (!this.isEntityInCombat(roomId, ally.instanceId)) {
+        this.addEntityToCombatForRoom(roomId, ally.instanceId);
+        joined.push(ally);
+      }
+    }
+    return joined;
+  }
+
   /**
    * Get or create a shared entity for a room
    */
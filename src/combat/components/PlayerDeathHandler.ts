@@ -139,7 +139,8 @@ export class PlayerDeathHandler {
   }
 
   /**
-   * Teleport player to the starting room on death
+   * Teleport player to the starting room on death. Moves the player directly, so a
+   * noteleport room can't hold on to the dead.
    */
   private teleportToStartingRoom(player: ConnectedClient): void {
     if (!player.user) return;
@@ -4,8 +4,15 @@ import { v4 as uuidv4 } from 'uuid';
 import { CombatEntity } from './combatEntity.interface';
 import { systemLogger } from '../utils/logger';
 import { parseAndValidateJson } from '../utils/jsonUtils';
-import { loadAndValidateJsonFile } from '../utils/fileUtils';
+import { loadAndValidateJsonFile, saveJsonFileAtomic } from '../utils/fileUtils';
 import config from '../config';
+import { DamageType, EquipmentSlot, LootTable, NPCBehavior, NPCDialogue, NPCScaling, ShopData } from '../types';
+import { ItemManager } from '../utils/itemManager';
+import { combatRandom } from './combatFormulas';
+import { applyResistance, DEFAULT_DAMAGE_TYPE, DEFAULT_NPC_ACCURACY, DEFAULT_NPC_ARMOR, DEFAULT_NPC_LEVEL } from './combatStats';
+
+// NPC templates file, shared by loading and saving
+const NPCS_FILE_PATH = path.join(__dirname, '..', '..', 'data', 'npcs.json');
 
 // Interface for NPC data loaded from JSON
 export interface NPCData {
@@ -18,8 +25,22 @@ export interface NPCData {
   isHostile: boolean;
   isPassive: boolean;
   experienceValue: number;
+  level?: number;
+  levelRange?: [number, number]; // Spawns at a random level in this range, scaled from level
+  armor?: number;
+  accuracy?: number;
+  damageType?: DamageType;
+  resistances?: Partial<Record<DamageType, number>>; // Fraction of each damage type ignored; negative for weaknesses
+  scaling?: NPCScaling;
+  equipment?: Partial<Record<EquipmentSlot, string>>; // Slot -> item template ID, created on spawn
   attackTexts: string[];
   deathMessages: string[];
+  behavior?: NPCBehavior; // NPCs without one are sentinels
+  dialogue?: NPCDialogue;
+  shop?: ShopData; // Makes the NPC a shopkeeper
+  loot?: LootTable;
+  faction?: string;
+  assists?: string[]; // Factions this NPC joins fights to defend
 }
 
 export class NPC implements CombatEntity {
@@ -35,10 +56,38 @@ export class NPC implements CombatEntity {
   public deathMessages: string[];
   // Map to track which players this NPC has aggression towards and the damage they've dealt
   private aggressors: Map<string, number> = new Map();
+  // Players this NPC fights only to defend an ally; unlike aggression it doesn't make the NPC hostile
+  private assistTargets: Set<string> = new Set();
+  // Combat stats, scaled to the level this NPC spawned at
+  public level: number = DEFAULT_NPC_LEVEL;
+  public armor: number = DEFAULT_NPC_ARMOR;
+  public accuracy: number = DEFAULT_NPC_ACCURACY;
+  public damageType: DamageType = DEFAULT_DAMAGE_TYPE;
+  public resistances: Partial<Record<DamageType, number>> = {};
+  // Items worn and wielded, slot -> item instance ID; they end up in the NPC's corpse
+  public equipment: { [slot: string]: string } = {};
   // Unique instance ID for this NPC
   public readonly instanceId: string;
   // Template ID (original ID from npcs.json)
   public readonly templateId: string;
+  // How this NPC moves around on game ticks
+  public behavior: NPCBehavior = { type: 'sentinel' };
+  // Next step of a patrol route
+  public patrolStep: number = 0;
+  // Player a following NPC is trailing after
+  public followTarget?: string;
+  // Room this NPC was spawned for; resets count it and saves store it there, wherever it has wandered
+  public homeRoomId?: string;
+  // Conversation graph used by the talk and ask commands
+  public dialogue?: NPCDialogue;
+  // Stock and prices when this NPC runs a shop
+  public shop?: ShopData;
+  // Drops left in the NPC's corpse
+  public loot?: LootTable;
+  // Group this NPC belongs to, e.g. townsfolk or a wolf pack
+  public faction?: string;
+  // Factions whose members this NPC comes to the aid of when they're attacked
+  public assists: string[] = [];
 
   constructor(
     public name: string,
@@ -119,16 +168,14 @@ export class NPC implements CombatEntity {
    * Load NPC data from file with validation
    */
   static loadNPCDataFromFile(): Map<string, NPCData> {
-    const npcFilePath = path.join(__dirname, '..', '..', 'data', 'npcs.json');
-    
     // Check if file exists
-    if (!fs.existsSync(npcFilePath)) {
-      systemLogger.warn(`NPCs file not found: ${npcFilePath}`);
+    if (!fs.existsSync(NPCS_FILE_PATH)) {
+      systemLogger.warn(`NPCs file not found: ${NPCS_FILE_PATH}`);
       return new Map<string, NPCData>(); // Return empty map only if file doesn't exist
     }
     
     // Validate the file
-    const npcArray = loadAndValidateJsonFile<NPCData[]>(npcFilePath, 'npcs');
+    const npcArray = loadAndValidateJsonFile<NPCData[]>(NPCS_FILE_PATH, 'npcs');
     
     if (npcArray && Array.isArray(npcArray)) {
       return NPC.loadPrevalidatedNPCData(npcArray);
@@ -137,6 +184,21 @@ export class NPC implements CombatEntity {
     }
   }
 
+  /**
+   * Write all NPC templates to disk and replace the cache with them, so edits
+   * take effect immediately instead of after the cache expires
+   * @returns false if the file couldn't be written
+   */
+  static saveNPCData(npcData: NPCData[]): boolean {
+    if (!saveJsonFileAtomic(NPCS_FILE_PATH, npcData)) {
+      return false;
+    }
+    
+    NPC.clearNpcDataCache();
+    NPC.loadPrevalidatedNPCData(npcData);
+    return true;
+  }
+
   // Add a method to clear the cache if needed (e.g., for reloading data)
   static clearNpcDataCache(): void {
     NPC.npcDataCache = null;
@@ -154,46 +216,167 @@ export class NPC implements CombatEntity {
   }
 
   // Factory method to create NPC from NPC data
-  static fromNPCData(npcData: NPCData): NPC {
-    return new NPC(
+  // @param level Level to spawn at; defaults to a roll in the template's level range, or its level
+  static fromNPCData(npcData: NPCData, level?: number): NPC {
+    const baseLevel = npcData.level ?? DEFAULT_NPC_LEVEL;
+    const spawnLevel = Math.max(1, level ?? NPC.rollLevel(npcData));
+    const scaling = npcData.scaling || {};
+    const levels = spawnLevel - baseLevel;
+    const scale = (base: number, perLevel: number | undefined, minimum: number) =>
+      Math.max(minimum, Math.round(base + (perLevel ?? 0) * levels));
+
+    const maxHealth = scale(npcData.maxHealth, scaling.health, 1);
+    const minDamage = scale(npcData.damage[0], scaling.damage, 0);
+    const maxDamage = scale(npcData.damage[1], scaling.damage, minDamage);
+
+    const npc = new NPC(
       npcData.name,
-      npcData.health,
-      npcData.maxHealth,
-      npcData.damage,
+      Math.min(maxHealth, scale(npcData.health, scaling.health, 1)),
+      maxHealth,
+      [minDamage, maxDamage],
       npcData.isHostile,
       npcData.isPassive,
-      npcData.experienceValue,
+      scale(npcData.experienceValue, scaling.experience, 0),
       npcData.description,
       npcData.attackTexts,
       npcData.deathMessages,
       npcData.id
     );
+
+    npc.level = spawnLevel;
+    npc.armor = scale(npcData.armor ?? DEFAULT_NPC_ARMOR, scaling.armor, 0);
+    npc.accuracy = scale(npcData.accuracy ?? DEFAULT_NPC_ACCURACY, scaling.accuracy, 0);
+    npc.damageType = npcData.damageType || DEFAULT_DAMAGE_TYPE;
+    npc.resistances = { ...npcData.resistances };
+    if (npcData.equipment) {
+      npc.equipItems(npcData.equipment);
+    }
+
+    if (npcData.behavior) {
+      npc.behavior = { ...npcData.behavior };
+      npc.followTarget = npcData.behavior.target;
+    }
+    npc.dialogue = npcData.dialogue;
+    npc.shop = npcData.shop;
+    npc.loot = npcData.loot;
+    npc.faction = npcData.faction;
+    npc.assists = npcData.assists ? [...npcData.assists] : [];
+    return npc;
+  }
+
+  /**
+   * Pick a spawn level from the template's level range, or use its level when it has none.
+   * Spawning isn't combat, so it stays off the seeded combat dice and can't shift a replay.
+   */
+  private static rollLevel(npcData: NPCData): number {
+    if (!npcData.levelRange) return npcData.level ?? DEFAULT_NPC_LEVEL;
+
+    const [min, max] = npcData.levelRange;
+    return min + Math.floor(Math.random() * (Math.max(min, max) - min + 1));
+  }
+
+  /**
+   * Create and put on the items a template equips, adding their defense to armor. A wielded weapon
+   * sets the damage type and adds its attack to damage, as it does for players.
+   */
+  private equipItems(equipment: Partial<Record<EquipmentSlot, string>>): void {
+    const itemManager = ItemManager.getInstance();
+
+    for (const [slot, templateId] of Object.entries(equipment)) {
+      if (!templateId) continue;
+
+      const instance = itemManager.createItemInstance(templateId, `npc:${this.templateId}`, { heldByNpc: this.instanceId });
+      if (!instance) {
+        systemLogger.warn(`NPC ${this.templateId} can't equip missing item template ${templateId}`);
+        continue;
+      }
+      this.equipment[slot] = instance.instanceId;
+    }
+
+    // A shield's defense goes into its block chance instead, so it isn't counted twice
+    const { weapons: [weapon], shield } = itemManager.getWieldedItems(this.equipment);
+    for (const [slot, instanceId] of Object.entries(this.equipment)) {
+      if (slot === shield?.slot) continue;
+      this.armor += itemManager.getTemplateForInstance(instanceId)?.stats?.defense || 0;
+    }
+
+    if (weapon) {
+      const attack = weapon.template.stats?.attack || 0;
+      this.damage = [this.damage[0] + attack, this.damage[1] + attack];
+      if (weapon.template.damageType) {
+        this.damageType = weapon.template.damageType;
+      }
+    }
+  }
+
+  /**
+   * Let go of everything the NPC wears and wields, e.g. into its corpse
+   * @returns the item instance IDs, which are ordinary items from now on
+   */
+  dropEquipment(): string[] {
+    const itemManager = ItemManager.getInstance();
+    const instanceIds = Object.values(this.equipment);
+    for (const instanceId of instanceIds) {
+      const instance = itemManager.getItemInstance(instanceId);
+      if (instance?.properties) {
+        delete instance.properties.heldByNpc;
+      }
+      itemManager.addItemHistory(instanceId, 'drop', `Dropped by ${this.name}`);
+    }
+    this.equipment = {};
+    return instanceIds;
+  }
+
+  /**
+   * Delete the NPC's gear when the NPC goes away without dying, so it doesn't linger in the item store
+   */
+  destroyEquipment(): void {
+    const itemManager = ItemManager.getInstance();
+    Object.values(this.equipment).forEach(instanceId => itemManager.deleteItemInstance(instanceId));
+    this.equipment = {};
+  }
+
+  /**
+   * A worn-out piece of gear falls apart, taking its defense with it
+   */
+  breakEquipment(slot: string): void {
+    const instanceId = this.equipment[slot];
+    if (!instanceId) return;
+
+    const itemManager = ItemManager.getInstance();
+    const { shield } = itemManager.getWieldedItems(this.equipment);
+    if (slot !== shield?.slot) {
+      this.armor = Math.max(0, this.armor - (itemManager.getTemplateForInstance(instanceId)?.stats?.defense || 0));
+    }
+    delete this.equipment[slot];
+    itemManager.deleteItemInstance(instanceId);
   }
 
   isAlive(): boolean {
     return this.health > 0;
   }
 
-  takeDamage(amount: number): number {
-    const actualDamage = Math.min(this.health, amount);
+  takeDamage(amount: number, damageType?: DamageType): number {
+    const resisted = damageType ? applyResistance(amount, this.resistances[damageType] ?? 0) : amount;
+    const actualDamage = Math.min(this.health, resisted);
     this.health -= actualDamage;
     return actualDamage;
   }
 
   getAttackDamage(): number {
     const [min, max] = this.damage;
-    return Math.floor(Math.random() * (max - min + 1)) + min;
+    return Math.floor(combatRandom() * (max - min + 1)) + min;
   }
 
   getAttackText(target: string): string {
     // Replace placeholder with target name if applicable
-    const attackText = this.attackTexts[Math.floor(Math.random() * this.attackTexts.length)];
+    const attackText = this.attackTexts[Math.floor(combatRandom() * this.attackTexts.length)];
     return attackText.replace('$TARGET$', target);
   }
 
   getDeathMessage(): string {
     // Get a random death message from the array
-    return this.deathMessages[Math.floor(Math.random() * this.deathMessages.length)];
+    return this.deathMessages[Math.floor(combatRandom() * this.deathMessages.length)];
   }
 
   // Aggression tracking implementation
@@ -210,6 +393,7 @@ export class NPC implements CombatEntity {
 
   removeAggression(playerName: string): void {
     this.aggressors.delete(playerName);
+    this.assistTargets.delete(playerName);
   }
 
   getAllAggressors(): string[] {
@@ -218,6 +402,26 @@ export class NPC implements CombatEntity {
 
   clearAllAggression(): void {
     this.aggressors.clear();
+    this.assistTargets.clear();
+  }
+
+  assistAgainst(playerName: string): void {
+    this.assistTargets.add(playerName);
+  }
+
+  isAssistingAgainst(playerName: string): boolean {
+    return this.assistTargets.has(playerName);
+  }
+
+  getAssistTargets(): string[] {
+    return Array.from(this.assistTargets);
+  }
+
+  /**
+   * Whether the NPC is fighting anyone, either because it was attacked or because it joined in for an ally
+   */
+  isInCombat(): boolean {
+    return this.aggressors.size > 0 || this.assistTargets.size > 0;
   }
 
   // Implement the isUser method from CombatEntity interface
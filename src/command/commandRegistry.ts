@@ -53,6 +53,27 @@ import { BugReportCommand } from './commands/bugreport.command';
 import { ChangePasswordCommand } from './commands/changePassword.command'; // Import our new ChangePassword command
 import { PlayedCommand } from './commands/played.command'; // Import our new Played command
 import { TimeCommand } from './commands/time.command'; // Import our new Time command
+import { OpenCommand } from './commands/open.command';
+import { CloseCommand } from './commands/close.command';
+import { LockCommand } from './commands/lock.command';
+import { UnlockCommand } from './commands/unlock.command';
+import { RoomEditCommand } from './commands/redit.command';
+import { ItemEditCommand } from './commands/iedit.command';
+import { MobEditCommand } from './commands/medit.command';
+import { MapCommand } from './commands/map.command';
+import { TravelCommand } from './commands/travel.command';
+import { SearchCommand } from './commands/search.command';
+import { WeatherCommand } from './commands/weather.command';
+import { EchoCommand } from './commands/echo.command';
+import { ZoneEchoCommand } from './commands/zecho.command';
+import { InstanceCommand } from './commands/instance.command';
+import { AreaImportCommand } from './commands/areimport.command';
+import { TalkCommand } from './commands/talk.command';
+import { AskCommand } from './commands/ask.command';
+import { BuyCommand } from './commands/buy.command';
+import { SellCommand } from './commands/sell.command';
+import { ValueCommand } from './commands/value.command';
+import { LootCommand } from './commands/loot.command';
 
 // Function to calculate Levenshtein distance between two strings
 function levenshteinDistance(a: string, b: string): number {
@@ -148,7 +169,7 @@ export class CommandRegistry {
       new YellCommand(this.clients),
       new HistoryCommand(),
       new AttackCommand(this.combatSystem, this.roomManager),
-      new BreakCommand(this.combatSystem, this.userManager),
+      new BreakCommand(this.combatSystem, this.userManager, this.roomManager),
       new SpawnCommand(this.roomManager),
       new EquipCommand(),
       new UnequipCommand(),
@@ -173,7 +194,28 @@ export class CommandRegistry {
       new BugReportCommand(this.userManager), // Add our new Bug Report command
       new ChangePasswordCommand(this.userManager), // Add our new ChangePassword command
       new PlayedCommand(this.userManager), // Add our new Played command
-      new TimeCommand() // Add our new Time command
+      new TimeCommand(), // Add our new Time command
+      new OpenCommand(this.roomManager),
+      new CloseCommand(this.roomManager),
+      new LockCommand(this.roomManager),
+      new UnlockCommand(this.roomManager),
+      new RoomEditCommand(this.roomManager),
+      new ItemEditCommand(this.userManager),
+      new MobEditCommand(),
+      new MapCommand(this.roomManager),
+      new TravelCommand(this.roomManager),
+      new SearchCommand(this.roomManager, this.userManager),
+      new WeatherCommand(this.roomManager),
+      new EchoCommand(this.roomManager),
+      new ZoneEchoCommand(this.roomManager),
+      new InstanceCommand(this.roomManager),
+      new AreaImportCommand(this.roomManager),
+      new TalkCommand(this.roomManager),
+      new AskCommand(this.roomManager),
+      new BuyCommand(this.roomManager, this.userManager),
+      new SellCommand(this.roomManager, this.userManager),
+      new ValueCommand(this.roomManager),
+      new LootCommand(this.roomManager, this.userManager)
     ];
     
     // Register all commands
@@ -216,6 +258,8 @@ export class CommandRegistry {
     this.aliases.set('take', {commandName: 'pickup'});
     this.aliases.set('a', {commandName: 'attack'});
     this.aliases.set('br', {commandName: 'break'});
+    this.aliases.set('tr', {commandName: 'travel'});
+    this.aliases.set('speedwalk', {commandName: 'travel'});
     this.aliases.set('sp', {commandName: 'spawn'});
     this.aliases.set('st', {commandName: 'stats'});
     this.aliases.set('stat', {commandName: 'stats'});
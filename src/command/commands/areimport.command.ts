@@ -0,0 +1,64 @@
+import { ConnectedClient, GameItem } from '../../types';
+import { colorize } from '../../utils/colors';
+import { writeToClient } from '../../utils/socketWriter';
+import { Command } from '../command.interface';
+import { RoomManager } from '../../room/roomManager';
+import { NPC } from '../../combat/npc';
+import { ItemManager } from '../../utils/itemManager';
+import { SudoCommand } from './sudo.command';
+import { importAreFile } from '../../utils/areImporter';
+import { loadAndValidateJsonFile } from '../../utils/fileUtils';
+import { getPlayerLogger } from '../../utils/logger';
+import config from '../../config';
+
+export class AreaImportCommand implements Command {
+  name = 'areimport';
+  description = 'Import a DikuMUD/ROM .are area file as a new zone (admin only)';
+
+  constructor(private roomManager: RoomManager) {}
+
+  execute(client: ConnectedClient, args: string): void {
+    if (!client.user) return;
+
+    if (!SudoCommand.isAuthorizedUser(client.user.username)) {
+      writeToClient(client, colorize('You do not have permission to use this command.\r\n', 'red'));
+      return;
+    }
+
+    const filePath = args.trim();
+    if (!filePath) {
+      writeToClient(client, colorize(`Usage: areimport <path to .are file>\r\n`, 'yellow'));
+      return;
+    }
+
+    let result;
+    try {
+      result = importAreFile(filePath, {
+        zonesDir: config.ZONES_DIR,
+        npcsFile: config.NPCS_FILE,
+        itemsFile: config.ITEMS_FILE
+      });
+    } catch (error) {
+      writeToClient(client, colorize(`Import failed: ${error instanceof Error ? error.message : String(error)}\r\n`, 'red'));
+      return;
+    }
+
+    // Pick up the new templates before the zone's NPCs are created
+    NPC.clearNpcDataCache();
+    const items = loadAndValidateJsonFile<GameItem[]>(config.ITEMS_FILE, 'items');
+    if (items) {
+      ItemManager.getInstance().loadPrevalidatedItems(items);
+    }
+    this.roomManager.addZone(result.zone);
+
+    writeToClient(client, colorize(`Imported zone '${result.zone.id}': ${result.zone.rooms.length} rooms, ${result.npcs.length} NPCs, ${result.items.length} items.\r\n`, 'green'));
+    if (result.report.length > 0) {
+      writeToClient(client, colorize(`Not imported:\r\n`, 'yellow'));
+      for (const line of result.report) {
+        writeToClient(client, colorize(`  - ${line}\r\n`, 'yellow'));
+      }
+    }
+
+    getPlayerLogger(client.user.username).info(`Imported area file ${filePath} as zone ${result.zone.id}`);
+  }
+}
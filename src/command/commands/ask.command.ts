@@ -0,0 +1,41 @@
+import { ConnectedClient } from '../../types';
+import { colorize } from '../../utils/colors';
+import { writeToClient } from '../../utils/socketWriter';
+import { Command } from '../command.interface';
+import { RoomManager } from '../../room/roomManager';
+import { DialogueManager } from '../../dialogue/dialogueManager';
+
+export class AskCommand implements Command {
+  name = 'ask';
+  description = 'Ask someone in the room about a topic';
+  private dialogueManager: DialogueManager;
+
+  constructor(private roomManager: RoomManager) {
+    this.dialogueManager = DialogueManager.getInstance(roomManager);
+  }
+
+  execute(client: ConnectedClient, args: string): void {
+    if (!client.user) return;
+
+    const match = args.trim().match(/^(.+?)\s+about\s+(.+)$/i);
+    if (!match) {
+      writeToClient(client, colorize(`Usage: ask <npc> about <topic>\r\n`, 'yellow'));
+      return;
+    }
+
+    const [, target, topic] = match;
+    const room = this.roomManager.getRoom(client.user.currentRoomId || this.roomManager.getStartingRoomId());
+    if (!room) {
+      writeToClient(client, colorize(`You're not in a valid room.\r\n`, 'red'));
+      return;
+    }
+
+    const npc = this.dialogueManager.findNpc(room, target);
+    if (!npc) {
+      writeToClient(client, colorize(`You don't see '${target}' here.\r\n`, 'yellow'));
+      return;
+    }
+
+    this.dialogueManager.askAbout(client, npc, topic);
+  }
+}
@@ -57,6 +57,12 @@ export class AttackCommand implements Command {
       writeFormattedMessageToClient(client, colorize(`You are not in a valid location to attack from.\r\n`, 'red'));
       return;
     }
+
+    if (room.hasFlag('safe')) {
+      playerLogger.info(`Attack command rejected: Room ${roomId} is a safe room`);
+      writeFormattedMessageToClient(client, colorize(`You feel too peaceful here to start a fight.\r\n`, 'yellow'));
+      return;
+    }
     
     let target = null;
     const targetName = args.trim().toLowerCase();
@@ -6,14 +6,16 @@ import { CombatSystem } from '../../combat/combatSystem';
 import { UserManager } from '../../user/userManager';
 import { getPlayerLogger } from '../../utils/logger';
 import { CombatEntity } from '../../combat/combatEntity.interface';
+import { RoomManager } from '../../room/roomManager';
 
 export class BreakCommand implements Command {
   name = 'break';
-  description = 'Attempt to break away from combat';
+  description = 'Attempt to break away from combat, or stop traveling';
 
   constructor(
     private combatSystem: CombatSystem,
-    private userManager: UserManager
+    private userManager: UserManager,
+    private roomManager: RoomManager
   ) {}
 
   execute(client: ConnectedClient, args: string): void {
@@ -23,6 +25,11 @@ export class BreakCommand implements Command {
     const playerLogger = getPlayerLogger(client.user.username);
 
     if (!client.user.inCombat) {
+      // Outside of combat, break stops any travel in progress
+      if (this.roomManager.cancelTravel(client)) {
+        playerLogger.info(`Player ${client.user.username} stopped traveling`);
+        return;
+      }
       writeToClient(client, colorize('You are not in combat.\r\n', 'yellow'));
       return;
     }
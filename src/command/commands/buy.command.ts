@@ -0,0 +1,72 @@
+import { ConnectedClient } from '../../types';
+import { colorize } from '../../utils/colors';
+import { writeToClient } from '../../utils/socketWriter';
+import { formatUsername } from '../../utils/formatters';
+import { Command } from '../command.interface';
+import { RoomManager } from '../../room/roomManager';
+import { UserManager } from '../../user/userManager';
+import { ShopManager } from '../../shop/shopManager';
+import { formatCurrency, fromCopper, spendCurrency, toCopper } from '../../utils/currency';
+import { getPlayerLogger } from '../../utils/logger';
+
+export class BuyCommand implements Command {
+  name = 'buy';
+  description = 'Buy an item from the shop you are in, by name or list number';
+  private shopManager: ShopManager;
+
+  constructor(private roomManager: RoomManager, private userManager: UserManager) {
+    this.shopManager = ShopManager.getInstance(roomManager);
+  }
+
+  execute(client: ConnectedClient, args: string): void {
+    if (!client.user) return;
+
+    const itemName = args.trim().toLowerCase();
+    if (!itemName) {
+      writeToClient(client, colorize(`Usage: buy <item name or list number>\r\n`, 'yellow'));
+      return;
+    }
+
+    const room = this.roomManager.getRoom(client.user.currentRoomId || this.roomManager.getStartingRoomId());
+    const shopkeeper = room && this.shopManager.getShopkeeper(room);
+    if (!shopkeeper) {
+      writeToClient(client, colorize(`There is no shop here.\r\n`, 'yellow'));
+      return;
+    }
+
+    const listings = this.shopManager.getListings(shopkeeper);
+    const listing = /^\d+$/.test(itemName)
+      ? listings[parseInt(itemName, 10) - 1]
+      : listings.find(candidate => candidate.name.toLowerCase() === itemName)
+        || listings.find(candidate => candidate.name.toLowerCase().includes(itemName));
+    if (!listing) {
+      writeToClient(client, colorize(`The ${shopkeeper.name} doesn't sell that. Type "list" to see the wares.\r\n`, 'yellow'));
+      return;
+    }
+
+    const purse = client.user.inventory.currency;
+    if (toCopper(purse) < listing.price) {
+      writeToClient(client, colorize(`You can't afford the ${listing.name}; it costs ${formatCurrency(fromCopper(listing.price))}.\r\n`, 'yellow'));
+      return;
+    }
+
+    const instanceId = this.shopManager.takeFromShelf(shopkeeper, listing, client.user.username);
+    if (!instanceId) {
+      writeToClient(client, colorize(`The ${shopkeeper.name} has run out of those.\r\n`, 'yellow'));
+      return;
+    }
+
+    spendCurrency(purse, listing.price);
+    client.user.inventory.items.push(instanceId);
+    this.userManager.updateUserInventory(client.user.username, client.user.inventory);
+
+    const price = formatCurrency(fromCopper(listing.price));
+    writeToClient(client, colorize(`You buy the ${listing.name} for ${price}.\r\n`, 'green'));
+    this.roomManager.notifyPlayersInRoom(
+      room.id,
+      `${formatUsername(client.user.username)} buys a ${listing.name} from the ${shopkeeper.name}.\r\n`,
+      client.user.username
+    );
+    getPlayerLogger(client.user.username).info(`Bought ${listing.name} (${instanceId}) from ${shopkeeper.templateId} for ${price}`);
+  }
+}
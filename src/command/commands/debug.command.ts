@@ -843,7 +843,7 @@ export class DebugCommand implements Command {
       const allRooms = this.roomManager.getAllRooms();
       writeToClient(client, colorize(`\r\nAvailable rooms:\r\n`, 'cyan'));
       allRooms.forEach((room, index) => {
-        writeToClient(client, colorize(`${index + 1}. ${room.id} - ${room.name}\r\n`, 'white'));
+        writeToClient(client, colorize(`${index + 1}. ${room.id} - ${room.name} [${room.zoneId}]\r\n`, 'white'));
       });
       return;
     }
@@ -853,11 +853,43 @@ export class DebugCommand implements Command {
     writeToClient(client, colorize(`Name: ${room.name}\r\n`, 'cyan'));
     writeToClient(client, colorize(`Description: ${room.description}\r\n`, 'cyan'));
     
+    // Zone
+    const zone = this.roomManager.getZone(room.zoneId);
+    if (zone) {
+      writeToClient(client, colorize(`Zone: ${zone.name} (${zone.id}), levels ${zone.levelRange.min}-${zone.levelRange.max}\r\n`, 'cyan'));
+      writeToClient(client, colorize(`  Builders: ${zone.builders.length > 0 ? zone.builders.join(', ') : 'None'}\r\n`, 'white'));
+      writeToClient(client, colorize(`  Reset: ${zone.resetPolicy.mode}${zone.resetPolicy.intervalTicks ? ` every ${zone.resetPolicy.intervalTicks} ticks` : ''}\r\n`, 'white'));
+    } else {
+      writeToClient(client, colorize(`Zone: ${room.zoneId} (not loaded)\r\n`, 'cyan'));
+    }
+    
+    if (room.landmark) {
+      writeToClient(client, colorize(`Landmark: ${room.landmark}\r\n`, 'cyan'));
+    }
+    writeToClient(client, colorize(`Flags: ${room.flags.length > 0 ? room.flags.join(', ') : 'None'}\r\n`, 'cyan'));
+    
     // Exits
     writeToClient(client, colorize(`\r\nExits:\r\n`, 'yellow'));
     if (room.exits.length > 0) {
       room.exits.forEach((exit, index) => {
-        writeToClient(client, colorize(`  ${index + 1}. ${exit.direction} -> ${exit.roomId}\r\n`, 'white'));
+        const doorText = exit.door ? ` [${exit.door.state} ${exit.door.name || 'door'}${exit.door.keyId ? `, key: ${exit.door.keyId}` : ''}]` : '';
+        const oneWayText = exit.oneWay ? ' (one-way)' : '';
+        const hiddenText = exit.hidden ? ` (hidden, difficulty ${exit.searchDifficulty ?? 'default'})` : '';
+        writeToClient(client, colorize(`  ${index + 1}. ${exit.direction} -> ${exit.roomId}${doorText}${oneWayText}${hiddenText}\r\n`, 'white'));
+      });
+    } else {
+      writeToClient(client, colorize(`  None\r\n`, 'white'));
+    }
+    
+    // Reset rules for this room, including zone rules that target it
+    const resetRules = [
+      ...room.resets,
+      ...(zone ? zone.resets.filter(rule => rule.roomId === room.id) : [])
+    ];
+    writeToClient(client, colorize(`\r\nResets${room.resetInterval ? ` (every ${room.resetInterval} ticks)` : ''}:\r\n`, 'yellow'));
+    if (resetRules.length > 0) {
+      resetRules.forEach((rule, index) => {
+        writeToClient(client, colorize(`  ${index + 1}. ${rule.type} ${rule.templateId} (max ${rule.maxCount})${rule.roomId ? ' [zone rule]' : ''}\r\n`, 'white'));
       });
     } else {
       writeToClient(client, colorize(`  None\r\n`, 'white'));
@@ -0,0 +1,37 @@
+import { ConnectedClient } from '../../types';
+import { colorize } from '../../utils/colors';
+import { writeToClient } from '../../utils/socketWriter';
+import { Command } from '../command.interface';
+import { RoomManager } from '../../room/roomManager';
+import { SudoCommand } from './sudo.command';
+import { getPlayerLogger } from '../../utils/logger';
+
+export class EchoCommand implements Command {
+  name = 'echo';
+  description = 'Send narration to everyone in your room (admin only)';
+
+  constructor(private roomManager: RoomManager) {}
+
+  execute(client: ConnectedClient, args: string): void {
+    if (!client.user) return;
+
+    if (!SudoCommand.isAuthorizedUser(client.user.username)) {
+      writeToClient(client, colorize('You do not have permission to use this command.\r\n', 'red'));
+      return;
+    }
+
+    const text = args.trim();
+    if (!text) {
+      writeToClient(client, colorize(`Usage: echo <text>\r\n`, 'yellow'));
+      return;
+    }
+
+    const roomId = client.user.currentRoomId || this.roomManager.getStartingRoomId();
+    if (!this.roomManager.echoToRoom(roomId, colorize(`${text}\r\n`, 'white'))) {
+      writeToClient(client, colorize(`You're not in a valid room.\r\n`, 'red'));
+      return;
+    }
+
+    getPlayerLogger(client.user.username).info(`ECHO in room ${roomId}: ${text}`);
+  }
+}
@@ -1,4 +1,4 @@
-import { ConnectedClient, GameItem, User } from '../../types';
+import { ConnectedClient, EquipmentSlot, GameItem, User } from '../../types';
 import { colorize } from '../../utils/colors';
 import { writeToClient } from '../../utils/socketWriter';
 import { Command } from '../command.interface';
@@ -101,7 +101,8 @@ export class EquipCommand implements Command {
     }
     
     // Check if something is already equipped in that slot
-    const currentItemId = user.equipment[item.slot];
+    const slot = this.chooseSlot(user, item);
+    const currentItemId = user.equipment[slot];
 
     // Remove the item being equipped from inventory
     const itemIndex = user.inventory.items.indexOf(itemId);
@@ -127,7 +128,7 @@ export class EquipCommand implements Command {
         writeToClient(client, colorize(`You unequip ${currentItem.name}.\r\n`, 'yellow'));
         
         // Log the unequip action
-        playerLogger.info(`Unequipped item from ${item.slot} slot: ${currentItem.name} (ID: ${currentItemId})`);
+        playerLogger.info(`Unequipped item from ${slot} slot: ${currentItem.name} (ID: ${currentItemId})`);
         
         // Add to item instance history if applicable
         if (currentInstance) {
@@ -141,14 +142,14 @@ export class EquipCommand implements Command {
     }
     
     // Equip the new item
-    user.equipment[item.slot] = itemId;
+    user.equipment[slot] = itemId;
     
     // If it's an item instance, add to its history
     if (instance) {
       this.itemManager.addItemHistory(
         itemId,
         'equip',
-        `Equipped by ${user.username} in slot ${item.slot}`
+        `Equipped by ${user.username} in slot ${slot}`
       );
     }
     
@@ -181,7 +182,7 @@ export class EquipCommand implements Command {
     writeToClient(client, colorize(`You equip ${displayName}.\r\n`, 'green'));
     
     // Log the successful equip action
-    playerLogger.info(`Equipped item in ${item.slot} slot: ${stripColorCodes(displayName)} (ID: ${itemId}), attack: ${user.attack}, defense: ${user.defense}`);
+    playerLogger.info(`Equipped item in ${slot} slot: ${stripColorCodes(displayName)} (ID: ${itemId}), attack: ${user.attack}, defense: ${user.defense}`);
     
     // Show any stat changes if the item has stat bonuses
     if (item.stats) {
@@ -204,6 +205,20 @@ export class EquipCommand implements Command {
     }
   }
   
+  /**
+   * Pick the slot an item goes in; a second weapon goes in an empty off hand to be dual-wielded
+   */
+  private chooseSlot(user: User, item: GameItem): EquipmentSlot {
+    const slot = item.slot!;
+    if (item.type !== 'weapon' || slot !== EquipmentSlot.MAIN_HAND || user.equipment?.[EquipmentSlot.OFF_HAND]) {
+      return slot;
+    }
+
+    const mainHand = this.itemManager.getWieldedItems(user.equipment).weapons
+      .find(weapon => weapon.slot === EquipmentSlot.MAIN_HAND);
+    return mainHand ? EquipmentSlot.OFF_HAND : slot;
+  }
+
   /**
    * Check if the user meets the requirements to equip an item
    */
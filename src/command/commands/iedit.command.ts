@@ -0,0 +1,313 @@
+import { ConnectedClient, EquipmentSlot, GameItem } from '../../types';
+import { colorize } from '../../utils/colors';
+import { writeToClient } from '../../utils/socketWriter';
+import { Command } from '../command.interface';
+import { UserManager } from '../../user/userManager';
+import { ItemManager } from '../../utils/itemManager';
+import { SudoCommand } from './sudo.command';
+import { validateItems } from '../../schemas';
+import { formatValidationErrors } from '../../utils/jsonUtils';
+import { startLineEditor } from '../../utils/lineEditor';
+import { getPlayerLogger } from '../../utils/logger';
+
+const ITEM_TYPES: GameItem['type'][] = ['weapon', 'armor', 'consumable', 'quest', 'misc'];
+const STAT_NAMES = ['attack', 'defense', 'strength', 'dexterity', 'agility', 'constitution', 'wisdom', 'intelligence', 'charisma'];
+const REQUIREMENT_NAMES = ['level', 'strength', 'dexterity'];
+
+export class ItemEditCommand implements Command {
+  name = 'iedit';
+  description = 'Create and edit item templates in-game (admin only)';
+  private itemManager: ItemManager;
+
+  constructor(private userManager: UserManager) {
+    this.itemManager = ItemManager.getInstance();
+  }
+
+  execute(client: ConnectedClient, args: string): void {
+    if (!client.user) return;
+
+    if (!SudoCommand.isAuthorizedUser(client.user.username)) {
+      writeToClient(client, colorize('You do not have permission to use this command.\r\n', 'red'));
+      return;
+    }
+
+    const parts = args.trim().split(' ').filter(part => part.length > 0);
+    const first = (parts[0] || '').toLowerCase();
+
+    switch (first) {
+      case '':
+      case 'help':
+        this.showHelp(client);
+        return;
+      case 'create':
+        this.createTemplate(client, parts[1], parts.slice(2).join(' '));
+        return;
+      case 'show':
+        this.showTemplate(client, parts[1]);
+        return;
+      case 'delete':
+        this.deleteTemplate(client, parts[1], (parts[2] || '').toLowerCase() === 'force');
+        return;
+    }
+
+    // Everything else is "iedit <templateId> <field> <value>"
+    const template = this.itemManager.getItem(parts[0]);
+    if (!template) {
+      writeToClient(client, colorize(`No item template with id '${parts[0]}'.\r\n`, 'yellow'));
+      return;
+    }
+
+    this.editField(client, template, (parts[1] || '').toLowerCase(), parts.slice(2));
+  }
+
+  private showHelp(client: ConnectedClient): void {
+    writeToClient(client, colorize('Item Editor - Admin Only\r\n', 'green'));
+    writeToClient(client, colorize('------------------------\r\n', 'green'));
+    writeToClient(client, colorize('Usage: iedit <subcommand> [arguments]\r\n\r\n', 'cyan'));
+
+    writeToClient(client, colorize('Available subcommands:\r\n', 'yellow'));
+    writeToClient(client, colorize('  create <id> <name>          - Create a new item template\r\n', 'white'));
+    writeToClient(client, colorize('  show <id>                   - Show an item template\r\n', 'white'));
+    writeToClient(client, colorize('  delete <id> [force]         - Delete a template (force if instances exist)\r\n', 'white'));
+    writeToClient(client, colorize('  <id> name <text>            - Set the name\r\n', 'white'));
+    writeToClient(client, colorize('  <id> desc [text]            - Set the description (no text opens the editor)\r\n', 'white'));
+    writeToClient(client, colorize(`  <id> type <type>            - One of: ${ITEM_TYPES.join(', ')}\r\n`, 'white'));
+    writeToClient(client, colorize('  <id> slot <slot|none>       - Set the equipment slot\r\n', 'white'));
+    writeToClient(client, colorize('  <id> stat <stat> <value>    - Set a stat bonus (0 removes it)\r\n', 'white'));
+    writeToClient(client, colorize('  <id> req <req> <value>      - Set a requirement (0 removes it)\r\n', 'white'));
+    writeToClient(client, colorize('  <id> value <amount>         - Set the value\r\n', 'white'));
+    writeToClient(client, colorize('  <id> weight <amount>        - Set the weight\r\n', 'white'));
+    writeToClient(client, colorize('  <id> light <on|off>         - Whether it lights up dark rooms\r\n', 'white'));
+  }
+
+  /**
+   * Validate a template against the item schema, reporting errors to the client
+   */
+  private validateTemplate(client: ConnectedClient, template: GameItem): boolean {
+    if (validateItems([template])) return true;
+
+    writeToClient(client, colorize(`Item data is invalid:\r\n`, 'red'));
+    writeToClient(client, colorize(formatValidationErrors(validateItems.errors || []).replace(/\n/g, '\r\n') + '\r\n', 'red'));
+    return false;
+  }
+
+  private createTemplate(client: ConnectedClient, id: string | undefined, name: string): void {
+    if (!id || !name) {
+      writeToClient(client, colorize(`Usage: iedit create <id> <name>\r\n`, 'yellow'));
+      return;
+    }
+
+    if (this.itemManager.getItem(id)) {
+      writeToClient(client, colorize(`An item template with id '${id}' already exists.\r\n`, 'yellow'));
+      return;
+    }
+
+    const template: GameItem = {
+      id,
+      name,
+      description: 'An unremarkable item.',
+      type: 'misc',
+      value: 0
+    };
+
+    if (!this.validateTemplate(client, template)) return;
+
+    this.itemManager.addItem(template);
+    writeToClient(client, colorize(`Created item template '${id}'.\r\n`, 'green'));
+    getPlayerLogger(client.user!.username).info(`IEDIT: created item template ${id}`);
+  }
+
+  private showTemplate(client: ConnectedClient, id: string | undefined): void {
+    const template = id ? this.itemManager.getItem(id) : undefined;
+    if (!template) {
+      writeToClient(client, colorize(`No item template with id '${id || ''}'.\r\n`, 'yellow'));
+      return;
+    }
+
+    const formatEntries = (entries?: { [key: string]: number | undefined }) => {
+      const text = Object.entries(entries || {})
+        .map(([key, value]) => `${key} ${value}`)
+        .join(', ');
+      return text || 'none';
+    };
+
+    writeToClient(client, colorize(`=== Item Template: ${template.id} ===\r\n`, 'magenta'));
+    writeToClient(client, colorize(`Name: ${template.name}\r\n`, 'white'));
+    writeToClient(client, colorize(`Description: ${template.description}\r\n`, 'white'));
+    writeToClient(client, colorize(`Type: ${template.type}  Slot: ${template.slot || 'none'}\r\n`, 'white'));
+    writeToClient(client, colorize(`Value: ${template.value}  Weight: ${template.weight ?? 'none'}  Light: ${template.light ? 'yes' : 'no'}\r\n`, 'white'));
+    writeToClient(client, colorize(`Stats: ${formatEntries(template.stats)}\r\n`, 'white'));
+    writeToClient(client, colorize(`Requirements: ${formatEntries(template.requirements)}\r\n`, 'white'));
+    writeToClient(client, colorize(`Live instances: ${this.itemManager.findInstancesByTemplate(template.id).length}\r\n`, 'white'));
+  }
+
+  private deleteTemplate(client: ConnectedClient, id: string | undefined, force: boolean): void {
+    if (!id || !this.itemManager.getItem(id)) {
+      writeToClient(client, colorize(`No item template with id '${id || ''}'.\r\n`, 'yellow'));
+      return;
+    }
+
+    const instanceCount = this.itemManager.findInstancesByTemplate(id).length;
+    if (instanceCount > 0 && !force) {
+      writeToClient(client, colorize(`'${id}' still has ${instanceCount} live instance(s). Use 'iedit delete ${id} force' to delete it anyway.\r\n`, 'yellow'));
+      return;
+    }
+
+    this.itemManager.deleteItem(id);
+    // Equipped instances no longer contribute any stats
+    this.refreshEquippedStats(id);
+
+    writeToClient(client, colorize(`Deleted item template '${id}'.\r\n`, 'green'));
+    getPlayerLogger(client.user!.username).info(`IEDIT: deleted item template ${id}${instanceCount > 0 ? ` (${instanceCount} instances orphaned)` : ''}`);
+  }
+
+  private editField(client: ConnectedClient, template: GameItem, field: string, values: string[]): void {
+    const text = values.join(' ').trim();
+
+    // Work on a copy so an invalid edit leaves the template untouched
+    const updated: GameItem = {
+      ...template,
+      ...(template.stats && { stats: { ...template.stats } }),
+      ...(template.requirements && { requirements: { ...template.requirements } })
+    };
+
+    switch (field) {
+      case 'name':
+        if (!text) {
+          writeToClient(client, colorize(`Usage: iedit ${template.id} name <text>\r\n`, 'yellow'));
+          return;
+        }
+        updated.name = text;
+        break;
+      case 'desc':
+      case 'description':
+        if (!text) {
+          startLineEditor(client, `description of ${template.id}`, template.description, (description) => {
+            if (!description) {
+              writeToClient(client, colorize(`The description can't be empty.\r\n`, 'yellow'));
+              return;
+            }
+            this.saveTemplate(client, { ...updated, description }, 'description');
+          });
+          return;
+        }
+        updated.description = text;
+        break;
+      case 'type':
+        if (!ITEM_TYPES.includes(text as GameItem['type'])) {
+          writeToClient(client, colorize(`Type must be one of: ${ITEM_TYPES.join(', ')}\r\n`, 'yellow'));
+          return;
+        }
+        updated.type = text as GameItem['type'];
+        break;
+      case 'slot': {
+        const slots = Object.values(EquipmentSlot) as string[];
+        if (text.toLowerCase() === 'none') {
+          delete updated.slot;
+        } else if (slots.includes(text)) {
+          updated.slot = text as EquipmentSlot;
+        } else {
+          writeToClient(client, colorize(`Slot must be 'none' or one of: ${slots.join(', ')}\r\n`, 'yellow'));
+          return;
+        }
+        break;
+      }
+      case 'stat':
+      case 'req': {
+        const isStat = field === 'stat';
+        const names = isStat ? STAT_NAMES : REQUIREMENT_NAMES;
+        const name = (values[0] || '').toLowerCase();
+        const amount = parseInt(values[1], 10);
+        if (!names.includes(name) || isNaN(amount)) {
+          writeToClient(client, colorize(`Usage: iedit ${template.id} ${field} <${names.join('|')}> <value>\r\n`, 'yellow'));
+          return;
+        }
+
+        const entries: { [key: string]: number } = { ...(isStat ? updated.stats : updated.requirements) };
+        if (amount === 0) {
+          delete entries[name];
+        } else {
+          entries[name] = amount;
+        }
+
+        const key = isStat ? 'stats' : 'requirements';
+        if (Object.keys(entries).length > 0) {
+          updated[key] = entries;
+        } else {
+          delete updated[key];
+        }
+        break;
+      }
+      case 'value':
+      case 'weight': {
+        const amount = Number(text);
+        if (!text || isNaN(amount) || amount < 0) {
+          writeToClient(client, colorize(`Usage: iedit ${template.id} ${field} <amount>\r\n`, 'yellow'));
+          return;
+        }
+        updated[field] = amount;
+        break;
+      }
+      case 'light':
+        if (text === 'on') {
+          updated.light = true;
+        } else if (text === 'off') {
+          delete updated.light;
+        } else {
+          writeToClient(client, colorize(`Usage: iedit ${template.id} light <on|off>\r\n`, 'yellow'));
+          return;
+        }
+        break;
+      default:
+        writeToClient(client, colorize(`Unknown field '${field}'. Type 'iedit' for help.\r\n`, 'yellow'));
+        return;
+    }
+
+    this.saveTemplate(client, updated, field);
+  }
+
+  private saveTemplate(client: ConnectedClient, template: GameItem, field: string): void {
+    if (!this.validateTemplate(client, template)) return;
+
+    this.itemManager.updateItem(template);
+    const refreshed = this.refreshEquippedStats(template.id);
+
+    writeToClient(client, colorize(`Updated ${field} of '${template.id}'.\r\n`, 'green'));
+    if (refreshed > 0) {
+      writeToClient(client, colorize(`Refreshed combat stats of ${refreshed} player(s) with it equipped.\r\n`, 'cyan'));
+    }
+    getPlayerLogger(client.user!.username).info(`IEDIT: updated ${field} of item template ${template.id}`);
+  }
+
+  /**
+   * Recalculate attack and defense for every player with an instance of the template equipped
+   * @returns the number of players updated
+   */
+  private refreshEquippedStats(templateId: string): number {
+    let refreshed = 0;
+
+    for (const user of this.userManager.getAllUsers()) {
+      if (!user.equipment) continue;
+
+      const hasEquipped = Object.values(user.equipment).some(instanceId => {
+        const instance = this.itemManager.getItemInstance(instanceId);
+        return (instance ? instance.templateId : instanceId) === templateId;
+      });
+      if (!hasEquipped) continue;
+
+      const attack = this.itemManager.calculateAttack(user);
+      const defense = this.itemManager.calculateDefense(user);
+      this.userManager.updateUserStats(user.username, { attack, defense });
+
+      // Keep an online player's session in sync if it holds its own copy of the user
+      const session = this.userManager.getActiveUserSession(user.username);
+      if (session?.user && session.user !== user) {
+        session.user.attack = attack;
+        session.user.defense = defense;
+      }
+      refreshed++;
+    }
+
+    return refreshed;
+  }
+}
@@ -36,6 +36,27 @@ import './yell.command';
 import './addflag.command'; // Import flag management commands
 import './removeflag.command';
 import './listflags.command';
+import './open.command'; // Import door commands
+import './close.command';
+import './lock.command';
+import './unlock.command';
+import './redit.command'; // Import online building commands
+import './iedit.command';
+import './medit.command';
+import './map.command';
+import './travel.command';
+import './search.command';
+import './weather.command';
+import './echo.command'; // Import narration commands
+import './zecho.command';
+import './instance.command';
+import './areimport.command';
+import './talk.command';
+import './ask.command';
+import './buy.command';
+import './sell.command';
+import './value.command';
+import './loot.command';
 import { systemLogger } from '../../utils/logger';
 
 // Export ScoresCommand so it can be registered properly
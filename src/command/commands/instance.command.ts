@@ -0,0 +1,108 @@
+import { ConnectedClient } from '../../types';
+import { colorize } from '../../utils/colors';
+import { writeToClient } from '../../utils/socketWriter';
+import { formatUsername } from '../../utils/formatters';
+import { Command } from '../command.interface';
+import { RoomManager } from '../../room/roomManager';
+import { SudoCommand } from './sudo.command';
+import { getPlayerLogger } from '../../utils/logger';
+
+export class InstanceCommand implements Command {
+  name = 'instance';
+  description = 'Show or leave your dungeon instance, shared with everyone who was in the room when you entered (admins can list and close instances)';
+
+  constructor(private roomManager: RoomManager) {}
+
+  execute(client: ConnectedClient, args: string): void {
+    if (!client.user) return;
+
+    const [subcommand, instanceId] = args.trim().split(/\s+/);
+    switch ((subcommand || '').toLowerCase()) {
+      case '':
+        this.showInstance(client);
+        break;
+      case 'leave':
+        this.leaveInstance(client);
+        break;
+      case 'list':
+        this.listInstances(client);
+        break;
+      case 'close':
+        this.closeInstance(client, instanceId);
+        break;
+      default:
+        writeToClient(client, colorize(`Usage: instance [leave|list|close <instanceId>]\r\n`, 'yellow'));
+    }
+  }
+
+  private showInstance(client: ConnectedClient): void {
+    const instance = this.roomManager.getInstanceForRoom(client.user!.currentRoomId);
+    if (!instance) {
+      writeToClient(client, colorize(`You are not in a dungeon instance.\r\n`, 'yellow'));
+      return;
+    }
+
+    const zone = this.roomManager.getZone(instance.templateZoneId);
+    writeToClient(client, colorize(`You are in instance ${instance.id} of ${zone ? zone.name : instance.templateZoneId}.\r\n`, 'cyan'));
+    // The party is whoever was standing in the entrance room when the instance was created
+    writeToClient(client, colorize(`Party: ${instance.members.map(member => formatUsername(member)).join(', ')}\r\n`, 'cyan'));
+  }
+
+  private leaveInstance(client: ConnectedClient): void {
+    const roomId = client.user!.currentRoomId;
+    const instance = this.roomManager.getInstanceForRoom(roomId);
+    const returnRoomId = this.roomManager.getInstanceReturnRoomId(roomId);
+    if (!instance || !returnRoomId) {
+      writeToClient(client, colorize(`You are not in a dungeon instance.\r\n`, 'yellow'));
+      return;
+    }
+
+    if (client.user!.inCombat) {
+      writeToClient(client, colorize(`You can't leave while in combat!\r\n`, 'red'));
+      return;
+    }
+
+    if (this.roomManager.teleportToRoom(client, returnRoomId, 'You make your way out of the dungeon...')) {
+      getPlayerLogger(client.user!.username).info(`Left instance ${instance.id}`);
+    }
+  }
+
+  private listInstances(client: ConnectedClient): void {
+    if (!SudoCommand.isAuthorizedUser(client.user!.username)) {
+      writeToClient(client, colorize('You do not have permission to use this command.\r\n', 'red'));
+      return;
+    }
+
+    const instances = this.roomManager.getInstances();
+    if (instances.length === 0) {
+      writeToClient(client, colorize(`There are no active dungeon instances.\r\n`, 'yellow'));
+      return;
+    }
+
+    writeToClient(client, colorize(`Active dungeon instances:\r\n`, 'cyan'));
+    for (const instance of instances) {
+      const players = this.roomManager.getRoomsInZone(instance.id).reduce((count, room) => count + room.players.length, 0);
+      writeToClient(client, colorize(`  ${instance.id} - ${players} player(s) inside, party: ${instance.members.join(', ')}\r\n`, 'white'));
+    }
+  }
+
+  private closeInstance(client: ConnectedClient, instanceId: string | undefined): void {
+    if (!SudoCommand.isAuthorizedUser(client.user!.username)) {
+      writeToClient(client, colorize('You do not have permission to use this command.\r\n', 'red'));
+      return;
+    }
+
+    if (!instanceId) {
+      writeToClient(client, colorize(`Usage: instance close <instanceId>\r\n`, 'yellow'));
+      return;
+    }
+
+    if (!this.roomManager.destroyInstance(instanceId)) {
+      writeToClient(client, colorize(`Instance '${instanceId}' doesn't exist.\r\n`, 'yellow'));
+      return;
+    }
+
+    writeToClient(client, colorize(`Instance '${instanceId}' closed.\r\n`, 'green'));
+    getPlayerLogger(client.user!.username).info(`Closed instance ${instanceId}`);
+  }
+}
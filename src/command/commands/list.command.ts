@@ -3,14 +3,22 @@ import { colorize } from '../../utils/colors';
 import { writeToClient } from '../../utils/socketWriter';
 import { Command } from '../command.interface';
 import { formatUsername } from '../../utils/formatters';
+import { RoomManager } from '../../room/roomManager';
+import { ShopManager } from '../../shop/shopManager';
+import { formatCurrency, fromCopper } from '../../utils/currency';
 
 export class ListCommand implements Command {
   name = 'list';
-  description = 'Show online users';
+  description = 'Show the wares of the shop you are in, or online users ("list users")';
 
   constructor(private clients: Map<string, ConnectedClient>) {}
 
   execute(client: ConnectedClient, args: string): void {
+    // In a shop, list shows what's for sale
+    if (client.user && args.trim().toLowerCase() !== 'users' && this.listWares(client)) {
+      return;
+    }
+
     // List all authenticated users with their connection types
     const onlineUsers = Array.from(this.clients.values())
       .filter(c => c.authenticated && c.user)
@@ -34,4 +42,33 @@ export class ListCommand implements Command {
     }
     writeToClient(client, colorize('===================\r\n', 'magenta'));
   }
+
+  /**
+   * Show the shop's wares with prices
+   * @returns false if there's no shop in the player's room
+   */
+  private listWares(client: ConnectedClient): boolean {
+    const roomManager = RoomManager.getInstance(this.clients);
+    const room = roomManager.getRoom(client.user!.currentRoomId || roomManager.getStartingRoomId());
+    const shopManager = ShopManager.getInstance(roomManager);
+    const shopkeeper = room && shopManager.getShopkeeper(room);
+    if (!shopkeeper) return false;
+
+    const listings = shopManager.getListings(shopkeeper);
+    writeToClient(client, colorize(`=== The ${shopkeeper.name}'s wares ===\r\n`, 'magenta'));
+    if (listings.length === 0) {
+      writeToClient(client, colorize('Nothing is for sale right now.\r\n', 'yellow'));
+    }
+    listings.forEach((listing, index) => {
+      const stock = listing.instanceId ? 'second-hand' : `${listing.quantity} left`;
+      writeToClient(
+        client,
+        colorize(`${index + 1}) ${listing.name} `, 'white') +
+        colorize(`- ${formatCurrency(fromCopper(listing.price))} `, 'yellow') +
+        colorize(`(${stock})\r\n`, 'cyan')
+      );
+    });
+    writeToClient(client, colorize('Type "buy <item or number>" to buy, "sell <item>" to sell.\r\n', 'magenta'));
+    return true;
+  }
 }
@@ -5,6 +5,8 @@ import { colorize } from '../../utils/colors';
 import { writeToClient, writeMessageToClient, writeFormattedMessageToClient } from '../../utils/socketWriter';
 import { formatUsername } from '../../utils/formatters';
 import { getPlayerLogger } from '../../utils/logger';
+import { EffectManager } from '../../effects/effectManager';
+import { UserManager } from '../../user/userManager';
 
 export class LookCommand implements Command {
   name = 'look';
@@ -90,12 +92,25 @@ export class LookCommand implements Command {
     }
 
     // Check if exit exists
-    const nextRoomId = room.getExit(direction);
-    if (!nextRoomId) {
+    const exit = room.findVisibleExit(direction, client.user.username);
+    const nextRoomId = exit ? exit.roomId : null;
+    if (!exit || !nextRoomId) {
       writeToClient(client, colorize(`You don't see anything special in that direction.\r\n`, 'yellow'));
       return;
     }
 
+    // A closed door blocks the view
+    if (exit.door && exit.door.state !== 'open') {
+      writeToClient(client, colorize(`The ${exit.door.name || 'door'} to the ${this.getFullDirectionName(direction)} is closed.\r\n`, 'yellow'));
+      return;
+    }
+
+    // Effects such as fog hide the rooms around the player
+    if (EffectManager.getInstance(UserManager.getInstance(), this.roomManager).isVisionObscured(client.user.username, true)) {
+      writeToClient(client, colorize(`You can't make anything out through the fog.\r\n`, 'yellow'));
+      return;
+    }
+
     // Get destination room
     const nextRoom = this.roomManager.getRoom(nextRoomId);
     if (!nextRoom) {
@@ -118,7 +133,7 @@ export class LookCommand implements Command {
     this.notifyPlayersInTargetRoom(nextRoomId, client.user.username, this.getFullDirectionName(oppositeDirection));
     
     // Show a version of the room description specifically for peeking
-    writeToClient(client, nextRoom.getDescriptionForPeeking(oppositeDirection));
+    writeToClient(client, nextRoom.getDescriptionForPeeking(oppositeDirection, client.user.username));
   }
 
   /**
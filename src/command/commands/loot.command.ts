@@ -0,0 +1,76 @@
+import { ConnectedClient } from '../../types';
+import { colorize } from '../../utils/colors';
+import { writeToClient } from '../../utils/socketWriter';
+import { formatUsername } from '../../utils/formatters';
+import { Command } from '../command.interface';
+import { RoomManager } from '../../room/roomManager';
+import { UserManager } from '../../user/userManager';
+import { ItemManager } from '../../utils/itemManager';
+import { addCurrency, formatCurrency } from '../../utils/currency';
+import { getPlayerLogger } from '../../utils/logger';
+
+export class LootCommand implements Command {
+  name = 'loot';
+  description = 'Take everything from a corpse in the room';
+  private itemManager: ItemManager;
+
+  constructor(private roomManager: RoomManager, private userManager: UserManager) {
+    this.itemManager = ItemManager.getInstance();
+  }
+
+  execute(client: ConnectedClient, args: string): void {
+    if (!client.user) return;
+
+    const roomId = client.user.currentRoomId || this.roomManager.getStartingRoomId();
+    const corpseName = args.trim().toLowerCase().replace(/^corpse( of)?\s*/, '');
+    const corpses = this.roomManager.getCorpses(roomId)
+      .filter(corpse => !corpseName || corpse.name.toLowerCase().includes(corpseName));
+    if (corpses.length === 0) {
+      writeToClient(client, colorize(`There's no corpse like that here.\r\n`, 'yellow'));
+      return;
+    }
+
+    // Prefer a corpse the player may loot that still has something on it
+    const corpse = corpses.find(candidate =>
+      this.roomManager.canLootCorpse(candidate, client.user!.username)
+      && (candidate.items.length > 0 || formatCurrency(candidate.currency) !== '')
+    ) || corpses[0];
+
+    if (!this.roomManager.canLootCorpse(corpse, client.user.username)) {
+      const owners = corpse.owners.map(owner => formatUsername(owner)).join(', ');
+      writeToClient(client, colorize(`The corpse of the ${corpse.name} belongs to ${owners} for now.\r\n`, 'yellow'));
+      return;
+    }
+
+    const taken: string[] = [];
+    for (const instanceId of corpse.items) {
+      if (!this.itemManager.getItemInstance(instanceId)) continue;
+
+      client.user.inventory.items.push(instanceId);
+      this.itemManager.addItemHistory(instanceId, 'loot', `Looted by ${client.user.username} from the corpse of a ${corpse.name}`);
+      taken.push(this.itemManager.getItemDisplayName(instanceId));
+    }
+    corpse.items = [];
+
+    const coins = formatCurrency(corpse.currency);
+    if (coins) {
+      addCurrency(client.user.inventory.currency, corpse.currency);
+      corpse.currency = { gold: 0, silver: 0, copper: 0 };
+      taken.push(coins);
+    }
+
+    if (taken.length === 0) {
+      writeToClient(client, colorize(`The corpse of the ${corpse.name} has nothing worth taking.\r\n`, 'yellow'));
+      return;
+    }
+
+    this.userManager.updateUserInventory(client.user.username, client.user.inventory);
+    writeToClient(client, colorize(`You loot the corpse of the ${corpse.name}: ${taken.join(', ')}.\r\n`, 'green'));
+    this.roomManager.notifyPlayersInRoom(
+      roomId,
+      `${formatUsername(client.user.username)} loots the corpse of the ${corpse.name}.\r\n`,
+      client.user.username
+    );
+    getPlayerLogger(client.user.username).info(`Looted the corpse of ${corpse.name}: ${taken.join(', ')}`);
+  }
+}
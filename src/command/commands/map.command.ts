@@ -0,0 +1,211 @@
+import { ConnectedClient, Exit } from '../../types';
+import { colorize } from '../../utils/colors';
+import { writeToClient } from '../../utils/socketWriter';
+import { Command } from '../command.interface';
+import { RoomManager } from '../../room/roomManager';
+import { Room } from '../../room/room';
+import { Zone } from '../../room/zone';
+import { SudoCommand } from './sudo.command';
+import { buildMapLayout, renderMap, normalizeMapDirection, getDirectionOffset, MAP_GLYPHS } from '../../utils/mapRenderer';
+
+const DEFAULT_MAP_RADIUS = 3;
+const MAX_MAP_RADIUS = 10;
+
+export class MapCommand implements Command {
+  name = 'map';
+  description = 'Show a map of the area around you (usage: map [radius])';
+
+  constructor(private roomManager: RoomManager) {}
+
+  execute(client: ConnectedClient, args: string): void {
+    if (!client.user) return;
+
+    const roomId = client.user.currentRoomId || this.roomManager.getStartingRoomId();
+    const room = this.roomManager.getRoom(roomId);
+    if (!room) {
+      writeToClient(client, colorize(`You're not in a valid room.\r\n`, 'red'));
+      return;
+    }
+
+    const [subcommand, zoneId] = args.trim().split(' ');
+    if (subcommand && subcommand.toLowerCase() === 'zone') {
+      if (!SudoCommand.isAuthorizedUser(client.user.username)) {
+        writeToClient(client, colorize('You do not have permission to use this command.\r\n', 'red'));
+        return;
+      }
+      this.showZoneMap(client, room, zoneId);
+      return;
+    }
+
+    let radius = DEFAULT_MAP_RADIUS;
+    if (subcommand) {
+      radius = parseInt(subcommand, 10);
+      if (isNaN(radius) || radius < 1 || radius > MAX_MAP_RADIUS) {
+        writeToClient(client, colorize(`The map radius must be between 1 and ${MAX_MAP_RADIUS}.\r\n`, 'yellow'));
+        return;
+      }
+    }
+
+    this.showPlayerMap(client, room, radius);
+  }
+
+  /**
+   * Map of the rooms the player has explored around their current room
+   */
+  private showPlayerMap(client: ConnectedClient, room: Room, radius: number): void {
+    const user = client.user!;
+
+    // The room the player is standing in always counts as explored
+    if (!user.exploredRooms) {
+      user.exploredRooms = [];
+    }
+    if (!user.exploredRooms.includes(room.id)) {
+      user.exploredRooms.push(room.id);
+    }
+
+    const explored = new Set(user.exploredRooms);
+    const getRoom = (roomId: string) => this.roomManager.getRoom(roomId);
+    const canShowExit = (from: Room, exit: Exit) => from.isExitVisibleTo(exit, user.username);
+    const layout = buildMapLayout(room, {
+      getRoom,
+      canShow: target => explored.has(target.id),
+      maxSteps: radius,
+      canShowExit
+    });
+
+    writeToClient(client, colorize(`=== Map: ${room.name} ===\r\n`, 'magenta'));
+    this.writeMapLines(client, renderMap(layout, { getRoom, currentRoomId: room.id, canShowExit }));
+    this.writeLegend(client, false);
+  }
+
+  /**
+   * Admin map of a whole zone, flagging links that don't match up
+   */
+  private showZoneMap(client: ConnectedClient, currentRoom: Room, zoneId?: string): void {
+    const zone = this.roomManager.getZone(zoneId || currentRoom.zoneId);
+    if (!zone) {
+      writeToClient(client, colorize(`Zone '${zoneId}' doesn't exist.\r\n`, 'yellow'));
+      return;
+    }
+
+    const rooms = this.roomManager.getRoomsInZone(zone.id);
+    if (rooms.length === 0) {
+      writeToClient(client, colorize(`Zone '${zone.id}' has no rooms.\r\n`, 'yellow'));
+      return;
+    }
+
+    const startRoom = currentRoom.zoneId === zone.id ? currentRoom : rooms[0];
+    const getRoom = (roomId: string) => this.roomManager.getRoom(roomId);
+    const layout = buildMapLayout(startRoom, {
+      getRoom,
+      canShow: target => target.zoneId === zone.id,
+      maxSteps: Infinity
+    });
+
+    const problems = this.findLinkProblems(zone, rooms);
+    const markedRoomIds = new Set(problems.filter(problem => !problem.expected).map(problem => problem.roomId));
+    layout.overlaps.forEach(roomId => markedRoomIds.add(roomId));
+
+    writeToClient(client, colorize(`=== Zone Map: ${zone.name} (${zone.id}) ===\r\n`, 'magenta'));
+    this.writeMapLines(client, renderMap(layout, {
+      getRoom,
+      currentRoomId: currentRoom.zoneId === zone.id ? currentRoom.id : undefined,
+      markedRoomIds
+    }));
+    this.writeLegend(client, true);
+
+    const unplaced = rooms.filter(room => !layout.positions.has(room.id) && !layout.overlaps.includes(room.id));
+    if (unplaced.length > 0) {
+      writeToClient(client, colorize(`Not on the grid (only reachable by up/down or disconnected): ${unplaced.map(room => room.id).join(', ')}\r\n`, 'cyan'));
+    }
+
+    if (layout.overlaps.length > 0) {
+      writeToClient(client, colorize(`Rooms overlapping another room's position: ${layout.overlaps.join(', ')}\r\n`, 'yellow'));
+    }
+
+    if (problems.length === 0) {
+      writeToClient(client, colorize(`All links in this zone are consistent.\r\n`, 'green'));
+      return;
+    }
+
+    writeToClient(client, colorize(`Link problems:\r\n`, 'yellow'));
+    for (const problem of problems) {
+      const color = problem.expected ? 'cyan' : 'yellow';
+      writeToClient(client, colorize(`  ${problem.roomId} ${problem.direction}: ${problem.message}\r\n`, color));
+    }
+  }
+
+  /**
+   * Find exits in a zone that are one-way, lead nowhere, or don't lead back the opposite way
+   */
+  private findLinkProblems(zone: Zone, rooms: Room[]): { roomId: string, direction: string, message: string, expected: boolean }[] {
+    const problems: { roomId: string, direction: string, message: string, expected: boolean }[] = [];
+
+    for (const room of rooms) {
+      for (const exit of room.exits) {
+        const direction = normalizeMapDirection(exit.direction);
+        const target = this.roomManager.getRoom(exit.roomId);
+
+        if (!target) {
+          problems.push({ roomId: room.id, direction, message: `leads to missing room '${exit.roomId}'`, expected: false });
+          continue;
+        }
+
+        const exitsBack = target.exits.filter(e => e.roomId === room.id);
+        const zoneNote = target.zoneId !== zone.id ? ` in zone '${target.zoneId}'` : '';
+
+        if (exitsBack.length === 0) {
+          problems.push({
+            roomId: room.id,
+            direction,
+            message: exit.oneWay
+              ? `one-way to '${target.id}'${zoneNote} (marked oneWay)`
+              : `one-way to '${target.id}'${zoneNote}, no exit leads back`,
+            expected: Boolean(exit.oneWay)
+          });
+          continue;
+        }
+
+        const reverseDirection = this.roomManager.getReverseDirection(direction);
+        if (!exitsBack.some(e => normalizeMapDirection(e.direction) === reverseDirection)) {
+          // Only compass links can be drawn wrongly; anything else is just reported
+          const drawable = getDirectionOffset(direction) !== undefined;
+          problems.push({
+            roomId: room.id,
+            direction,
+            message: `leads to '${target.id}'${zoneNote}, but the way back is ${exitsBack.map(e => e.direction).join('/')} instead of ${reverseDirection}`,
+            expected: !drawable
+          });
+        }
+      }
+    }
+
+    return problems;
+  }
+
+  private writeMapLines(client: ConnectedClient, lines: string[]): void {
+    for (const line of lines) {
+      // Highlight the player's position
+      const [before, after] = line.split(MAP_GLYPHS.player);
+      if (after !== undefined) {
+        writeToClient(client, colorize(before, 'white') + colorize(MAP_GLYPHS.player, 'boldYellow') + colorize(`${after}\r\n`, 'white'));
+      } else {
+        writeToClient(client, colorize(`${line}\r\n`, 'white'));
+      }
+    }
+  }
+
+  private writeLegend(client: ConnectedClient, showProblems: boolean): void {
+    const entries = [
+      `${MAP_GLYPHS.player} you`,
+      `${MAP_GLYPHS.up} up`,
+      `${MAP_GLYPHS.down} down`,
+      `${MAP_GLYPHS.upAndDown} up and down`,
+      `${MAP_GLYPHS.closedDoor} closed door`
+    ];
+    if (showProblems) {
+      entries.push(`${MAP_GLYPHS.problem} link problem`);
+    }
+    writeToClient(client, colorize(`Legend: ${entries.join('  ')}\r\n`, 'cyan'));
+  }
+}
@@ -0,0 +1,281 @@
+import { ConnectedClient } from '../../types';
+import { colorize } from '../../utils/colors';
+import { writeToClient } from '../../utils/socketWriter';
+import { Command } from '../command.interface';
+import { NPC, NPCData } from '../../combat/npc';
+import { SudoCommand } from './sudo.command';
+import { validateNpcs } from '../../schemas';
+import { formatValidationErrors } from '../../utils/jsonUtils';
+import { startLineEditor } from '../../utils/lineEditor';
+import { getPlayerLogger } from '../../utils/logger';
+
+export class MobEditCommand implements Command {
+  name = 'medit';
+  description = 'Create and edit NPC templates in-game (admin only)';
+
+  execute(client: ConnectedClient, args: string): void {
+    if (!client.user) return;
+
+    if (!SudoCommand.isAuthorizedUser(client.user.username)) {
+      writeToClient(client, colorize('You do not have permission to use this command.\r\n', 'red'));
+      return;
+    }
+
+    const parts = args.trim().split(' ').filter(part => part.length > 0);
+    const first = (parts[0] || '').toLowerCase();
+
+    switch (first) {
+      case '':
+      case 'help':
+        this.showHelp(client);
+        return;
+      case 'create':
+        this.createTemplate(client, parts[1], parts.slice(2).join(' '));
+        return;
+      case 'show':
+        this.showTemplate(client, parts[1]);
+        return;
+    }
+
+    // Everything else is "medit <templateId> <field> <value>"
+    const template = NPC.loadNPCData().get(parts[0]);
+    if (!template) {
+      writeToClient(client, colorize(`No NPC template with id '${parts[0]}'.\r\n`, 'yellow'));
+      return;
+    }
+
+    this.editField(client, template, (parts[1] || '').toLowerCase(), parts.slice(2));
+  }
+
+  private showHelp(client: ConnectedClient): void {
+    writeToClient(client, colorize('NPC Editor - Admin Only\r\n', 'green'));
+    writeToClient(client, colorize('-----------------------\r\n', 'green'));
+    writeToClient(client, colorize('Usage: medit <subcommand> [arguments]\r\n\r\n', 'cyan'));
+
+    writeToClient(client, colorize('Available subcommands:\r\n', 'yellow'));
+    writeToClient(client, colorize('  create <id> <name>              - Create a new NPC template\r\n', 'white'));
+    writeToClient(client, colorize('  show <id>                       - Show an NPC template\r\n', 'white'));
+    writeToClient(client, colorize('  <id> name <text>                - Set the name\r\n', 'white'));
+    writeToClient(client, colorize('  <id> desc [text]                - Set the description (no text opens the editor)\r\n', 'white'));
+    writeToClient(client, colorize('  <id> health <amount>            - Set health and max health\r\n', 'white'));
+    writeToClient(client, colorize('  <id> damage <min> <max>         - Set the damage range\r\n', 'white'));
+    writeToClient(client, colorize('  <id> hostility <hostile|passive|neutral>\r\n', 'white'));
+    writeToClient(client, colorize('  <id> exp <amount>               - Set the experience value\r\n', 'white'));
+    writeToClient(client, colorize('  <id> attack add <text>          - Add an attack text ($TARGET$ is replaced)\r\n', 'white'));
+    writeToClient(client, colorize('  <id> attack remove <number>     - Remove an attack text\r\n', 'white'));
+    writeToClient(client, colorize('  <id> death add <text>           - Add a death message\r\n', 'white'));
+    writeToClient(client, colorize('  <id> death remove <number>      - Remove a death message\r\n', 'white'));
+  }
+
+  /**
+   * Validate a template against the NPC schema, reporting errors to the client
+   */
+  private validateTemplate(client: ConnectedClient, template: NPCData): boolean {
+    if (validateNpcs([template])) return true;
+
+    writeToClient(client, colorize(`NPC data is invalid:\r\n`, 'red'));
+    writeToClient(client, colorize(formatValidationErrors(validateNpcs.errors || []).replace(/\n/g, '\r\n') + '\r\n', 'red'));
+    return false;
+  }
+
+  private createTemplate(client: ConnectedClient, id: string | undefined, name: string): void {
+    if (!id || !name) {
+      writeToClient(client, colorize(`Usage: medit create <id> <name>\r\n`, 'yellow'));
+      return;
+    }
+
+    if (NPC.loadNPCData().has(id)) {
+      writeToClient(client, colorize(`An NPC template with id '${id}' already exists.\r\n`, 'yellow'));
+      return;
+    }
+
+    // Start from the same defaults the NPC constructor uses
+    const defaults = new NPC(name, 10, 10);
+    const template: NPCData = {
+      id,
+      name,
+      description: defaults.description,
+      health: defaults.health,
+      maxHealth: defaults.maxHealth,
+      damage: defaults.damage,
+      isHostile: defaults.isHostile,
+      isPassive: defaults.isPassive,
+      experienceValue: defaults.experienceValue,
+      attackTexts: defaults.attackTexts,
+      deathMessages: defaults.deathMessages
+    };
+
+    this.saveTemplate(client, template, 'template');
+  }
+
+  private showTemplate(client: ConnectedClient, id: string | undefined): void {
+    const template = id ? NPC.loadNPCData().get(id) : undefined;
+    if (!template) {
+      writeToClient(client, colorize(`No NPC template with id '${id || ''}'.\r\n`, 'yellow'));
+      return;
+    }
+
+    writeToClient(client, colorize(`=== NPC Template: ${template.id} ===\r\n`, 'magenta'));
+    writeToClient(client, colorize(`Name: ${template.name}\r\n`, 'white'));
+    writeToClient(client, colorize(`Description: ${template.description}\r\n`, 'white'));
+    writeToClient(client, colorize(`Health: ${template.health}/${template.maxHealth}\r\n`, 'white'));
+    writeToClient(client, colorize(`Damage: ${template.damage[0]}-${template.damage[1]}\r\n`, 'white'));
+    writeToClient(client, colorize(`Hostility: ${this.getHostility(template)}\r\n`, 'white'));
+    writeToClient(client, colorize(`Experience: ${template.experienceValue}\r\n`, 'white'));
+
+    writeToClient(client, colorize(`Attack texts:\r\n`, 'white'));
+    template.attackTexts.forEach((text, index) => {
+      writeToClient(client, colorize(`  ${index + 1}. ${text}\r\n`, 'white'));
+    });
+    writeToClient(client, colorize(`Death messages:\r\n`, 'white'));
+    template.deathMessages.forEach((text, index) => {
+      writeToClient(client, colorize(`  ${index + 1}. ${text}\r\n`, 'white'));
+    });
+  }
+
+  private getHostility(template: NPCData): string {
+    if (template.isHostile) return 'hostile';
+    return template.isPassive ? 'passive' : 'neutral';
+  }
+
+  private editField(client: ConnectedClient, template: NPCData, field: string, values: string[]): void {
+    const text = values.join(' ').trim();
+
+    // Work on a copy so an invalid edit leaves the cached template untouched
+    const updated: NPCData = {
+      ...template,
+      damage: [...template.damage] as [number, number],
+      attackTexts: [...template.attackTexts],
+      deathMessages: [...template.deathMessages]
+    };
+
+    switch (field) {
+      case 'name':
+        if (!text) {
+          writeToClient(client, colorize(`Usage: medit ${template.id} name <text>\r\n`, 'yellow'));
+          return;
+        }
+        updated.name = text;
+        break;
+      case 'desc':
+      case 'description':
+        if (!text) {
+          startLineEditor(client, `description of ${template.id}`, template.description, (description) => {
+            if (!description) {
+              writeToClient(client, colorize(`The description can't be empty.\r\n`, 'yellow'));
+              return;
+            }
+            this.saveTemplate(client, { ...updated, description }, 'description');
+          });
+          return;
+        }
+        updated.description = text;
+        break;
+      case 'health': {
+        const amount = parseInt(text, 10);
+        if (isNaN(amount) || amount < 1) {
+          writeToClient(client, colorize(`Usage: medit ${template.id} health <amount>\r\n`, 'yellow'));
+          return;
+        }
+        updated.health = amount;
+        updated.maxHealth = amount;
+        break;
+      }
+      case 'damage': {
+        const min = parseInt(values[0], 10);
+        const max = parseInt(values[1], 10);
+        if (isNaN(min) || isNaN(max) || min < 0 || min > max) {
+          writeToClient(client, colorize(`Usage: medit ${template.id} damage <min> <max>\r\n`, 'yellow'));
+          return;
+        }
+        updated.damage = [min, max];
+        break;
+      }
+      case 'hostility':
+        if (text === 'hostile') {
+          updated.isHostile = true;
+          updated.isPassive = false;
+        } else if (text === 'passive') {
+          updated.isHostile = false;
+          updated.isPassive = true;
+        } else if (text === 'neutral') {
+          updated.isHostile = false;
+          updated.isPassive = false;
+        } else {
+          writeToClient(client, colorize(`Usage: medit ${template.id} hostility <hostile|passive|neutral>\r\n`, 'yellow'));
+          return;
+        }
+        break;
+      case 'exp':
+      case 'experience': {
+        const amount = parseInt(text, 10);
+        if (isNaN(amount) || amount < 0) {
+          writeToClient(client, colorize(`Usage: medit ${template.id} exp <amount>\r\n`, 'yellow'));
+          return;
+        }
+        updated.experienceValue = amount;
+        break;
+      }
+      case 'attack':
+      case 'death': {
+        const list = field === 'attack' ? updated.attackTexts : updated.deathMessages;
+        if (!this.editTextList(client, template.id, field, list, values)) return;
+        break;
+      }
+      default:
+        writeToClient(client, colorize(`Unknown field '${field}'. Type 'medit' for help.\r\n`, 'yellow'));
+        return;
+    }
+
+    this.saveTemplate(client, updated, field);
+  }
+
+  /**
+   * Apply an "add <text>" or "remove <number>" edit to a list of texts in place
+   * @returns false if the edit was invalid
+   */
+  private editTextList(client: ConnectedClient, id: string, field: string, list: string[], values: string[]): boolean {
+    const action = (values[0] || '').toLowerCase();
+    const text = values.slice(1).join(' ').trim();
+
+    if (action === 'add' && text) {
+      list.push(text);
+      return true;
+    }
+
+    const index = parseInt(text, 10) - 1;
+    if (action === 'remove' && index >= 0 && index < list.length) {
+      if (list.length === 1) {
+        writeToClient(client, colorize(`An NPC needs at least one ${field === 'attack' ? 'attack text' : 'death message'}.\r\n`, 'yellow'));
+        return false;
+      }
+      list.splice(index, 1);
+      return true;
+    }
+
+    writeToClient(client, colorize(`Usage: medit ${id} ${field} add <text> | medit ${id} ${field} remove <number>\r\n`, 'yellow'));
+    return false;
+  }
+
+  private saveTemplate(client: ConnectedClient, template: NPCData, field: string): void {
+    if (!this.validateTemplate(client, template)) return;
+
+    const npcData = NPC.loadNPCData();
+    const isNew = !npcData.has(template.id);
+    const templates = isNew
+      ? [...npcData.values(), template]
+      : Array.from(npcData.values()).map(npc => npc.id === template.id ? template : npc);
+
+    if (!NPC.saveNPCData(templates)) {
+      writeToClient(client, colorize(`Failed to save NPC templates.\r\n`, 'red'));
+      return;
+    }
+
+    if (isNew) {
+      writeToClient(client, colorize(`Created NPC template '${template.id}'.\r\n`, 'green'));
+    } else {
+      writeToClient(client, colorize(`Updated ${field} of '${template.id}'. NPCs spawned from now on will use it.\r\n`, 'green'));
+    }
+    getPlayerLogger(client.user!.username).info(`MEDIT: ${isNew ? 'created' : `updated ${field} of`} NPC template ${template.id}`);
+  }
+}
@@ -0,0 +1,24 @@
+import { ConnectedClient } from '../../types';
+import { colorize } from '../../utils/colors';
+import { writeToClient } from '../../utils/socketWriter';
+import { Command } from '../command.interface';
+import { RoomManager } from '../../room/roomManager';
+
+export class OpenCommand implements Command {
+  name = 'open';
+  description = 'Open a door (usage: open <direction>)';
+
+  constructor(private roomManager: RoomManager) {}
+
+  execute(client: ConnectedClient, args: string): void {
+    if (!client.user) return;
+
+    const direction = args.trim().toLowerCase();
+    if (!direction) {
+      writeToClient(client, colorize(`Open which direction?\r\n`, 'yellow'));
+      return;
+    }
+
+    this.roomManager.openDoor(client, direction);
+  }
+}
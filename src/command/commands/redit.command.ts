@@ -0,0 +1,518 @@
+import { ConnectedClient, Exit, ROOM_FLAGS, RoomFlag } from '../../types';
+import { colorize } from '../../utils/colors';
+import { writeToClient } from '../../utils/socketWriter';
+import { Command } from '../command.interface';
+import { RoomManager } from '../../room/roomManager';
+import { Room } from '../../room/room';
+import { SudoCommand } from './sudo.command';
+import { validateRooms } from '../../schemas';
+import { formatValidationErrors } from '../../utils/jsonUtils';
+import { startLineEditor } from '../../utils/lineEditor';
+import { getPlayerLogger } from '../../utils/logger';
+import { ItemManager } from '../../utils/itemManager';
+
+// Directions an exit can be created in
+const VALID_DIRECTIONS = [
+  'north', 'south', 'east', 'west', 'up', 'down',
+  'northeast', 'northwest', 'southeast', 'southwest'
+];
+
+export class RoomEditCommand implements Command {
+  name = 'redit';
+  description = 'Build and edit rooms in-game (admin/builder only)';
+
+  constructor(private roomManager: RoomManager) {}
+
+  execute(client: ConnectedClient, args: string): void {
+    if (!client.user) return;
+
+    const room = this.getCurrentRoom(client);
+    if (!room) {
+      writeToClient(client, colorize(`You're not in a valid room.\r\n`, 'red'));
+      return;
+    }
+
+    if (!this.canEdit(client.user.username, room)) {
+      writeToClient(client, colorize('You do not have permission to use this command.\r\n', 'red'));
+      return;
+    }
+
+    // Instance copies are thrown away when the instance is torn down, so edits would be lost
+    if (room.instanceOf) {
+      writeToClient(client, colorize(`This room is a dungeon instance copy; edit the template room '${room.instanceOf}' instead.\r\n`, 'yellow'));
+      return;
+    }
+
+    const [subcommand, ...subArgs] = args.trim().split(' ');
+    const rest = subArgs.join(' ').trim();
+
+    switch ((subcommand || '').toLowerCase()) {
+      case 'create':
+        this.createRoom(client, room, subArgs);
+        break;
+      case 'name':
+        this.setName(client, room, rest);
+        break;
+      case 'desc':
+      case 'description':
+        this.editDescription(client, room, rest);
+        break;
+      case 'daydesc':
+        this.editTimeOfDayDescription(client, room, rest, 'dayDescription');
+        break;
+      case 'nightdesc':
+        this.editTimeOfDayDescription(client, room, rest, 'nightDescription');
+        break;
+      case 'exit':
+        this.editExit(client, room, subArgs);
+        break;
+      case 'landmark':
+        this.setLandmark(client, room, rest);
+        break;
+      case 'flag':
+        this.toggleFlag(client, room, rest.toLowerCase());
+        break;
+      case 'ambient':
+        this.editAmbient(client, room, subArgs);
+        break;
+      case 'delete':
+        this.deleteRoom(client, room, rest);
+        break;
+      default:
+        this.showHelp(client);
+        break;
+    }
+  }
+
+  private showHelp(client: ConnectedClient): void {
+    writeToClient(client, colorize('Room Editor - Admin/Builder Only\r\n', 'green'));
+    writeToClient(client, colorize('--------------------------------\r\n', 'green'));
+    writeToClient(client, colorize('Usage: redit <subcommand> [arguments]\r\n\r\n', 'cyan'));
+
+    writeToClient(client, colorize('Available subcommands:\r\n', 'yellow'));
+    writeToClient(client, colorize('  create <dir> [roomId]              - Create a room linked in a direction\r\n', 'white'));
+    writeToClient(client, colorize('  name <text>                        - Set the name of this room\r\n', 'white'));
+    writeToClient(client, colorize('  desc [text]                        - Set the description (no text opens the editor)\r\n', 'white'));
+    writeToClient(client, colorize('  daydesc [text|none]                - Set the description shown during the day\r\n', 'white'));
+    writeToClient(client, colorize('  nightdesc [text|none]              - Set the description shown at night\r\n', 'white'));
+    writeToClient(client, colorize('  exit add <dir> <roomId> [oneway]   - Add an exit to an existing room\r\n', 'white'));
+    writeToClient(client, colorize('  exit remove <dir>                  - Remove an exit and its way back\r\n', 'white'));
+    writeToClient(client, colorize('  exit hide <dir> <difficulty|off>   - Hide an exit until it is found with search\r\n', 'white'));
+    writeToClient(client, colorize('  landmark <name|none>               - Set the name players can travel here by\r\n', 'white'));
+    writeToClient(client, colorize(`  flag <flag>                        - Toggle a room flag (${ROOM_FLAGS.join(', ')})\r\n`, 'white'));
+    writeToClient(client, colorize('  ambient add <text>                 - Add an ambient line shown now and then\r\n', 'white'));
+    writeToClient(client, colorize('  ambient remove <number>            - Remove an ambient line\r\n', 'white'));
+    writeToClient(client, colorize('  ambient list                       - List the ambient lines\r\n', 'white'));
+    writeToClient(client, colorize('  delete <roomId>                    - Delete a room and all exits into it\r\n', 'white'));
+  }
+
+  private getCurrentRoom(client: ConnectedClient): Room | undefined {
+    const roomId = client.user!.currentRoomId || this.roomManager.getStartingRoomId();
+    return this.roomManager.getRoom(roomId);
+  }
+
+  /**
+   * Admins can edit anywhere, builders only inside their own zones
+   */
+  private canEdit(username: string, room: Room): boolean {
+    if (SudoCommand.isAuthorizedUser(username)) return true;
+
+    const zone = this.roomManager.getZone(room.zoneId);
+    return zone ? zone.isBuilder(username) : false;
+  }
+
+  /**
+   * Validate a room's storable data against the room schema, reporting errors to the client
+   */
+  private validateRoomData(client: ConnectedClient, roomData: any): boolean {
+    if (validateRooms([roomData])) return true;
+
+    writeToClient(client, colorize(`Room data is invalid:\r\n`, 'red'));
+    writeToClient(client, colorize(formatValidationErrors(validateRooms.errors || []).replace(/\n/g, '\r\n') + '\r\n', 'red'));
+    return false;
+  }
+
+  private normalizeDirection(direction: string | undefined): string | null {
+    if (!direction) return null;
+
+    const fullDirection = this.roomManager.getFullDirectionName(direction);
+    return VALID_DIRECTIONS.includes(fullDirection) ? fullDirection : null;
+  }
+
+  private createRoom(client: ConnectedClient, room: Room, args: string[]): void {
+    const direction = this.normalizeDirection(args[0]);
+    if (!direction) {
+      writeToClient(client, colorize(`Usage: redit create <direction> [roomId]\r\n`, 'yellow'));
+      return;
+    }
+
+    if (room.findExit(direction)) {
+      writeToClient(client, colorize(`There is already an exit to the ${direction}.\r\n`, 'yellow'));
+      return;
+    }
+
+    const newRoomId = args[1] || this.generateRoomId(room.zoneId);
+    if (this.roomManager.getRoom(newRoomId)) {
+      writeToClient(client, colorize(`A room with id '${newRoomId}' already exists.\r\n`, 'yellow'));
+      return;
+    }
+
+    const reverseDirection = this.roomManager.getReverseDirection(direction);
+    const newRoom = new Room({
+      id: newRoomId,
+      name: 'An Unfinished Room',
+      description: 'This room has not been described yet.',
+      exits: [{ direction: reverseDirection, roomId: room.id }],
+      zoneId: room.zoneId
+    });
+
+    if (!this.validateRoomData(client, this.roomManager.serializeRoom(newRoom))) return;
+
+    room.exits.push({ direction, roomId: newRoomId });
+    this.roomManager.addRoomIfNotExists(newRoom);
+    this.roomManager.forceSave();
+
+    writeToClient(client, colorize(`Created room '${newRoomId}' to the ${direction}, linked back ${reverseDirection}.\r\n`, 'green'));
+    getPlayerLogger(client.user!.username).info(`REDIT: created room ${newRoomId} ${direction} of ${room.id}`);
+  }
+
+  /**
+   * Find the next free room id of the form <zoneId>-<n>
+   */
+  private generateRoomId(zoneId: string): string {
+    let index = this.roomManager.getRoomsInZone(zoneId).length + 1;
+    while (this.roomManager.getRoom(`${zoneId}-${index}`)) {
+      index++;
+    }
+    return `${zoneId}-${index}`;
+  }
+
+  private setName(client: ConnectedClient, room: Room, name: string): void {
+    if (!name) {
+      writeToClient(client, colorize(`Usage: redit name <text>\r\n`, 'yellow'));
+      return;
+    }
+
+    if (!this.validateRoomData(client, { ...this.roomManager.serializeRoom(room), name })) return;
+
+    room.name = name;
+    this.roomManager.forceSave();
+
+    writeToClient(client, colorize(`Room name set to: ${name}\r\n`, 'green'));
+    getPlayerLogger(client.user!.username).info(`REDIT: renamed room ${room.id} to '${name}'`);
+  }
+
+  private editDescription(client: ConnectedClient, room: Room, text: string): void {
+    if (text) {
+      this.setDescription(client, room, text);
+      return;
+    }
+
+    startLineEditor(client, `description of ${room.id}`, room.description, (description) => {
+      this.setDescription(client, room, description);
+    });
+  }
+
+  private setDescription(client: ConnectedClient, room: Room, description: string): void {
+    if (!description) {
+      writeToClient(client, colorize(`The description can't be empty.\r\n`, 'yellow'));
+      return;
+    }
+
+    if (!this.validateRoomData(client, { ...this.roomManager.serializeRoom(room), description })) return;
+
+    room.description = description;
+    this.roomManager.forceSave();
+
+    writeToClient(client, colorize(`Room description updated.\r\n`, 'green'));
+    getPlayerLogger(client.user!.username).info(`REDIT: updated description of room ${room.id}`);
+  }
+
+  private editTimeOfDayDescription(client: ConnectedClient, room: Room, text: string, field: 'dayDescription' | 'nightDescription'): void {
+    const label = field === 'dayDescription' ? 'day' : 'night';
+
+    if (text.toLowerCase() === 'none') {
+      room[field] = undefined;
+      this.roomManager.forceSave();
+      writeToClient(client, colorize(`Room ${label} description removed.\r\n`, 'green'));
+      getPlayerLogger(client.user!.username).info(`REDIT: removed ${label} description of room ${room.id}`);
+      return;
+    }
+
+    const save = (description: string) => {
+      if (!description) {
+        writeToClient(client, colorize(`The description can't be empty, use 'redit ${label}desc none' to remove it.\r\n`, 'yellow'));
+        return;
+      }
+
+      if (!this.validateRoomData(client, { ...this.roomManager.serializeRoom(room), [field]: description })) return;
+
+      room[field] = description;
+      this.roomManager.forceSave();
+
+      writeToClient(client, colorize(`Room ${label} description updated.\r\n`, 'green'));
+      getPlayerLogger(client.user!.username).info(`REDIT: updated ${label} description of room ${room.id}`);
+    };
+
+    if (text) {
+      save(text);
+      return;
+    }
+
+    startLineEditor(client, `${label} description of ${room.id}`, room[field] || room.description, save);
+  }
+
+  private editAmbient(client: ConnectedClient, room: Room, args: string[]): void {
+    const action = (args[0] || '').toLowerCase();
+    const text = args.slice(1).join(' ').trim();
+
+    if (action === 'list') {
+      if (room.ambientMessages.length === 0) {
+        writeToClient(client, colorize(`This room has no ambient lines.\r\n`, 'yellow'));
+        return;
+      }
+      room.ambientMessages.forEach((message, index) => {
+        writeToClient(client, colorize(`  ${index + 1}. ${message}\r\n`, 'white'));
+      });
+      return;
+    }
+
+    if (action === 'add' && text) {
+      room.ambientMessages = [...room.ambientMessages, text];
+      this.roomManager.forceSave();
+      writeToClient(client, colorize(`Ambient line added.\r\n`, 'green'));
+      getPlayerLogger(client.user!.username).info(`REDIT: added ambient line to room ${room.id}`);
+      return;
+    }
+
+    const index = parseInt(text, 10) - 1;
+    if (action === 'remove' && index >= 0 && index < room.ambientMessages.length) {
+      room.ambientMessages = room.ambientMessages.filter((_, i) => i !== index);
+      this.roomManager.forceSave();
+      writeToClient(client, colorize(`Ambient line removed.\r\n`, 'green'));
+      getPlayerLogger(client.user!.username).info(`REDIT: removed ambient line ${index + 1} from room ${room.id}`);
+      return;
+    }
+
+    writeToClient(client, colorize(`Usage: redit ambient add <text> | redit ambient remove <number> | redit ambient list\r\n`, 'yellow'));
+  }
+
+  private setLandmark(client: ConnectedClient, room: Room, landmark: string): void {
+    if (!landmark) {
+      writeToClient(client, colorize(`Usage: redit landmark <name|none>\r\n`, 'yellow'));
+      return;
+    }
+
+    if (landmark.toLowerCase() === 'none') {
+      room.landmark = undefined;
+      this.roomManager.forceSave();
+      writeToClient(client, colorize(`Landmark removed.\r\n`, 'green'));
+      getPlayerLogger(client.user!.username).info(`REDIT: removed landmark of room ${room.id}`);
+      return;
+    }
+
+    const existing = this.roomManager.findRoomByLandmark(landmark);
+    if (existing && existing.id !== room.id) {
+      writeToClient(client, colorize(`Room '${existing.id}' already uses that landmark.\r\n`, 'yellow'));
+      return;
+    }
+
+    if (!this.validateRoomData(client, { ...this.roomManager.serializeRoom(room), landmark })) return;
+
+    room.landmark = landmark;
+    this.roomManager.forceSave();
+
+    writeToClient(client, colorize(`Landmark set to: ${landmark}\r\n`, 'green'));
+    getPlayerLogger(client.user!.username).info(`REDIT: set landmark of room ${room.id} to '${landmark}'`);
+  }
+
+  private toggleFlag(client: ConnectedClient, room: Room, flag: string): void {
+    if (!ROOM_FLAGS.includes(flag as RoomFlag)) {
+      writeToClient(client, colorize(`Usage: redit flag <${ROOM_FLAGS.join('|')}>\r\n`, 'yellow'));
+      return;
+    }
+
+    const roomFlag = flag as RoomFlag;
+    const enabled = !room.hasFlag(roomFlag);
+    room.flags = enabled ? [...room.flags, roomFlag] : room.flags.filter(existing => existing !== roomFlag);
+    this.roomManager.forceSave();
+
+    writeToClient(client, colorize(`Flag '${roomFlag}' ${enabled ? 'set' : 'removed'}. Flags: ${room.flags.length > 0 ? room.flags.join(', ') : 'none'}\r\n`, 'green'));
+    getPlayerLogger(client.user!.username).info(`REDIT: ${enabled ? 'set' : 'removed'} flag ${roomFlag} on room ${room.id}`);
+  }
+
+  private editExit(client: ConnectedClient, room: Room, args: string[]): void {
+    const action = (args[0] || '').toLowerCase();
+
+    if (action === 'add') {
+      this.addExit(client, room, args[1], args[2], (args[3] || '').toLowerCase() === 'oneway');
+    } else if (action === 'remove') {
+      this.removeExit(client, room, args[1]);
+    } else if (action === 'hide') {
+      this.hideExit(client, room, args[1], (args[2] || '').toLowerCase());
+    } else {
+      writeToClient(client, colorize(`Usage: redit exit add <dir> <roomId> [oneway] | redit exit remove <dir> | redit exit hide <dir> <difficulty|off>\r\n`, 'yellow'));
+    }
+  }
+
+  private addExit(client: ConnectedClient, room: Room, dir: string | undefined, targetRoomId: string | undefined, oneWay: boolean): void {
+    const direction = this.normalizeDirection(dir);
+    if (!direction || !targetRoomId) {
+      writeToClient(client, colorize(`Usage: redit exit add <dir> <roomId> [oneway]\r\n`, 'yellow'));
+      return;
+    }
+
+    const targetRoom = this.roomManager.getRoom(targetRoomId);
+    if (!targetRoom) {
+      writeToClient(client, colorize(`Room '${targetRoomId}' doesn't exist.\r\n`, 'yellow'));
+      return;
+    }
+
+    if (room.findExit(direction)) {
+      writeToClient(client, colorize(`There is already an exit to the ${direction}.\r\n`, 'yellow'));
+      return;
+    }
+
+    if (!oneWay && !this.canEdit(client.user!.username, targetRoom)) {
+      writeToClient(client, colorize(`You can't edit rooms in zone '${targetRoom.zoneId}'; add this exit as oneway.\r\n`, 'red'));
+      return;
+    }
+
+    const reverseDirection = this.roomManager.getReverseDirection(direction);
+    if (!oneWay && targetRoom.findExit(reverseDirection)) {
+      writeToClient(client, colorize(`Room '${targetRoomId}' already has an exit to the ${reverseDirection}; add this one as oneway.\r\n`, 'yellow'));
+      return;
+    }
+
+    const exit: Exit = { direction, roomId: targetRoomId, ...(oneWay && { oneWay: true }) };
+    if (!this.validateRoomData(client, { ...this.roomManager.serializeRoom(room), exits: [...room.exits, exit] })) return;
+
+    room.exits.push(exit);
+    if (!oneWay) {
+      targetRoom.exits.push({ direction: reverseDirection, roomId: room.id });
+    }
+    this.roomManager.forceSave();
+
+    const linkText = oneWay ? 'one-way' : `linked back ${reverseDirection}`;
+    writeToClient(client, colorize(`Added exit ${direction} to '${targetRoomId}' (${linkText}).\r\n`, 'green'));
+    getPlayerLogger(client.user!.username).info(`REDIT: added exit ${direction} from ${room.id} to ${targetRoomId}${oneWay ? ' (one-way)' : ''}`);
+  }
+
+  private removeExit(client: ConnectedClient, room: Room, dir: string | undefined): void {
+    const direction = this.normalizeDirection(dir);
+    const exit = direction ? room.findExit(direction) : undefined;
+    if (!exit) {
+      writeToClient(client, colorize(`There is no exit in that direction.\r\n`, 'yellow'));
+      return;
+    }
+
+    room.exits = room.exits.filter(e => e !== exit);
+
+    // Remove the way back as well, unless the exit was one-way
+    const targetRoom = this.roomManager.getRoom(exit.roomId);
+    if (targetRoom && !exit.oneWay) {
+      const reverseDirection = this.roomManager.getReverseDirection(exit.direction);
+      targetRoom.exits = targetRoom.exits.filter(
+        e => !(e.roomId === room.id && e.direction.toLowerCase() === reverseDirection)
+      );
+    }
+    this.roomManager.forceSave();
+
+    writeToClient(client, colorize(`Removed exit ${exit.direction} to '${exit.roomId}'.\r\n`, 'green'));
+    getPlayerLogger(client.user!.username).info(`REDIT: removed exit ${exit.direction} from ${room.id}`);
+  }
+
+  private hideExit(client: ConnectedClient, room: Room, dir: string | undefined, difficulty: string): void {
+    const direction = this.normalizeDirection(dir);
+    const exit = direction ? room.findExit(direction) : undefined;
+    if (!exit) {
+      writeToClient(client, colorize(`There is no exit in that direction.\r\n`, 'yellow'));
+      return;
+    }
+
+    if (difficulty === 'off') {
+      delete exit.hidden;
+      delete exit.searchDifficulty;
+      this.roomManager.forceSave();
+      writeToClient(client, colorize(`The exit ${exit.direction} is no longer hidden.\r\n`, 'green'));
+      getPlayerLogger(client.user!.username).info(`REDIT: unhid exit ${exit.direction} of ${room.id}`);
+      return;
+    }
+
+    const searchDifficulty = parseInt(difficulty, 10);
+    if (isNaN(searchDifficulty) || searchDifficulty < 0) {
+      writeToClient(client, colorize(`Usage: redit exit hide <dir> <difficulty|off>\r\n`, 'yellow'));
+      return;
+    }
+
+    exit.hidden = true;
+    exit.searchDifficulty = searchDifficulty;
+    this.roomManager.forceSave();
+
+    writeToClient(client, colorize(`The exit ${exit.direction} is now hidden (difficulty ${searchDifficulty}).\r\n`, 'green'));
+    getPlayerLogger(client.user!.username).info(`REDIT: hid exit ${exit.direction} of ${room.id} with difficulty ${searchDifficulty}`);
+  }
+
+  private deleteRoom(client: ConnectedClient, currentRoom: Room, roomId: string): void {
+    if (!roomId) {
+      writeToClient(client, colorize(`Usage: redit delete <roomId>\r\n`, 'yellow'));
+      return;
+    }
+
+    const room = this.roomManager.getRoom(roomId);
+    if (!room) {
+      writeToClient(client, colorize(`Room '${roomId}' doesn't exist.\r\n`, 'yellow'));
+      return;
+    }
+
+    if (room.id === currentRoom.id) {
+      writeToClient(client, colorize(`You can't delete the room you are standing in.\r\n`, 'yellow'));
+      return;
+    }
+
+    if (room.id === this.roomManager.getStartingRoomId()) {
+      writeToClient(client, colorize(`You can't delete the starting room.\r\n`, 'yellow'));
+      return;
+    }
+
+    if (room.players.length > 0) {
+      writeToClient(client, colorize(`There are players in that room.\r\n`, 'yellow'));
+      return;
+    }
+
+    if (room.instanceOf) {
+      writeToClient(client, colorize(`'${roomId}' is a dungeon instance copy and goes away with its instance.\r\n`, 'yellow'));
+      return;
+    }
+
+    if (!this.canEdit(client.user!.username, room)) {
+      writeToClient(client, colorize(`You can't edit rooms in zone '${room.zoneId}'.\r\n`, 'red'));
+      return;
+    }
+
+    const destroyedItems = this.destroyRoomItems(room, client.user!.username);
+    this.roomManager.deleteRoom(roomId);
+    this.roomManager.forceSave();
+
+    writeToClient(client, colorize(`Deleted room '${roomId}'.\r\n`, 'green'));
+    getPlayerLogger(client.user!.username).info(`REDIT: deleted room ${roomId} and ${destroyedItems} item(s) in it`);
+  }
+
+  /**
+   * Destroy the items lying in a room that is about to be deleted, including those in corpses
+   * @returns the number of item instances destroyed
+   */
+  private destroyRoomItems(room: Room, username: string): number {
+    const itemManager = ItemManager.getInstance();
+    const instanceIds = [
+      ...room.getItemInstances().keys(),
+      ...room.corpses.flatMap(corpse => corpse.items)
+    ];
+
+    for (const instanceId of instanceIds) {
+      itemManager.addItemHistory(instanceId, 'destroy', `Destroyed with room ${room.id} by ${username}`);
+      itemManager.deleteItemInstance(instanceId);
+    }
+    return instanceIds.length;
+  }
+}
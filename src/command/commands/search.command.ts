@@ -0,0 +1,77 @@
+import { ConnectedClient } from '../../types';
+import { colorize } from '../../utils/colors';
+import { writeToClient } from '../../utils/socketWriter';
+import { formatUsername } from '../../utils/formatters';
+import { Command } from '../command.interface';
+import { RoomManager } from '../../room/roomManager';
+import { UserManager } from '../../user/userManager';
+import { getPlayerLogger } from '../../utils/logger';
+
+// Difficulty of hidden exits that don't set their own
+const DEFAULT_SEARCH_DIFFICULTY = 12;
+
+export class SearchCommand implements Command {
+  name = 'search';
+  description = 'Search the room for hidden exits (one try per visit)';
+
+  constructor(
+    private roomManager: RoomManager,
+    private userManager: UserManager
+  ) {}
+
+  execute(client: ConnectedClient, args: string): void {
+    if (!client.user) return;
+
+    const username = client.user.username;
+    const roomId = client.user.currentRoomId || this.roomManager.getStartingRoomId();
+    const room = this.roomManager.getRoom(roomId);
+    if (!room) {
+      writeToClient(client, colorize(`You're not in a valid room.\r\n`, 'red'));
+      return;
+    }
+
+    if (!room.canPlayerSee(username)) {
+      writeToClient(client, colorize(`It's too dark to search for anything.\r\n`, 'yellow'));
+      return;
+    }
+
+    writeToClient(client, colorize(`You search the area carefully...\r\n`, 'white'));
+    this.roomManager.notifyPlayersInRoom(roomId, `${formatUsername(username)} searches the area carefully.\r\n`, username);
+
+    // Each undiscovered hidden exit gets one roll per visit, so searching again
+    // only helps after leaving and coming back
+    const modifier = this.getSearchModifier(client);
+    const found = room.exits.filter(exit => {
+      if (room.isExitVisibleTo(exit, username) || room.hasSearchedExit(exit, username)) return false;
+      room.markExitSearched(exit, username);
+
+      const roll = Math.floor(Math.random() * 20) + 1;
+      return roll + modifier >= (exit.searchDifficulty ?? DEFAULT_SEARCH_DIFFICULTY);
+    });
+
+    if (found.length === 0) {
+      writeToClient(client, colorize(`You don't find anything unusual.\r\n`, 'yellow'));
+      return;
+    }
+
+    const discoveredExits = [
+      ...(client.user.discoveredExits || []),
+      ...found.map(exit => room.getHiddenExitKey(exit))
+    ];
+    client.user.discoveredExits = discoveredExits;
+    this.userManager.updateUserStats(username, { discoveredExits });
+
+    for (const exit of found) {
+      writeToClient(client, colorize(`You discover a hidden exit leading ${exit.direction}!\r\n`, 'green'));
+    }
+    getPlayerLogger(username).info(`Discovered hidden exit(s) in room ${roomId}: ${found.map(exit => exit.direction).join(', ')}`);
+  }
+
+  /**
+   * Bonus to search rolls from the average of wisdom and intelligence, +1 for every 2 points over 10
+   */
+  private getSearchModifier(client: ConnectedClient): number {
+    const { wisdom, intelligence } = client.user!;
+    return Math.floor(((wisdom + intelligence) / 2 - 10) / 2);
+  }
+}
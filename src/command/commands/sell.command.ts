@@ -0,0 +1,74 @@
+import { ConnectedClient } from '../../types';
+import { colorize } from '../../utils/colors';
+import { writeToClient } from '../../utils/socketWriter';
+import { formatUsername } from '../../utils/formatters';
+import { Command } from '../command.interface';
+import { RoomManager } from '../../room/roomManager';
+import { UserManager } from '../../user/userManager';
+import { ItemManager } from '../../utils/itemManager';
+import { ShopManager } from '../../shop/shopManager';
+import { addCurrency, formatCurrency, fromCopper } from '../../utils/currency';
+import { getPlayerLogger } from '../../utils/logger';
+
+export class SellCommand implements Command {
+  name = 'sell';
+  description = 'Sell an item from your inventory to the shop you are in';
+  private shopManager: ShopManager;
+  private itemManager: ItemManager;
+
+  constructor(private roomManager: RoomManager, private userManager: UserManager) {
+    this.shopManager = ShopManager.getInstance(roomManager);
+    this.itemManager = ItemManager.getInstance();
+  }
+
+  execute(client: ConnectedClient, args: string): void {
+    if (!client.user) return;
+
+    const itemName = args.trim();
+    if (!itemName) {
+      writeToClient(client, colorize(`Usage: sell <item>\r\n`, 'yellow'));
+      return;
+    }
+
+    const room = this.roomManager.getRoom(client.user.currentRoomId || this.roomManager.getStartingRoomId());
+    const shopkeeper = room && this.shopManager.getShopkeeper(room);
+    if (!shopkeeper) {
+      writeToClient(client, colorize(`There is no shop here.\r\n`, 'yellow'));
+      return;
+    }
+
+    const instanceId = this.itemManager.findItemInInventory(client.user, itemName);
+    const instance = instanceId ? this.itemManager.getItemInstance(instanceId) : undefined;
+    const template = instanceId ? this.itemManager.getTemplateForInstance(instanceId) : null;
+    if (!instanceId || !instance || !template) {
+      writeToClient(client, colorize(`You don't have '${itemName}' to sell.\r\n`, 'yellow'));
+      return;
+    }
+
+    const displayName = this.itemManager.getItemDisplayName(instanceId);
+    if (instance.properties?.soulbound) {
+      writeToClient(client, colorize(`The ${displayName} is bound to you and can't be sold.\r\n`, 'yellow'));
+      return;
+    }
+
+    const price = this.shopManager.getSellPrice(shopkeeper, instanceId);
+    if (!this.shopManager.acceptsItem(shopkeeper, template) || price <= 0) {
+      writeToClient(client, colorize(`The ${shopkeeper.name} isn't interested in the ${displayName}.\r\n`, 'yellow'));
+      return;
+    }
+
+    client.user.inventory.items.splice(client.user.inventory.items.indexOf(instanceId), 1);
+    const coins = fromCopper(price);
+    addCurrency(client.user.inventory.currency, coins);
+    this.userManager.updateUserInventory(client.user.username, client.user.inventory);
+    this.shopManager.putOnShelf(shopkeeper, instanceId, client.user.username, price);
+
+    writeToClient(client, colorize(`You sell the ${displayName} for ${formatCurrency(coins)}.\r\n`, 'green'));
+    this.roomManager.notifyPlayersInRoom(
+      room.id,
+      `${formatUsername(client.user.username)} sells a ${displayName} to the ${shopkeeper.name}.\r\n`,
+      client.user.username
+    );
+    getPlayerLogger(client.user.username).info(`Sold ${displayName} (${instanceId}) to ${shopkeeper.templateId} for ${formatCurrency(coins)}`);
+  }
+}
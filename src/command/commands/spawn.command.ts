@@ -8,13 +8,13 @@ import { NPC, NPCData } from '../../combat/npc';
 export class SpawnCommand implements Command {
   name = 'spawn';
   description = 'Spawn an NPC in the current room';
-  
-  // Cached NPC data to avoid reloading the file for each spawn command
-  private npcData: Map<string, NPCData>;
 
-  constructor(private roomManager: RoomManager) {
-    // Load NPC data when the command is created
-    this.npcData = NPC.loadNPCData();
+
+  constructor(private roomManager: RoomManager) {}
+
+  // NPC.loadNPCData caches the file, so this also picks up templates created with medit
+  private get npcData(): Map<string, NPCData> {
+    return NPC.loadNPCData();
   }
 
   execute(client: ConnectedClient, args: string): void {
@@ -29,10 +29,16 @@ export class SpawnCommand implements Command {
       return;
     }
 
+    if (room.hasFlag('nospawn')) {
+      writeToClient(client, colorize(`Nothing can be spawned in this room.\r\n`, 'yellow'));
+      return;
+    }
+
     // Parse args to determine what to spawn and how many
     const parts = args.trim().toLowerCase().split(' ');
     let npcType = parts[0] || ''; // No default, require specification
     let count = 1; // Default to 1
+    let level: number | undefined; // Default to the template's own level or level range
 
     // Show available NPCs if no type specified
     if (!npcType) {
@@ -51,6 +57,17 @@ export class SpawnCommand implements Command {
       }
     }
 
+    // A third parameter sets the level the NPCs spawn at
+    if (parts.length > 2) {
+      const parsedLevel = parseInt(parts[2]);
+      if (!isNaN(parsedLevel) && parsedLevel > 0) {
+        level = parsedLevel;
+      } else {
+        writeToClient(client, colorize(`Invalid level. Please specify a number of 1 or more.\r\n`, 'yellow'));
+        return;
+      }
+    }
+
     // Check if the requested NPC exists in our data
     if (!this.npcData.has(npcType)) {
       writeToClient(client, colorize(`Unknown NPC type: ${npcType}. Use "spawn" without arguments to see available NPCs.\r\n`, 'yellow'));
@@ -61,33 +78,18 @@ export class SpawnCommand implements Command {
     const npcTemplate = this.npcData.get(npcType)!;
     
     for (let i = 0; i < count; i++) {
-      // Generate a unique instance ID for this NPC
-      const instanceId = `${npcType}-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
-      
-      // Create a new NPC in the room using the template, passing the instanceId and templateId to the constructor
-      const npc = new NPC(
-        npcTemplate.name,
-        npcTemplate.health,
-        npcTemplate.maxHealth,
-        npcTemplate.damage,
-        npcTemplate.isHostile,
-        npcTemplate.isPassive,
-        npcTemplate.experienceValue,
-        npcTemplate.description,
-        npcTemplate.attackTexts,
-        npcTemplate.deathMessages,
-        npcType,  // templateId
-        instanceId  // instanceId
-      );
+      // Build the NPC from its template so it gets the template's stats, behavior, dialogue and loot
+      const npc = NPC.fromNPCData(npcTemplate, level);
       
       // Add the NPC to the room with the proper object
       room.addNPC(npc);
     }
 
     // Notify the player
+    const levelText = level ? ` at level ${level}` : '';
     const message = count === 1 
-      ? `You have spawned a ${npcType} in the room.\r\n`
-      : `You have spawned ${count} ${npcType}s in the room.\r\n`;
+      ? `You have spawned a ${npcType}${levelText} in the room.\r\n`
+      : `You have spawned ${count} ${npcType}s${levelText} in the room.\r\n`;
     
     writeToClient(client, colorize(message, 'green'));
     
@@ -114,6 +116,6 @@ export class SpawnCommand implements Command {
     });
     
     writeToClient(client, colorize(npcList.join('\r\n') + '\r\n', 'white'));
-    writeToClient(client, colorize('\r\nUsage: spawn <npc_type> [count]\r\n', 'cyan'));
+    writeToClient(client, colorize('\r\nUsage: spawn <npc_type> [count] [level]\r\n', 'cyan'));
   }
 }
@@ -0,0 +1,56 @@
+import { ConnectedClient } from '../../types';
+import { colorize } from '../../utils/colors';
+import { writeToClient } from '../../utils/socketWriter';
+import { Command } from '../command.interface';
+import { RoomManager } from '../../room/roomManager';
+import { DialogueManager } from '../../dialogue/dialogueManager';
+
+export class TalkCommand implements Command {
+  name = 'talk';
+  description = 'Talk to someone in the room, then pick your replies by number';
+  private dialogueManager: DialogueManager;
+
+  constructor(private roomManager: RoomManager) {
+    this.dialogueManager = DialogueManager.getInstance(roomManager);
+  }
+
+  execute(client: ConnectedClient, args: string): void {
+    if (!client.user) return;
+
+    const target = args.trim();
+    if (!target) {
+      if (!this.dialogueManager.showCurrentNode(client)) {
+        writeToClient(client, colorize(`Usage: talk <npc> | talk <number> | talk bye\r\n`, 'yellow'));
+      }
+      return;
+    }
+
+    if (/^\d+$/.test(target)) {
+      this.dialogueManager.choose(client, parseInt(target, 10));
+      return;
+    }
+
+    if (['bye', 'end', 'leave'].includes(target.toLowerCase())) {
+      if (client.stateData?.conversation) {
+        this.dialogueManager.endConversation(client, `You end the conversation.\r\n`);
+      } else {
+        writeToClient(client, colorize(`You aren't talking to anyone.\r\n`, 'yellow'));
+      }
+      return;
+    }
+
+    const room = this.roomManager.getRoom(client.user.currentRoomId || this.roomManager.getStartingRoomId());
+    if (!room) {
+      writeToClient(client, colorize(`You're not in a valid room.\r\n`, 'red'));
+      return;
+    }
+
+    const npc = this.dialogueManager.findNpc(room, target);
+    if (!npc) {
+      writeToClient(client, colorize(`You don't see '${target}' here.\r\n`, 'yellow'));
+      return;
+    }
+
+    this.dialogueManager.startConversation(client, npc);
+  }
+}
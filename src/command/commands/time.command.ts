@@ -2,14 +2,19 @@ import { Command } from '../command.interface';
 import { ConnectedClient } from '../../types';
 import { writeToClient } from '../../utils/socketWriter';
 import { colorize } from '../../utils/colors';
+import { GameClock } from '../../timer/gameClock';
 
 export class TimeCommand implements Command {
   name = 'time';
-  description = 'Show the current server time';
+  description = 'Show the current game time';
 
   execute(client: ConnectedClient, args: string): void {
-    const currentTime = new Date().toLocaleString();
-    const timeMessage = `Current server time: ${currentTime}\r\n`;
+    const gameClock = GameClock.getInstance();
+    const timeMessage = `It is ${gameClock.formatTime()}.\r\n`;
     writeToClient(client, colorize(timeMessage, 'cyan'));
+
+    const daylight = gameClock.isDaytime() ? 'The sun is up' : 'It is night';
+    writeToClient(client, colorize(`${daylight}, and it is ${gameClock.getSeason()}.\r\n`, 'white'));
+    writeToClient(client, colorize(`Server time: ${new Date().toLocaleString()}\r\n`, 'white'));
   }
 }
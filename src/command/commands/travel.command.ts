@@ -0,0 +1,126 @@
+import { ConnectedClient } from '../../types';
+import { colorize } from '../../utils/colors';
+import { writeToClient } from '../../utils/socketWriter';
+import { Command } from '../command.interface';
+import { RoomManager } from '../../room/roomManager';
+import { Room } from '../../room/room';
+import { SudoCommand } from './sudo.command';
+import { getPlayerLogger } from '../../utils/logger';
+
+// Longest path a single travel or speedwalk may queue
+const MAX_TRAVEL_STEPS = 50;
+
+// Speedwalk directions, longest first so "ne" isn't read as "n" then "e"
+const SPEEDWALK_DIRECTIONS = ['ne', 'nw', 'se', 'sw', 'n', 's', 'e', 'w', 'u', 'd'];
+const SPEEDWALK_PATTERN = new RegExp(`^(?:\\d*(?:${SPEEDWALK_DIRECTIONS.join('|')}))+$`);
+const SPEEDWALK_STEP_PATTERN = new RegExp(`(\\d*)(${SPEEDWALK_DIRECTIONS.join('|')})`, 'g');
+
+export class TravelCommand implements Command {
+  name = 'travel';
+  description = 'Walk to a landmark or room, or follow a speedwalk like 3n2e (usage: travel <destination|speedwalk>)';
+
+  constructor(private roomManager: RoomManager) {}
+
+  execute(client: ConnectedClient, args: string): void {
+    if (!client.user) return;
+
+    const target = args.trim();
+    if (!target) {
+      this.showLandmarks(client);
+      return;
+    }
+
+    if (target.toLowerCase() === 'stop') {
+      if (!this.roomManager.cancelTravel(client)) {
+        writeToClient(client, colorize(`You aren't traveling anywhere.\r\n`, 'yellow'));
+      }
+      return;
+    }
+
+    const currentRoomId = client.user.currentRoomId || this.roomManager.getStartingRoomId();
+    const destination = this.findDestination(client, target);
+
+    let directions: string[] | null;
+    if (destination) {
+      if (destination.id === currentRoomId) {
+        writeToClient(client, colorize(`You are already there.\r\n`, 'yellow'));
+        return;
+      }
+
+      directions = this.roomManager.findPath(currentRoomId, destination.id, client.user.username);
+      if (!directions) {
+        writeToClient(client, colorize(`You can't find a way to ${destination.name} from here.\r\n`, 'yellow'));
+        return;
+      }
+    } else {
+      const steps = this.parseSpeedwalk(target.toLowerCase());
+      if (!steps) {
+        writeToClient(client, colorize(`You don't know of any place called '${target}'.\r\n`, 'yellow'));
+        return;
+      }
+
+      // Check the length before expanding so "9999n" doesn't build a huge path
+      if (steps.reduce((total, step) => total + step.repeat, 0) > MAX_TRAVEL_STEPS) {
+        writeToClient(client, colorize(`That's too far to travel in one go.\r\n`, 'yellow'));
+        return;
+      }
+      directions = steps.flatMap(step => new Array(step.repeat).fill(step.direction));
+    }
+
+    if (directions.length > MAX_TRAVEL_STEPS) {
+      writeToClient(client, colorize(`That's too far to travel in one go.\r\n`, 'yellow'));
+      return;
+    }
+
+    writeToClient(client, colorize(`You set off ${destination ? `towards ${destination.name}` : 'on your way'} (${directions.length} steps).\r\n`, 'cyan'));
+    if (this.roomManager.startTravel(client, directions)) {
+      getPlayerLogger(client.user.username).info(`Started traveling from ${currentRoomId}: ${directions.join(' ')}`);
+    }
+  }
+
+  /**
+   * Look a destination up by landmark or by room id. Players can only travel to
+   * rooms by id once they've explored them; admins can travel anywhere.
+   */
+  private findDestination(client: ConnectedClient, target: string): Room | undefined {
+    const landmarkRoom = this.roomManager.findRoomByLandmark(target);
+    if (landmarkRoom) return landmarkRoom;
+
+    const room = this.roomManager.getRoom(target);
+    if (!room) return undefined;
+
+    const user = client.user!;
+    const explored = user.exploredRooms || [];
+    if (explored.includes(room.id) || SudoCommand.isAuthorizedUser(user.username)) {
+      return room;
+    }
+    return undefined;
+  }
+
+  /**
+   * Split a speedwalk string such as "3n2e" into directions with repeat counts
+   * @returns null if the string isn't a speedwalk or repeats a direction fewer than once
+   */
+  public parseSpeedwalk(speedwalk: string): { direction: string, repeat: number }[] | null {
+    if (!SPEEDWALK_PATTERN.test(speedwalk)) return null;
+
+    const steps = Array.from(speedwalk.matchAll(SPEEDWALK_STEP_PATTERN)).map(([, count, direction]) => ({
+      direction: this.roomManager.getFullDirectionName(direction),
+      repeat: count ? parseInt(count, 10) : 1
+    }));
+    return steps.some(step => step.repeat < 1) ? null : steps;
+  }
+
+  private showLandmarks(client: ConnectedClient): void {
+    const landmarks = this.roomManager.getAllRooms()
+      .filter(room => room.landmark)
+      .map(room => room.landmark!)
+      .sort();
+
+    writeToClient(client, colorize(`Usage: travel <landmark|roomId|speedwalk>, travel stop\r\n`, 'yellow'));
+    writeToClient(client, colorize(`Speedwalks are directions with optional counts, like 3n2e or nwu.\r\n`, 'white'));
+    if (landmarks.length > 0) {
+      writeToClient(client, colorize(`Landmarks: ${landmarks.join(', ')}\r\n`, 'cyan'));
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import { ConnectedClient } from '../../types';
+import { colorize } from '../../utils/colors';
+import { writeToClient } from '../../utils/socketWriter';
+import { Command } from '../command.interface';
+import { RoomManager } from '../../room/roomManager';
+import { ItemManager } from '../../utils/itemManager';
+import { ShopManager } from '../../shop/shopManager';
+import { formatCurrency, fromCopper } from '../../utils/currency';
+
+export class ValueCommand implements Command {
+  name = 'value';
+  description = 'Ask the shopkeeper what they would pay for an item';
+  private shopManager: ShopManager;
+  private itemManager: ItemManager;
+
+  constructor(private roomManager: RoomManager) {
+    this.shopManager = ShopManager.getInstance(roomManager);
+    this.itemManager = ItemManager.getInstance();
+  }
+
+  execute(client: ConnectedClient, args: string): void {
+    if (!client.user) return;
+
+    const itemName = args.trim();
+    if (!itemName) {
+      writeToClient(client, colorize(`Usage: value <item>\r\n`, 'yellow'));
+      return;
+    }
+
+    const room = this.roomManager.getRoom(client.user.currentRoomId || this.roomManager.getStartingRoomId());
+    const shopkeeper = room && this.shopManager.getShopkeeper(room);
+    if (!shopkeeper) {
+      writeToClient(client, colorize(`There is no shop here.\r\n`, 'yellow'));
+      return;
+    }
+
+    const instanceId = this.itemManager.findItemInInventory(client.user, itemName);
+    const template = instanceId ? this.itemManager.getTemplateForInstance(instanceId) : null;
+    if (!instanceId || !template) {
+      writeToClient(client, colorize(`You don't have '${itemName}'.\r\n`, 'yellow'));
+      return;
+    }
+
+    const displayName = this.itemManager.getItemDisplayName(instanceId);
+    const price = this.shopManager.getSellPrice(shopkeeper, instanceId);
+    if (!this.shopManager.acceptsItem(shopkeeper, template) || price <= 0) {
+      writeToClient(client, colorize(`The ${shopkeeper.name} isn't interested in the ${displayName}.\r\n`, 'yellow'));
+      return;
+    }
+
+    writeToClient(client, colorize(`The ${shopkeeper.name} would give you ${formatCurrency(fromCopper(price))} for the ${displayName}.\r\n`, 'cyan'));
+  }
+}
@@ -0,0 +1,63 @@
+import { ConnectedClient, WEATHER_TYPES, WeatherType } from '../../types';
+import { colorize } from '../../utils/colors';
+import { writeToClient } from '../../utils/socketWriter';
+import { Command } from '../command.interface';
+import { RoomManager } from '../../room/roomManager';
+import { SudoCommand } from './sudo.command';
+import { getPlayerLogger } from '../../utils/logger';
+
+export class WeatherCommand implements Command {
+  name = 'weather';
+  description = 'Check the weather where you are';
+
+  constructor(private roomManager: RoomManager) {}
+
+  execute(client: ConnectedClient, args: string): void {
+    if (!client.user) return;
+
+    const roomId = client.user.currentRoomId || this.roomManager.getStartingRoomId();
+    const room = this.roomManager.getRoom(roomId);
+    if (!room) {
+      writeToClient(client, colorize(`You're not in a valid room.\r\n`, 'red'));
+      return;
+    }
+
+    // Zone ids are matched as typed, since they may contain capitals
+    const [subcommand, weather, zoneId] = args.trim().split(/\s+/);
+    if (subcommand.toLowerCase() === 'set') {
+      this.setWeather(client, weather?.toLowerCase(), zoneId || room.zoneId);
+      return;
+    }
+
+    const description = this.roomManager.getWeatherDescription(this.roomManager.getWeather(room.zoneId));
+    if (room.hasFlag('indoors')) {
+      writeToClient(client, colorize(`You are indoors. Outside, ${description.charAt(0).toLowerCase()}${description.slice(1)}\r\n`, 'cyan'));
+    } else {
+      writeToClient(client, colorize(`${description}\r\n`, 'cyan'));
+    }
+  }
+
+  /**
+   * Admins can force the weather in a zone
+   */
+  private setWeather(client: ConnectedClient, weather: string | undefined, zoneId: string): void {
+    if (!SudoCommand.isAuthorizedUser(client.user!.username)) {
+      writeToClient(client, colorize('You do not have permission to use this command.\r\n', 'red'));
+      return;
+    }
+
+    if (!weather || !WEATHER_TYPES.includes(weather as WeatherType)) {
+      writeToClient(client, colorize(`Usage: weather set <${WEATHER_TYPES.join('|')}> [zoneId]\r\n`, 'yellow'));
+      return;
+    }
+
+    if (!this.roomManager.getZone(zoneId)) {
+      writeToClient(client, colorize(`Zone '${zoneId}' doesn't exist.\r\n`, 'yellow'));
+      return;
+    }
+
+    this.roomManager.setWeather(zoneId, weather as WeatherType);
+    writeToClient(client, colorize(`Weather in zone '${zoneId}' set to ${weather}.\r\n`, 'green'));
+    getPlayerLogger(client.user!.username).info(`Set weather in zone ${zoneId} to ${weather}`);
+  }
+}
@@ -0,0 +1,37 @@
+import { ConnectedClient } from '../../types';
+import { colorize } from '../../utils/colors';
+import { writeToClient } from '../../utils/socketWriter';
+import { Command } from '../command.interface';
+import { RoomManager } from '../../room/roomManager';
+import { SudoCommand } from './sudo.command';
+import { getPlayerLogger } from '../../utils/logger';
+
+export class ZoneEchoCommand implements Command {
+  name = 'zecho';
+  description = 'Send narration to everyone in your zone (admin only)';
+
+  constructor(private roomManager: RoomManager) {}
+
+  execute(client: ConnectedClient, args: string): void {
+    if (!client.user) return;
+
+    if (!SudoCommand.isAuthorizedUser(client.user.username)) {
+      writeToClient(client, colorize('You do not have permission to use this command.\r\n', 'red'));
+      return;
+    }
+
+    const text = args.trim();
+    if (!text) {
+      writeToClient(client, colorize(`Usage: zecho <text>\r\n`, 'yellow'));
+      return;
+    }
+
+    const room = this.roomManager.getRoom(client.user.currentRoomId || this.roomManager.getStartingRoomId());
+    if (!room || !this.roomManager.echoToZone(room.zoneId, colorize(`${text}\r\n`, 'white'))) {
+      writeToClient(client, colorize(`You're not in a valid zone.\r\n`, 'red'));
+      return;
+    }
+
+    getPlayerLogger(client.user.username).info(`ZECHO in zone ${room.zoneId}: ${text}`);
+  }
+}
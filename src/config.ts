@@ -32,6 +32,7 @@ export const ADMIN_DIR = path.join(DATA_DIR, 'admin');
 
 // File locations
 export const ROOMS_FILE = cliConfig.roomsFile;
+export const ZONES_DIR = cliConfig.zonesDir;
 export const USERS_FILE = cliConfig.usersFile;
 export const ITEMS_FILE = cliConfig.itemsFile;
 export const NPCS_FILE = cliConfig.npcsFile;
@@ -49,6 +50,12 @@ export const DIRECT_USERS_DATA = cliConfig.users;
 export const DIRECT_ITEMS_DATA = cliConfig.items;
 export const DIRECT_NPCS_DATA = cliConfig.npcs;
 
+// Import flags
+export const IMPORT_ARE_FILE = cliConfig.importAre;
+
+// Combat
+export const COMBAT_SEED = cliConfig.combatSeed ?? undefined;
+
 // Message formatting
 export const MAX_MESSAGE_LINE_LENGTH = 50;
 
@@ -100,6 +107,7 @@ export default {
   PUBLIC_DIR,
   ADMIN_DIR,
   ROOMS_FILE,
+  ZONES_DIR,
   USERS_FILE,
   ITEMS_FILE,
   NPCS_FILE,
@@ -112,6 +120,8 @@ export default {
   DIRECT_USERS_DATA,
   DIRECT_ITEMS_DATA,
   DIRECT_NPCS_DATA,
+  IMPORT_ARE_FILE,
+  COMBAT_SEED,
   MAX_MESSAGE_LINE_LENGTH,
   SERVER_STATS_UPDATE_INTERVAL,
   IDLE_CHECK_INTERVAL,
@@ -18,6 +18,7 @@ export interface CLIConfig {
   // Data directory flags
   dataDir: string;
   roomsFile: string;
+  zonesDir: string;
   usersFile: string;
   itemsFile: string;
   npcsFile: string;
@@ -29,6 +30,12 @@ export interface CLIConfig {
   items: string | null;
   npcs: string | null;
   
+  // Import flags
+  importAre: string | null; // .are area file to convert into the data directory
+
+  // Seed for repeatable combat rolls
+  combatSeed: number | null;
+  
   // Additional server options
   port: number;
   wsPort: number;
@@ -89,6 +96,10 @@ export function parseCommandLineArgs(): CLIConfig {
       type: 'string',
       description: 'Path to rooms file'
     })
+    .option('zonesDir', {
+      type: 'string',
+      description: 'Path to directory of per-zone room files'
+    })
     .option('usersFile', {
       type: 'string',
       description: 'Path to users file'
@@ -124,6 +135,18 @@ export function parseCommandLineArgs(): CLIConfig {
       description: 'JSON string with NPC data'
     })
     
+    // Import flags
+    .option('importAre', {
+      type: 'string',
+      description: 'Import a DikuMUD/ROM .are area file into the data directory and exit'
+    })
+    
+    // Combat flags
+    .option('combatSeed', {
+      type: 'number',
+      description: 'Seed combat rolls so fights play out the same way every run (for balance testing)'
+    })
+    
     // Additional server options
     .option('port', {
       type: 'number',
@@ -183,6 +206,7 @@ export function parseCommandLineArgs(): CLIConfig {
     disableRemoteAdmin: argv.disableRemoteAdmin,
     dataDir: argv.dataDir,
     roomsFile: argv.roomsFile || path.join(argv.dataDir, 'rooms.json'),
+    zonesDir: argv.zonesDir || path.join(argv.dataDir, 'zones'),
     usersFile: argv.usersFile || path.join(argv.dataDir, 'users.json'),
     itemsFile: argv.itemsFile || path.join(argv.dataDir, 'items.json'),
     npcsFile: argv.npcsFile || path.join(argv.dataDir, 'npcs.json'),
@@ -191,6 +215,8 @@ export function parseCommandLineArgs(): CLIConfig {
     users: argv.users || null,
     items: argv.items || null,
     npcs: argv.npcs || null,
+    importAre: argv.importAre || null,
+    combatSeed: argv.combatSeed ?? null,
     port: argv.port,
     wsPort: argv.wsPort,
     httpPort: argv.httpPort || null,
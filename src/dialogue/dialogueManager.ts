@@ -0,0 +1,288 @@
+import { ConnectedClient, DialogueAction, DialogueCondition, DialogueNode } from '../types';
+import { NPC } from '../combat/npc';
+import { Room } from '../room/room';
+import { RoomManager } from '../room/roomManager';
+import { UserManager } from '../user/userManager';
+import { ItemManager } from '../utils/itemManager';
+import { EffectManager } from '../effects/effectManager';
+import { colorize } from '../utils/colors';
+import { writeToClient } from '../utils/socketWriter';
+import { formatUsername } from '../utils/formatters';
+import { addCurrency, formatCurrency } from '../utils/currency';
+import { getPlayerLogger } from '../utils/logger';
+
+// Where a player is in a conversation, kept in client.stateData.conversation
+export interface ConversationState {
+  npcInstanceId: string;
+  roomId: string;
+  nodeId: string;
+}
+
+export class DialogueManager {
+  private static instance: DialogueManager | null = null;
+
+  private userManager: UserManager;
+  private itemManager: ItemManager;
+
+  private constructor(private roomManager: RoomManager) {
+    this.userManager = UserManager.getInstance();
+    this.itemManager = ItemManager.getInstance();
+  }
+
+  public static getInstance(roomManager: RoomManager): DialogueManager {
+    if (!DialogueManager.instance) {
+      DialogueManager.instance = new DialogueManager(roomManager);
+    }
+    return DialogueManager.instance;
+  }
+
+  /**
+   * Find an NPC in a room by instance ID, template ID or name
+   */
+  public findNpc(room: Room, name: string): NPC | undefined {
+    const normalizedName = name.toLowerCase().trim();
+    const npcs = Array.from(room.npcs.values());
+    return room.getNPC(normalizedName)
+      || npcs.find(npc => npc.templateId.toLowerCase() === normalizedName)
+      || npcs.find(npc => npc.name.toLowerCase() === normalizedName)
+      || npcs.find(npc => npc.name.toLowerCase().includes(normalizedName));
+  }
+
+  /**
+   * Open a conversation with the first greeting node the player qualifies for
+   */
+  public startConversation(client: ConnectedClient, npc: NPC): void {
+    if (!client.user) return;
+
+    const greeting = npc.dialogue?.greeting.find(nodeId => this.isNodeAvailable(client.user!.username, npc, nodeId));
+    if (!greeting) {
+      writeToClient(client, colorize(`The ${npc.name} doesn't seem interested in talking.\r\n`, 'yellow'));
+      return;
+    }
+
+    this.roomManager.notifyPlayersInRoom(
+      client.user.currentRoomId,
+      `${formatUsername(client.user.username)} talks to the ${npc.name}.\r\n`,
+      client.user.username
+    );
+    getPlayerLogger(client.user.username).info(`Started talking to ${npc.templateId} (${npc.instanceId})`);
+    this.enterNode(client, npc, greeting);
+  }
+
+  /**
+   * Ask an NPC about a topic keyword, continuing the conversation from the topic's node
+   */
+  public askAbout(client: ConnectedClient, npc: NPC, topic: string): void {
+    if (!client.user) return;
+
+    const keyword = topic.toLowerCase().trim();
+    const topics = npc.dialogue?.topics || {};
+    const match = Object.keys(topics).find(key => key.toLowerCase() === keyword)
+      || Object.keys(topics).find(key => key.toLowerCase().startsWith(keyword));
+    const nodeId = match ? topics[match] : undefined;
+
+    if (!nodeId || !this.isNodeAvailable(client.user.username, npc, nodeId)) {
+      writeToClient(client, colorize(`The ${npc.name} has nothing to say about that.\r\n`, 'yellow'));
+      return;
+    }
+
+    this.roomManager.notifyPlayersInRoom(
+      client.user.currentRoomId,
+      `${formatUsername(client.user.username)} asks the ${npc.name} about ${topic.trim()}.\r\n`,
+      client.user.username
+    );
+    this.enterNode(client, npc, nodeId);
+  }
+
+  /**
+   * Pick one of the replies listed for the current node, numbered from 1
+   */
+  public choose(client: ConnectedClient, choiceNumber: number): void {
+    const current = this.getCurrentConversation(client);
+    if (!current || !client.user) {
+      writeToClient(client, colorize(`You aren't talking to anyone.\r\n`, 'yellow'));
+      return;
+    }
+
+    const { npc, node } = current;
+    const choice = this.getAvailableChoices(client.user.username, node)[choiceNumber - 1];
+    if (!choice) {
+      writeToClient(client, colorize(`That isn't one of your options.\r\n`, 'yellow'));
+      return;
+    }
+
+    writeToClient(client, colorize(`You say, "${choice.text}"\r\n`, 'green'));
+    this.runActions(client, npc, choice.actions);
+
+    if (choice.next) {
+      this.enterNode(client, npc, choice.next);
+    } else {
+      this.endConversation(client);
+    }
+  }
+
+  /**
+   * Repeat what the NPC last said, with the player's replies
+   * @returns false if the player isn't in a conversation
+   */
+  public showCurrentNode(client: ConnectedClient): boolean {
+    const current = this.getCurrentConversation(client);
+    if (!current) return false;
+
+    this.showNode(client, current.npc, current.node);
+    return true;
+  }
+
+  public endConversation(client: ConnectedClient, message?: string): void {
+    if (!client.stateData?.conversation) return;
+
+    client.stateData.conversation = undefined;
+    if (message) {
+      writeToClient(client, colorize(message, 'yellow'));
+    }
+  }
+
+  /**
+   * Look up the player's conversation, dropping it if they or the NPC have since moved on
+   */
+  private getCurrentConversation(client: ConnectedClient): { npc: NPC; node: DialogueNode } | undefined {
+    const conversation: ConversationState | undefined = client.stateData?.conversation;
+    if (!conversation || !client.user) return undefined;
+
+    const room = this.roomManager.getRoom(conversation.roomId);
+    const npc = room?.getNPC(conversation.npcInstanceId);
+    const node = npc?.dialogue?.nodes[conversation.nodeId];
+    if (client.user.currentRoomId !== conversation.roomId || !npc || !npc.isAlive() || !node) {
+      this.endConversation(client);
+      return undefined;
+    }
+
+    return { npc, node };
+  }
+
+  private enterNode(client: ConnectedClient, npc: NPC, nodeId: string): void {
+    const node = npc.dialogue?.nodes[nodeId];
+    if (!client.user || !node) {
+      this.endConversation(client);
+      return;
+    }
+
+    // A choice can lead to a node the player no longer qualifies for, such as a gift already given
+    if (!this.meetsConditions(client.user.username, node)) {
+      this.endConversation(client, `The ${npc.name} has nothing more to say about that.\r\n`);
+      return;
+    }
+
+    // The NPC speaks before handing anything over
+    this.showText(client, npc, node);
+    this.runActions(client, npc, node.actions);
+    this.showChoices(client, node);
+
+    if (this.getAvailableChoices(client.user.username, node).length === 0) {
+      this.endConversation(client);
+      return;
+    }
+
+    if (!client.stateData) {
+      client.stateData = {};
+    }
+    const conversation: ConversationState = { npcInstanceId: npc.instanceId, roomId: client.user.currentRoomId, nodeId };
+    client.stateData.conversation = conversation;
+  }
+
+  private showNode(client: ConnectedClient, npc: NPC, node: DialogueNode): void {
+    this.showText(client, npc, node);
+    this.showChoices(client, node);
+  }
+
+  private showText(client: ConnectedClient, npc: NPC, node: DialogueNode): void {
+    if (!client.user) return;
+
+    const text = node.text.replace(/\$PLAYER\$/g, formatUsername(client.user.username));
+    writeToClient(client, colorize(`The ${npc.name} says, "${text}"\r\n`, 'cyan'));
+  }
+
+  private showChoices(client: ConnectedClient, node: DialogueNode): void {
+    if (!client.user) return;
+
+    const choices = this.getAvailableChoices(client.user.username, node);
+    if (choices.length === 0) return;
+
+    choices.forEach((choice, index) => {
+      writeToClient(client, colorize(`  ${index + 1}) ${choice.text}\r\n`, 'white'));
+    });
+    writeToClient(client, colorize(`Reply with "talk <number>", or "talk bye" to walk away.\r\n`, 'yellow'));
+  }
+
+  private isNodeAvailable(username: string, npc: NPC, nodeId: string): boolean {
+    const node = npc.dialogue?.nodes[nodeId];
+    return !!node && this.meetsConditions(username, node);
+  }
+
+  private getAvailableChoices(username: string, node: DialogueNode) {
+    return (node.choices || []).filter(choice => this.meetsConditions(username, choice));
+  }
+
+  private meetsConditions(username: string, condition: DialogueCondition): boolean {
+    const requiresFlags = condition.requiresFlags || [];
+    const excludesFlags = condition.excludesFlags || [];
+    return requiresFlags.every(flag => this.userManager.hasFlag(username, flag))
+      && !excludesFlags.some(flag => this.userManager.hasFlag(username, flag));
+  }
+
+  private runActions(client: ConnectedClient, npc: NPC, actions: DialogueAction[] | undefined): void {
+    if (!client.user || !actions) return;
+
+    const username = client.user.username;
+    const playerLogger = getPlayerLogger(username);
+
+    for (const action of actions) {
+      if (action.setFlag) {
+        this.userManager.addFlag(username, action.setFlag);
+      }
+
+      if (action.removeFlag) {
+        this.userManager.removeFlag(username, action.removeFlag);
+      }
+
+      if (action.giveItem) {
+        const instance = this.itemManager.createItemInstance(action.giveItem, `npc:${npc.templateId}`);
+        const template = this.itemManager.getItem(action.giveItem);
+        if (instance && template) {
+          client.user.inventory.items.push(instance.instanceId);
+          this.userManager.updateUserInventory(username, client.user.inventory);
+          this.itemManager.addItemHistory(instance.instanceId, 'give', `Given to ${username} by ${npc.name} in conversation`);
+          writeToClient(client, colorize(`The ${npc.name} gives you ${template.name}.\r\n`, 'green'));
+          playerLogger.info(`Received ${template.name} (${instance.instanceId}) from ${npc.templateId} in conversation`);
+        }
+      }
+
+      if (action.giveCurrency) {
+        addCurrency(client.user.inventory.currency, action.giveCurrency);
+        this.userManager.updateUserInventory(username, client.user.inventory);
+
+        const coins = formatCurrency(action.giveCurrency);
+        if (coins) {
+          writeToClient(client, colorize(`The ${npc.name} hands you ${coins}.\r\n`, 'green'));
+          playerLogger.info(`Received ${coins} from ${npc.templateId} in conversation`);
+        }
+      }
+
+      if (action.startEffect) {
+        const effect = action.startEffect;
+        EffectManager.getInstance(this.userManager, this.roomManager).addEffect(username, true, {
+          type: effect.type,
+          name: effect.name,
+          description: effect.description || effect.name,
+          durationTicks: effect.durationTicks,
+          tickInterval: effect.tickInterval ?? 0,
+          isTimeBased: false,
+          payload: effect.payload || {},
+          targetId: username,
+          isPlayerEffect: true,
+          sourceId: npc.instanceId
+        });
+      }
+    }
+  }
+}
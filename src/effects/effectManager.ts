@@ -11,6 +11,7 @@ import {
 } from '../types/effects';
 import { writeFormattedMessageToClient } from '../utils/socketWriter';
 import { CombatSystem } from '../combat/combatSystem';
+import { NPC } from '../combat/npc';
 import { ConnectedClient } from '../types';
 import { systemLogger, createMechanicsLogger } from '../utils/logger';
 
@@ -337,6 +338,28 @@ export class EffectManager extends EventEmitter {
         return false;
     }
 
+    /**
+     * Check if a target's view of adjacent rooms is obscured
+     */
+    public isVisionObscured(targetId: string, isPlayer: boolean): boolean {
+        return this.getEffectsForTarget(targetId, isPlayer).some(effect => effect.payload.obscureVision);
+    }
+
+    /**
+     * Reset the remaining duration of an effect without reapplying it
+     * @returns false if the effect doesn't exist
+     */
+    public refreshEffectDuration(effectId: string, durationTicks: number): boolean {
+        for (const effects of [...this.playerEffects.values(), ...this.npcEffects.values()]) {
+            const effect = effects.find(e => e.id === effectId);
+            if (effect) {
+                effect.remainingTicks = durationTicks;
+                return true;
+            }
+        }
+        return false;
+    }
+
     /**
      * Process game tick for all tick-based effects
      */
@@ -571,6 +594,11 @@ export class EffectManager extends EventEmitter {
      * Handle NPC death (similar to CombatSystem logic)
      */
     private handleNpcDeath(npc: any, npcId: string, roomId: string): void {
+        // Leave a corpse with the NPC's gear and drops, first pick to whoever was fighting it
+        if (npc instanceof NPC) {
+            this.roomManager.createCorpse(roomId, npc, npc.getAllAggressors());
+        }
+        
         // Remove NPC from room
         this.roomManager.removeNPCFromRoom(roomId, npcId);
         
@@ -637,7 +665,8 @@ export class EffectManager extends EventEmitter {
     }
     
     /**
-     * Teleport a player to the starting room
+     * Teleport a player to the starting room. Moves the player directly, so death
+     * isn't held back by a noteleport room.
      */
     private teleportToStartingRoom(client: ConnectedClient): void {
         if (!client.user) return;
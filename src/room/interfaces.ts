@@ -1,6 +1,8 @@
 import { Room } from './room';
-import { ConnectedClient, Currency, Exit, Item } from '../types';
+import { Zone } from './zone';
+import { ConnectedClient, Corpse, Currency, Exit, Item, WeatherType } from '../types';
 import { NPC } from '../combat/npc';
+import { DungeonInstance } from './services/instanceService';
 
 // Core RoomManager interface
 export interface IRoomManager {
@@ -9,6 +11,9 @@ export interface IRoomManager {
   updateRoom(room: Room): void;
   getStartingRoomId(): string;
   getAllRooms(): Room[];
+  getZone(zoneId: string): Zone | undefined;
+  getAllZones(): Zone[];
+  getZoneForRoom(roomId: string): Zone | undefined;
   forceSave(): void;
 }
 
@@ -16,6 +21,9 @@ export interface IRoomManager {
 export interface IPlayerMovementService {
   movePlayer(client: ConnectedClient, direction: string): boolean;
   movePlayerWithDelay(client: ConnectedClient, direction: string): boolean;
+  findPath(fromRoomId: string, toRoomId: string, username?: string): string[] | null;
+  startTravel(client: ConnectedClient, directions: string[]): boolean;
+  cancelTravel(client: ConnectedClient, message?: string): boolean;
 }
 
 // Entity registry interface
@@ -44,11 +52,64 @@ export interface IRoomUINotificationService {
 export interface ITeleportationService {
   teleportToStartingRoom(client: ConnectedClient): boolean;
   teleportToStartingRoomIfNeeded(client: ConnectedClient): boolean;
+  teleportToRoom(client: ConnectedClient, roomId: string, message: string, options?: { ignoreNoTeleport?: boolean }): boolean;
   removePlayerFromAllRooms(username: string): void;
 }
 
+// Door service interface
+export interface IDoorService {
+  openDoor(client: ConnectedClient, direction: string): boolean;
+  closeDoor(client: ConnectedClient, direction: string): boolean;
+  lockDoor(client: ConnectedClient, direction: string): boolean;
+  unlockDoor(client: ConnectedClient, direction: string): boolean;
+}
+
+// Room reset service interface
+export interface IRoomResetService {
+  processResets(tickCount: number): void;
+  resetZone(zone: Zone): void;
+}
+
+export interface IWeatherService {
+  processWeather(tickCount: number): void;
+  getWeather(zoneId: string): WeatherType;
+  setWeather(zoneId: string, weather: WeatherType): void;
+  getWeatherDescription(weather: WeatherType): string;
+}
+
+export interface IAmbientService {
+  processAmbience(): void;
+  echoToRoom(roomId: string, message: string): boolean;
+  echoToZone(zoneId: string, message: string): boolean;
+}
+
+// NPC movement service interface
+export interface INPCBehaviorService {
+  processNpcBehaviors(): void;
+}
+
+// Corpse and loot service interface
+export interface ICorpseService {
+  createCorpse(roomId: string, npc: NPC, owners: string[]): Corpse | undefined;
+  getCorpses(roomId: string): Corpse[];
+  canLoot(corpse: Corpse, username: string): boolean;
+  processCorpses(): void;
+}
+
+// Dungeon instance service interface
+export interface IInstanceService {
+  resolveRoomId(username: string, fromRoomId: string, roomId: string): string | undefined;
+  getInstance(instanceId: string): DungeonInstance | undefined;
+  getInstanceForRoom(roomId: string): DungeonInstance | undefined;
+  getInstances(): DungeonInstance[];
+  getReturnRoomId(roomId: string): string | undefined;
+  processInstances(tickCount: number): void;
+  destroyInstance(instanceId: string): boolean;
+}
+
 // Helper interfaces
 export interface IDirectionHelper {
   getOppositeDirection(direction: string): string;
+  getReverseDirection(direction: string): string;
   getFullDirectionName(direction: string): string;
 }
\ No newline at end of file
@@ -1,17 +1,29 @@
 import { formatUsername } from '../utils/formatters';
 import { colorize } from '../utils/colors';
-import { Currency, Exit, Item, ItemInstance } from '../types';
+import { Corpse, Currency, Exit, Item, ItemInstance, ResetRule, RoomFlag } from '../types';
 import { ItemManager } from '../utils/itemManager';
 import { NPC } from '../combat/npc';
 import { colorizeItemName } from '../utils/itemNameColorizer';
+import { DEFAULT_ZONE_ID } from './zone';
+import { GameClock } from '../timer/gameClock';
 
 export class Room {
   id: string;
   name: string;
   description: string;
+  dayDescription?: string; // Replaces the description during the day
+  nightDescription?: string; // Replaces the description at night
   exits: Exit[];
   players: string[] = [];
-  
+  zoneId: string;
+  // Reset rules for NPCs and items that should be present in this room
+  resets: ResetRule[];
+  resetInterval?: number; // Overrides the zone's reset interval (in ticks)
+  landmark?: string; // Name players can travel to this room by
+  flags: RoomFlag[];
+  ambientMessages: string[]; // Flavour lines occasionally shown to players in the room
+  instanceOf?: string; // Template room this room was copied from, set on dungeon instance rooms
+
   // Replace items array with a map of instanceId -> templateId
   private itemInstances: Map<string, string> = new Map(); // instanceId -> templateId
   
@@ -20,6 +32,9 @@ export class Room {
   
   currency: Currency = { gold: 0, silver: 0, copper: 0 };
   npcs: Map<string, NPC> = new Map();
+  corpses: Corpse[]; // Remains of slain NPCs; they rot away, and are saved with the room until then
+  // Hidden exits each player has already rolled to find during their current visit
+  private searchedExits: Map<string, Set<string>> = new Map();
   private itemManager: ItemManager;
   public hasChanged: boolean = false;
 
@@ -27,9 +42,19 @@ export class Room {
     this.id = room.id;
     this.name = room.name || room.shortDescription;
     this.description = room.description || room.longDescription;
+    this.dayDescription = room.dayDescription;
+    this.nightDescription = room.nightDescription;
     this.exits = room.exits || [];
     this.players = room.players || [];
-    
+    this.zoneId = room.zoneId || DEFAULT_ZONE_ID;
+    this.resets = room.resets || [];
+    this.resetInterval = room.resetInterval;
+    this.landmark = room.landmark;
+    this.flags = room.flags || [];
+    this.ambientMessages = room.ambientMessages || [];
+    this.instanceOf = room.instanceOf;
+    this.corpses = room.corpses || [];
+
     // Initialize itemInstances
     this.itemInstances = new Map();
     if (room.itemInstances) {
@@ -62,6 +87,22 @@ export class Room {
     this.itemManager = ItemManager.getInstance();
   }
 
+  hasFlag(flag: RoomFlag): boolean {
+    return this.flags.includes(flag);
+  }
+
+  /**
+   * Check whether a player can see in this room; dark rooms need a light source
+   */
+  canPlayerSee(username: string): boolean {
+    if (!this.hasFlag('dark')) return true;
+
+    // Loaded lazily to avoid a circular dependency
+    const { UserManager } = require('../user/userManager');
+    const user = UserManager.getInstance().getUser(username);
+    return user ? this.itemManager.hasLightSource(user) : false;
+  }
+
   addPlayer(username: string): void {
     if (!this.players.includes(username)) {
       this.players.push(username);
@@ -70,6 +111,8 @@ export class Room {
 
   removePlayer(username: string): void {
     this.players = this.players.filter(player => player !== username);
+    // Leaving ends the visit, so the player may search again next time
+    this.searchedExits.delete(username);
   }
 
   /**
@@ -303,7 +346,11 @@ export class Room {
   /**
    * Generate a description for someone looking into the room from outside
    */
-  getDescriptionForPeeking(fromDirection: string): string {
+  getDescriptionForPeeking(fromDirection: string, username: string): string {
+    if (!this.canPlayerSee(username)) {
+      return colorize(`It is too dark to make anything out.\r\n`, 'blue');
+    }
+
     let description = colorize(this.name, 'cyan') + '\r\n';
     description += colorize(this.description, 'white') + '\r\n';
     
@@ -324,8 +371,9 @@ export class Room {
     }
     
     // Only show exits since player is just peeking
-    if (this.exits.length > 0) {
-      const directions = this.exits.map(exit => exit.direction);
+    const exits = this.getVisibleExits();
+    if (exits.length > 0) {
+      const directions = exits.map(exit => this.formatExitDirection(exit));
       description += colorize(`Obvious exits: ${directions.join(', ')}.\r\n`, 'green');
       
       // Mention the direction the player is peeking from
@@ -339,10 +387,14 @@ export class Room {
 
   // Centralized method to format room descriptions
   private getFormattedDescription(includeLongDesc: boolean, excludePlayer?: string): string {
+    if (excludePlayer && !this.canPlayerSee(excludePlayer)) {
+      return this.getDarkDescription(excludePlayer);
+    }
+
     let description = colorize(this.name, 'cyan') + '\r\n';
     
     if (includeLongDesc) {
-      description += colorize(this.description, 'white') + '\r\n';
+      description += colorize(this.getTimeOfDayDescription(), 'white') + '\r\n';
     }
     
     // Add the common parts
@@ -351,6 +403,28 @@ export class Room {
     return description;
   }
 
+  /**
+   * The description for the current time of day, falling back to the regular one
+   */
+  getTimeOfDayDescription(): string {
+    const variant = GameClock.getInstance().isDaytime() ? this.dayDescription : this.nightDescription;
+    return variant || this.description;
+  }
+
+  // Description of a dark room for someone without a light, only the exits can be felt out
+  private getDarkDescription(username: string): string {
+    let description = colorize('Darkness', 'cyan') + '\r\n';
+    description += colorize(`It is pitch black. You can't see a thing without a light.`, 'blue') + '\r\n';
+
+    const exits = this.getVisibleExits(username);
+    if (exits.length > 0) {
+      const directions = exits.map(exit => this.formatExitDirection(exit));
+      description += colorize(`Obvious exits: ${directions.join(', ')}.`, 'green') + '\r\n';
+    }
+
+    return description;
+  }
+
   // Centralized method for common description formatting
   private getFormattedCommonDescription(excludePlayer?: string): string {
     let description = '';
@@ -461,6 +535,10 @@ export class Room {
       }
     }
 
+    for (const corpse of this.corpses) {
+      description += colorize(`The corpse of a ${corpse.name} lies here.`, 'yellow') + '\r\n';
+    }
+
     // Add players and NPCs
     let players = this.players;
     if (excludePlayer) {
@@ -477,8 +555,9 @@ export class Room {
     }
 
     // Add exits
-    if (this.exits.length > 0) {
-      const directions = this.exits.map(exit => exit.direction);
+    const exits = this.getVisibleExits(excludePlayer);
+    if (exits.length > 0) {
+      const directions = exits.map(exit => this.formatExitDirection(exit));
       description += colorize(`Obvious exits: ${directions.join(', ')}.`, 'green') + '\r\n';
     } else {
       description += colorize('There are no obvious exits.', 'green') + '\r\n';
@@ -488,11 +567,74 @@ export class Room {
   }
 
   getExit(direction: string): string | null {
-    const exit = this.exits.find(e => 
+    const exit = this.findExit(direction);
+    return exit ? exit.roomId : null;
+  }
+
+  /**
+   * Find the full exit definition for a direction (full name or abbreviation)
+   */
+  findExit(direction: string): Exit | undefined {
+    return this.exits.find(e => 
       e.direction.toLowerCase() === direction.toLowerCase() ||
       this.getDirectionAbbreviation(e.direction) === direction.toLowerCase()
     );
-    return exit ? exit.roomId : null;
+  }
+
+  /**
+   * Find an exit the player knows about; undiscovered hidden exits are treated as missing
+   */
+  findVisibleExit(direction: string, username: string): Exit | undefined {
+    const exit = this.findExit(direction);
+    return exit && this.isExitVisibleTo(exit, username) ? exit : undefined;
+  }
+
+  /**
+   * Exits shown to a player, or only the non-hidden ones when no player is given
+   */
+  getVisibleExits(username?: string): Exit[] {
+    return this.exits.filter(exit => this.isExitVisibleTo(exit, username));
+  }
+
+  isExitVisibleTo(exit: Exit, username?: string): boolean {
+    if (!exit.hidden) return true;
+    if (!username) return false;
+
+    // Loaded lazily to avoid a circular dependency
+    const { UserManager } = require('../user/userManager');
+    const user = UserManager.getInstance().getUser(username);
+    return Boolean(user && user.discoveredExits && user.discoveredExits.includes(this.getHiddenExitKey(exit)));
+  }
+
+  /**
+   * Whether a player already rolled to find a hidden exit since entering the room
+   */
+  hasSearchedExit(exit: Exit, username: string): boolean {
+    return this.searchedExits.get(username)?.has(this.getHiddenExitKey(exit)) ?? false;
+  }
+
+  markExitSearched(exit: Exit, username: string): void {
+    const searched = this.searchedExits.get(username) || new Set<string>();
+    searched.add(this.getHiddenExitKey(exit));
+    this.searchedExits.set(username, searched);
+  }
+
+  /**
+   * Key a discovered hidden exit is stored under in the player's data
+   */
+  getHiddenExitKey(exit: Exit): string {
+    // Exits found in a dungeon instance stay found in every copy of it
+    return `${this.instanceOf || this.id}:${exit.direction.toLowerCase()}`;
+  }
+
+  /**
+   * Format an exit for the exits line, marking closed doors
+   */
+  private formatExitDirection(exit: Exit): string {
+    if (exit.door && exit.door.state !== 'open') {
+      return `${exit.direction} (closed ${exit.door.name || 'door'})`;
+    }
+    return exit.direction;
   }
 
   private getDirectionAbbreviation(direction: string): string {
@@ -1,12 +1,13 @@
 import fs from 'fs';
 import path from 'path';
 import { Room } from './room';
-import { ConnectedClient, Currency, Exit, Item } from '../types';
+import { Zone, ZoneData, DEFAULT_ZONE_ID } from './zone';
+import { ConnectedClient, Corpse, Currency, Exit, Item, WeatherType } from '../types';
 import { systemLogger } from '../utils/logger';
 import { NPC } from '../combat/npc';
 import { IRoomManager } from './interfaces';
 import { parseAndValidateJson } from '../utils/jsonUtils';
-import { loadAndValidateJsonFile } from '../utils/fileUtils';
+import { loadAndValidateJsonFile, saveJsonFile } from '../utils/fileUtils';
 import config from '../config';
 
 // Import our service classes
@@ -16,8 +17,14 @@ import { NPCInteractionService } from './services/npcInteractionService';
 import { PlayerMovementService } from './services/playerMovementService';
 import { RoomUINotificationService } from './services/roomUINotificationService';
 import { TeleportationService } from './services/teleportationService';
+import { DoorService } from './services/doorService';
+import { RoomResetService } from './services/roomResetService';
+import { WeatherService } from './services/weatherService';
+import { NPCBehaviorService } from './services/npcBehaviorService';
+import { CorpseService } from './services/corpseService';
+import { AmbientService } from './services/ambientService';
+import { InstanceService, DungeonInstance } from './services/instanceService';
 
-const ROOMS_FILE = path.join(__dirname, '..', '..', 'data', 'rooms.json');
 const DEFAULT_ROOM_ID = 'start'; // ID for the starting room
 
 interface RoomData {
@@ -35,6 +42,7 @@ interface RoomData {
 
 export class RoomManager implements IRoomManager {
   private rooms: Map<string, Room> = new Map();
+  private zones: Map<string, Zone> = new Map();
   private clients: Map<string, ConnectedClient>;
   
   // Services - use definite assignment assertions to tell TypeScript they will be initialized
@@ -44,6 +52,13 @@ export class RoomManager implements IRoomManager {
   private playerMovementService!: PlayerMovementService;
   private roomUINotificationService!: RoomUINotificationService;
   private teleportationService!: TeleportationService;
+  private doorService!: DoorService;
+  private roomResetService!: RoomResetService;
+  private weatherService!: WeatherService;
+  private npcBehaviorService!: NPCBehaviorService;
+  private corpseService!: CorpseService;
+  private ambientService!: AmbientService;
+  private instanceService!: InstanceService;
   
   // Add static instance for singleton pattern
   private static instance: RoomManager | null = null;
@@ -96,7 +111,8 @@ export class RoomManager implements IRoomManager {
         getStartingRoomId: this.getStartingRoomId.bind(this),
         getAllRooms: this.getAllRooms.bind(this)
       },
-      this.roomUINotificationService.notifyPlayersInRoom.bind(this.roomUINotificationService)
+      this.roomUINotificationService.notifyPlayersInRoom.bind(this.roomUINotificationService),
+      this.getInstanceReturnRoomId.bind(this)
     );
     
     this.npcInteractionService = new NPCInteractionService(
@@ -123,26 +139,154 @@ export class RoomManager implements IRoomManager {
       },
       this.directionHelper,
       this.roomUINotificationService.notifyPlayersInRoom.bind(this.roomUINotificationService),
-      this.clients
+      this.clients,
+      this.isMovementBlocked.bind(this),
+      this.getStatModifiers.bind(this),
+      this.resolveInstanceRoomId.bind(this)
+    );
+    
+    this.doorService = new DoorService(
+      {
+        getRoom: this.getRoom.bind(this),
+        getStartingRoomId: this.getStartingRoomId.bind(this)
+      },
+      this.directionHelper,
+      this.roomUINotificationService.notifyPlayersInRoom.bind(this.roomUINotificationService)
+    );
+    
+    this.roomResetService = new RoomResetService(
+      {
+        getRoom: this.getRoom.bind(this),
+        getAllRooms: this.getAllRooms.bind(this),
+        getAllZones: this.getAllZones.bind(this),
+        getRoomsInZone: this.getRoomsInZone.bind(this)
+      },
+      this.npcInteractionService,
+      this.roomUINotificationService.notifyPlayersInRoom.bind(this.roomUINotificationService)
+    );
+    
+    this.weatherService = new WeatherService(
+      {
+        getAllZones: this.getAllZones.bind(this),
+        getRoomsInZone: this.getRoomsInZone.bind(this)
+      },
+      this.roomUINotificationService.notifyPlayersInRoom.bind(this.roomUINotificationService),
+      this.getEffectManager.bind(this)
+    );
+    
+    this.npcBehaviorService = new NPCBehaviorService(
+      {
+        getRoom: this.getRoom.bind(this),
+        getAllRooms: this.getAllRooms.bind(this)
+      },
+      this.directionHelper,
+      this.roomUINotificationService.notifyPlayersInRoom.bind(this.roomUINotificationService)
+    );
+    
+    this.corpseService = new CorpseService(
+      {
+        getRoom: this.getRoom.bind(this),
+        getAllRooms: this.getAllRooms.bind(this)
+      },
+      this.roomUINotificationService.notifyPlayersInRoom.bind(this.roomUINotificationService)
+    );
+    
+    this.ambientService = new AmbientService(
+      {
+        getRoom: this.getRoom.bind(this),
+        getZone: this.getZone.bind(this),
+        getAllZones: this.getAllZones.bind(this),
+        getRoomsInZone: this.getRoomsInZone.bind(this)
+      },
+      this.findClientByUsername.bind(this)
+    );
+    
+    this.instanceService = new InstanceService(
+      {
+        getRoom: this.getRoom.bind(this),
+        getZone: this.getZone.bind(this),
+        getZoneForRoom: this.getZoneForRoom.bind(this),
+        getRoomsInZone: this.getRoomsInZone.bind(this),
+        getStartingRoomId: this.getStartingRoomId.bind(this),
+        serializeRoom: this.serializeRoom.bind(this),
+        getNpcsByHomeRoom: this.getNpcsByHomeRoom.bind(this),
+        addTransientZone: this.addTransientZone.bind(this),
+        removeTransientZone: this.removeTransientZone.bind(this)
+      },
+      this.npcInteractionService,
+      this.findClientByUsername.bind(this),
+      this.teleportationService.teleportToRoom.bind(this.teleportationService)
     );
   }
 
   /**
    * Load prevalidated room data
    * @param roomDataArray An array of validated room data objects
+   * @param zoneData Optional zone metadata the rooms belong to (defaults to the default zone)
    */
-  public loadPrevalidatedRooms(roomDataArray: any[]): void {
+  public loadPrevalidatedRooms(roomDataArray: any[], zoneData?: Omit<ZoneData, 'rooms'>): void {
     systemLogger.info(`Loading ${roomDataArray.length} pre-validated rooms...`);
     
-    // Clear existing rooms to prevent duplicates
+    // Clear existing rooms and zones to prevent duplicates
+    this.rooms.clear();
+    this.zones.clear();
+    
+    this.addPrevalidatedZoneRooms(roomDataArray, zoneData || this.createDefaultZoneData());
+    
+    systemLogger.info('Pre-validated rooms loaded successfully');
+  }
+
+  /**
+   * Load prevalidated zone data
+   * @param zoneDataArray An array of validated zone objects, each containing its rooms
+   */
+  public loadPrevalidatedZones(zoneDataArray: ZoneData[]): void {
+    systemLogger.info(`Loading ${zoneDataArray.length} pre-validated zones...`);
+    
+    // Clear existing rooms and zones to prevent duplicates
     this.rooms.clear();
+    this.zones.clear();
+    
+    zoneDataArray.forEach(zoneData => {
+      this.addPrevalidatedZoneRooms(zoneData.rooms, zoneData);
+    });
+    
+    this.warnAboutDanglingExits();
+    
+    systemLogger.info(`Pre-validated zones loaded successfully (${this.rooms.size} rooms)`);
+  }
+
+  /**
+   * Load a single new zone while the game is running, e.g. one that was just imported
+   * @returns false if a zone with that ID is already loaded
+   */
+  public addZone(zoneData: ZoneData): boolean {
+    if (this.zones.has(zoneData.id)) return false;
+    
+    this.addPrevalidatedZoneRooms(zoneData.rooms, zoneData);
+    systemLogger.info(`Zone ${zoneData.id} loaded (${zoneData.rooms.length} rooms)`);
+    return true;
+  }
+
+  /**
+   * Register a zone and instantiate its rooms
+   */
+  private addPrevalidatedZoneRooms(roomDataArray: any[], zoneData: Omit<ZoneData, 'rooms'>): void {
+    const zone = new Zone(zoneData);
+    this.zones.set(zone.id, zone);
     
     // Load all NPC templates first
     const npcData = NPC.loadNPCData();
     
     roomDataArray.forEach(roomData => {
-      const room = new Room(roomData);
+      if (this.rooms.has(roomData.id)) {
+        systemLogger.warn(`Room '${roomData.id}' in zone '${zone.id}' is already defined in zone '${this.rooms.get(roomData.id)!.zoneId}', skipping`);
+        return;
+      }
+      
+      const room = new Room({ ...roomData, zoneId: zone.id });
       this.rooms.set(room.id, room);
+      zone.addRoomId(room.id);
       
       // Instantiate NPCs from templates after room is created
       if (Array.isArray(roomData.npcs)) {
@@ -150,7 +294,32 @@ export class RoomManager implements IRoomManager {
       }
     });
     
-    systemLogger.info('Pre-validated rooms loaded successfully');
+    // Fill in whatever the reset rules call for that the saved rooms don't already hold
+    this.roomResetService.resetZone(zone);
+  }
+
+  /**
+   * Exits between zones can't be checked when a single zone file is validated,
+   * so check them once every zone has been loaded
+   */
+  private warnAboutDanglingExits(): void {
+    for (const room of this.rooms.values()) {
+      room.exits.forEach(exit => {
+        if (!this.rooms.has(exit.roomId)) {
+          systemLogger.warn(`Room '${room.id}' (zone '${room.zoneId}') has exit ${exit.direction} to non-existent room '${exit.roomId}'`);
+        }
+      });
+    }
+  }
+
+  private createDefaultZoneData(): Omit<ZoneData, 'rooms'> {
+    return {
+      id: DEFAULT_ZONE_ID,
+      name: 'Default Zone',
+      levelRange: { min: 1, max: 1 },
+      builders: [],
+      resetPolicy: { mode: 'always' }
+    };
   }
 
   private loadRooms(): void {
@@ -168,56 +337,152 @@ export class RoomManager implements IRoomManager {
       }
     }
     
-    // If no rooms from command line, try loading from file
-    this.loadRoomsFromFile();
+    // Prefer per-zone files, falling back to the legacy single rooms file
+    if (this.getZoneFiles().length > 0) {
+      this.loadZonesFromFiles();
+    } else {
+      this.loadRoomsFromFile();
+    }
+  }
+
+  /**
+   * Get the paths of all zone files in the zones directory
+   */
+  private getZoneFiles(): string[] {
+    if (!fs.existsSync(config.ZONES_DIR)) {
+      return [];
+    }
+    
+    return fs.readdirSync(config.ZONES_DIR)
+      .filter(file => file.endsWith('.json'))
+      .sort()
+      .map(file => path.join(config.ZONES_DIR, file));
+  }
+
+  private loadZonesFromFiles(): void {
+    const zoneDataArray: ZoneData[] = [];
+    const zoneFiles = new Map<string, string>();
+    
+    for (const zoneFile of this.getZoneFiles()) {
+      const zoneData = loadAndValidateJsonFile<ZoneData>(zoneFile, 'zones');
+      
+      if (!zoneData) {
+        systemLogger.error(`Invalid zone file: ${zoneFile}`);
+        process.exit(1); // Exit if zone data is invalid
+      }
+      
+      zoneDataArray.push(zoneData);
+      if (!zoneFiles.has(zoneData.id)) {
+        zoneFiles.set(zoneData.id, zoneFile);
+      }
+    }
+    
+    this.loadPrevalidatedZones(zoneDataArray);
+    
+    // Remember where each zone came from so saving doesn't copy it to a file named after its ID
+    for (const [zoneId, zoneFile] of zoneFiles) {
+      const zone = this.zones.get(zoneId);
+      if (zone) {
+        zone.sourceFile = zoneFile;
+      }
+    }
   }
   
   private loadRoomsFromFile(): void {
     // Validate file data using our validation system
-    if (fs.existsSync(ROOMS_FILE)) {
-      const roomDataArray = loadAndValidateJsonFile<any[]>(ROOMS_FILE, 'rooms');
+    if (fs.existsSync(config.ROOMS_FILE)) {
+      const roomDataArray = loadAndValidateJsonFile<any[]>(config.ROOMS_FILE, 'rooms');
       
       if (roomDataArray && Array.isArray(roomDataArray)) {
+        // Legacy rooms all go into the default zone; the next save migrates them to a zone file
         this.loadPrevalidatedRooms(roomDataArray);
       } else {
         process.exit(1); // Exit if rooms data is invalid
       }
     } else {
-      // Create initial rooms file if it doesn't exist
+      // Create initial zone file if no room data exists
+      this.zones.set(DEFAULT_ZONE_ID, new Zone(this.createDefaultZoneData()));
       this.saveRooms();
     }
   }
 
+  /**
+   * Group every NPC under the room it belongs to: the room it was spawned for, wherever it has
+   * wandered, or the room it's standing in if it has no home
+   */
+  public getNpcsByHomeRoom(): Map<string, NPC[]> {
+    const npcsByHomeRoom = new Map<string, NPC[]>();
+    for (const room of this.rooms.values()) {
+      room.npcs.forEach(npc => {
+        const homeRoomId = npc.homeRoomId ?? room.id;
+        const npcs = npcsByHomeRoom.get(homeRoomId);
+        if (npcs) {
+          npcs.push(npc);
+        } else {
+          npcsByHomeRoom.set(homeRoomId, [npc]);
+        }
+      });
+    }
+    return npcsByHomeRoom;
+  }
+
+  /**
+   * Convert a room to its storable format (without players)
+   * @param npcsByHomeRoom NPCs grouped by home room; pass one map in when serializing many rooms
+   */
+  public serializeRoom(room: Room, npcsByHomeRoom: Map<string, NPC[]> = this.getNpcsByHomeRoom()): any {
+    // Store the template ID of each NPC that belongs here. Wanderers are saved in their home
+    // room only, so they don't multiply across restarts.
+    const npcTemplateIds = (npcsByHomeRoom.get(room.id) ?? []).map(npc => npc.templateId);
+    
+    // Serialize item instances to a format suitable for storage
+    const serializedItemInstances = room.serializeItemInstances();
+    
+    return {
+      id: room.id,
+      name: room.name,
+      description: room.description,
+      exits: room.exits,
+      items: room.items, // Keep legacy items for backward compatibility
+      itemInstances: serializedItemInstances, // Add new item instances
+      npcs: npcTemplateIds,  // Use the array of template IDs
+      currency: room.currency,
+      ...(room.resets.length > 0 && { resets: room.resets }),
+      ...(room.resetInterval && { resetInterval: room.resetInterval }),
+      ...(room.dayDescription && { dayDescription: room.dayDescription }),
+      ...(room.nightDescription && { nightDescription: room.nightDescription }),
+      ...(room.landmark && { landmark: room.landmark }),
+      ...(room.flags.length > 0 && { flags: room.flags }),
+      ...(room.ambientMessages.length > 0 && { ambientMessages: room.ambientMessages }),
+      ...(room.corpses.length > 0 && { corpses: room.corpses })
+    };
+  }
+
   private saveRooms(): void {
+    const npcsByHomeRoom = this.getNpcsByHomeRoom();
+    for (const zone of this.zones.values()) {
+      // Dungeon instances only exist in memory
+      if (zone.transient) continue;
+      this.saveZone(zone, npcsByHomeRoom);
+    }
+  }
+
+  /**
+   * Write a single zone file with its metadata and rooms
+   */
+  private saveZone(zone: Zone, npcsByHomeRoom: Map<string, NPC[]>): void {
     try {
-      // Convert rooms to storable format (without players)
-      const roomsData = Array.from(this.rooms.values()).map(room => {
-        // Convert NPC Map to an array of template IDs for storage
-        const npcTemplateIds: string[] = [];
-        
-        // For each NPC in the room, store its template ID
-        room.npcs.forEach(npc => {
-          npcTemplateIds.push(npc.templateId);
-        });
-        
-        // Serialize item instances to a format suitable for storage
-        const serializedItemInstances = room.serializeItemInstances();
-        
-        return {
-          id: room.id,
-          name: room.name,
-          description: room.description,
-          exits: room.exits,
-          items: room.items, // Keep legacy items for backward compatibility
-          itemInstances: serializedItemInstances, // Add new item instances
-          npcs: npcTemplateIds,  // Use the array of template IDs
-          currency: room.currency
-        };
-      });
+      const roomsData = zone.roomIds
+        .map(roomId => this.rooms.get(roomId))
+        .filter((room): room is Room => room !== undefined)
+        .map(room => this.serializeRoom(room, npcsByHomeRoom));
       
-      fs.writeFileSync(ROOMS_FILE, JSON.stringify(roomsData, null, 2));
+      // New zones get a file named after their ID
+      const zoneFile = zone.sourceFile || path.join(config.ZONES_DIR, `${zone.id}.json`);
+      saveJsonFile(zoneFile, { ...zone.getMetadata(), rooms: roomsData });
+      zone.sourceFile = zoneFile;
     } catch (error) {
-      systemLogger.error('Error saving rooms:', error);
+      systemLogger.error(`Error saving zone ${zone.id}:`, error);
     }
   }
 
@@ -229,13 +494,111 @@ export class RoomManager implements IRoomManager {
   public addRoomIfNotExists(room: Room): void {
     if (!this.rooms.has(room.id)) {
       this.rooms.set(room.id, room);
+      this.getOrCreateZone(room.zoneId).addRoomId(room.id);
       this.saveRooms();
     }
   }
 
   public updateRoom(room: Room): void {
     this.rooms.set(room.id, room);
+    this.getOrCreateZone(room.zoneId).addRoomId(room.id);
+    this.saveRooms();
+  }
+
+  /**
+   * Delete a room and every exit in other rooms that leads into it
+   * @returns false if the room doesn't exist
+   */
+  public deleteRoom(roomId: string): boolean {
+    const room = this.rooms.get(roomId);
+    if (!room) return false;
+    
+    for (const otherRoom of this.rooms.values()) {
+      otherRoom.exits = otherRoom.exits.filter(exit => exit.roomId !== roomId);
+    }
+    
+    // The room's NPCs go with it, and so does their gear
+    room.npcs.forEach(npc => npc.destroyEquipment());
+    
+    this.rooms.delete(roomId);
+    this.zones.get(room.zoneId)?.removeRoomId(roomId);
     this.saveRooms();
+    
+    systemLogger.info(`Deleted room ${roomId} from zone ${room.zoneId}`);
+    return true;
+  }
+
+  // Zone methods
+  public getZone(zoneId: string): Zone | undefined {
+    return this.zones.get(zoneId);
+  }
+
+  public getAllZones(): Zone[] {
+    return Array.from(this.zones.values());
+  }
+
+  public getZoneForRoom(roomId: string): Zone | undefined {
+    const room = this.rooms.get(roomId);
+    return room ? this.zones.get(room.zoneId) : undefined;
+  }
+
+  public getRoomsInZone(zoneId: string): Room[] {
+    const zone = this.zones.get(zoneId);
+    if (!zone) return [];
+    
+    return zone.roomIds
+      .map(roomId => this.rooms.get(roomId))
+      .filter((room): room is Room => room !== undefined);
+  }
+
+  /**
+   * Register an in-memory zone and its rooms, such as a dungeon instance.
+   * Transient zones are never written to disk.
+   */
+  public addTransientZone(zone: Zone, rooms: Room[]): void {
+    zone.transient = true;
+    this.zones.set(zone.id, zone);
+
+    for (const room of rooms) {
+      this.rooms.set(room.id, room);
+      zone.addRoomId(room.id);
+    }
+  }
+
+  /**
+   * Remove a transient zone along with its rooms
+   * @returns the removed rooms
+   */
+  public removeTransientZone(zoneId: string): Room[] {
+    const zone = this.zones.get(zoneId);
+    if (!zone || !zone.transient) return [];
+
+    const rooms = this.getRoomsInZone(zoneId);
+    for (const room of rooms) {
+      this.rooms.delete(room.id);
+    }
+    this.zones.delete(zoneId);
+    return rooms;
+  }
+
+  /**
+   * Get a zone, creating an empty one with default metadata if it doesn't exist yet
+   */
+  private getOrCreateZone(zoneId: string): Zone {
+    let zone = this.zones.get(zoneId);
+    if (!zone) {
+      zone = new Zone({ ...this.createDefaultZoneData(), id: zoneId, name: zoneId });
+      this.zones.set(zoneId, zone);
+    }
+    return zone;
+  }
+
+  /**
+   * Find a room by its landmark name, ignoring case
+   */
+  public findRoomByLandmark(landmark: string): Room | undefined {
+    const lowerLandmark = landmark.toLowerCase();
+    return this.getAllRooms().find(room => room.landmark && room.landmark.toLowerCase() === lowerLandmark);
   }
 
   public getStartingRoomId(): string {
@@ -257,6 +620,40 @@ export class RoomManager implements IRoomManager {
   public movePlayerWithDelay(client: ConnectedClient, direction: string): boolean {
     return this.playerMovementService.movePlayerWithDelay(client, direction);
   }
+
+  public findPath(fromRoomId: string, toRoomId: string, username?: string): string[] | null {
+    return this.playerMovementService.findPath(fromRoomId, toRoomId, username);
+  }
+
+  public startTravel(client: ConnectedClient, directions: string[]): boolean {
+    return this.playerMovementService.startTravel(client, directions);
+  }
+
+  public cancelTravel(client: ConnectedClient, message?: string): boolean {
+    return this.playerMovementService.cancelTravel(client, message);
+  }
+
+  /**
+   * Check whether an active effect blocks a player's movement.
+   * EffectManager is loaded lazily since it depends on RoomManager itself.
+   */
+  private isMovementBlocked(username: string): boolean {
+    return this.getEffectManager().isActionBlocked(username, true, 'movement');
+  }
+
+  /**
+   * Combined stat changes from a player's active effects
+   */
+  public getStatModifiers(username: string): { [stat: string]: number } {
+    return this.getEffectManager().getStatModifiers(username, true);
+  }
+
+  // Loaded lazily, the effect manager depends on the room manager
+  private getEffectManager() {
+    const { EffectManager } = require('../effects/effectManager');
+    const { UserManager } = require('../user/userManager');
+    return EffectManager.getInstance(UserManager.getInstance(), this);
+  }
   
   // Entity methods
   public findClientByUsername(username: string): ConnectedClient | undefined {
@@ -305,21 +702,132 @@ export class RoomManager implements IRoomManager {
     return this.teleportationService.teleportToStartingRoomIfNeeded(client);
   }
   
+  public teleportToRoom(client: ConnectedClient, roomId: string, message: string, options?: { ignoreNoTeleport?: boolean }): boolean {
+    return this.teleportationService.teleportToRoom(client, roomId, message, options);
+  }
+  
   public removePlayerFromAllRooms(username: string): void {
     this.teleportationService.removePlayerFromAllRooms(username);
   }
 
+  // Door methods
+  public openDoor(client: ConnectedClient, direction: string): boolean {
+    return this.doorService.openDoor(client, direction);
+  }
+  
+  public closeDoor(client: ConnectedClient, direction: string): boolean {
+    return this.doorService.closeDoor(client, direction);
+  }
+  
+  public lockDoor(client: ConnectedClient, direction: string): boolean {
+    return this.doorService.lockDoor(client, direction);
+  }
+  
+  public unlockDoor(client: ConnectedClient, direction: string): boolean {
+    return this.doorService.unlockDoor(client, direction);
+  }
+
+  // Reset methods
+  public processResets(tickCount: number): void {
+    this.roomResetService.processResets(tickCount);
+  }
+
+  // Weather methods
+  public processWeather(tickCount: number): void {
+    this.weatherService.processWeather(tickCount);
+  }
+
+  public getWeather(zoneId: string): WeatherType {
+    return this.weatherService.getWeather(zoneId);
+  }
+
+  public setWeather(zoneId: string, weather: WeatherType): void {
+    this.weatherService.setWeather(zoneId, weather);
+  }
+
+  public getWeatherDescription(weather: WeatherType): string {
+    return this.weatherService.getWeatherDescription(weather);
+  }
+
+  // NPC movement methods
+  public processNpcBehaviors(): void {
+    this.npcBehaviorService.processNpcBehaviors();
+  }
+
+  // Corpse and loot methods
+  public createCorpse(roomId: string, npc: NPC, owners: string[]): Corpse | undefined {
+    return this.corpseService.createCorpse(roomId, npc, owners);
+  }
+
+  public getCorpses(roomId: string): Corpse[] {
+    return this.corpseService.getCorpses(roomId);
+  }
+
+  public canLootCorpse(corpse: Corpse, username: string): boolean {
+    return this.corpseService.canLoot(corpse, username);
+  }
+
+  public processCorpses(): void {
+    this.corpseService.processCorpses();
+  }
+
+  // Ambient message methods
+  public processAmbience(): void {
+    this.ambientService.processAmbience();
+  }
+
+  public echoToRoom(roomId: string, message: string): boolean {
+    return this.ambientService.echoToRoom(roomId, message);
+  }
+
+  public echoToZone(zoneId: string, message: string): boolean {
+    return this.ambientService.echoToZone(zoneId, message);
+  }
+
+  // Dungeon instance methods
+  public processInstances(tickCount: number): void {
+    this.instanceService.processInstances(tickCount);
+  }
+
+  public getInstance(instanceId: string): DungeonInstance | undefined {
+    return this.instanceService.getInstance(instanceId);
+  }
+
+  public getInstanceForRoom(roomId: string): DungeonInstance | undefined {
+    return this.instanceService.getInstanceForRoom(roomId);
+  }
+
+  public getInstances(): DungeonInstance[] {
+    return this.instanceService.getInstances();
+  }
+
+  public destroyInstance(instanceId: string): boolean {
+    return this.instanceService.destroyInstance(instanceId);
+  }
+
+  public getInstanceReturnRoomId(roomId: string): string | undefined {
+    return this.instanceService.getReturnRoomId(roomId);
+  }
+
+  private resolveInstanceRoomId(username: string, fromRoomId: string, roomId: string): string | undefined {
+    return this.instanceService.resolveRoomId(username, fromRoomId, roomId);
+  }
+
   // Direction helper methods
   public getOppositeDirection(direction: string): string {
     return this.directionHelper.getOppositeDirection(direction);
   }
   
+  public getReverseDirection(direction: string): string {
+    return this.directionHelper.getReverseDirection(direction);
+  }
+  
   public getFullDirectionName(direction: string): string {
     return this.directionHelper.getFullDirectionName(direction);
   }
 
   /**
-   * Force saving rooms data
+   * Force saving rooms data, one file per zone
    * Public method for tick system to call
    */
   public forceSave(): void {
@@ -0,0 +1,87 @@
+import { IAmbientService } from '../interfaces';
+import { ClientStateType, ConnectedClient } from '../../types';
+import { Room } from '../room';
+import { Zone } from '../zone';
+import { colorize } from '../../utils/colors';
+import { writeFormattedMessageToClient } from '../../utils/socketWriter';
+
+// Chance per tick that an occupied room shows an ambient line, unless its zone sets one
+export const DEFAULT_AMBIENT_CHANCE = 0.02;
+
+export class AmbientService implements IAmbientService {
+  private roomManager: {
+    getRoom: (roomId: string) => Room | undefined;
+    getZone: (zoneId: string) => Zone | undefined;
+    getAllZones: () => Zone[];
+    getRoomsInZone: (zoneId: string) => Room[];
+  };
+  private findClientByUsername: (username: string) => ConnectedClient | undefined;
+
+  constructor(
+    roomManager: {
+      getRoom: (roomId: string) => Room | undefined;
+      getZone: (zoneId: string) => Zone | undefined;
+      getAllZones: () => Zone[];
+      getRoomsInZone: (zoneId: string) => Room[];
+    },
+    findClientByUsername: (username: string) => ConnectedClient | undefined
+  ) {
+    this.roomManager = roomManager;
+    this.findClientByUsername = findClientByUsername;
+  }
+
+  /**
+   * Give every occupied room a chance to show one of its own or its zone's ambient lines
+   */
+  public processAmbience(): void {
+    for (const zone of this.roomManager.getAllZones()) {
+      const chance = zone.ambientChance ?? DEFAULT_AMBIENT_CHANCE;
+
+      for (const room of this.roomManager.getRoomsInZone(zone.id)) {
+        if (room.players.length === 0) continue;
+
+        const pool = [...room.ambientMessages, ...zone.ambientMessages];
+        if (pool.length === 0 || Math.random() >= chance) continue;
+
+        const message = pool[Math.floor(Math.random() * pool.length)];
+        this.sendToRoom(room, colorize(`${message}\r\n`, 'gray'));
+      }
+    }
+  }
+
+  /**
+   * Send narration to everyone in a room
+   * @returns false if the room doesn't exist
+   */
+  public echoToRoom(roomId: string, message: string): boolean {
+    const room = this.roomManager.getRoom(roomId);
+    if (!room) return false;
+
+    this.sendToRoom(room, message);
+    return true;
+  }
+
+  /**
+   * Send narration to everyone in a zone
+   * @returns false if the zone doesn't exist
+   */
+  public echoToZone(zoneId: string, message: string): boolean {
+    if (!this.roomManager.getZone(zoneId)) return false;
+
+    for (const room of this.roomManager.getRoomsInZone(zoneId)) {
+      this.sendToRoom(room, message);
+    }
+    return true;
+  }
+
+  private sendToRoom(room: Room, message: string): void {
+    for (const username of room.players) {
+      const client = this.findClientByUsername(username);
+
+      // Don't draw over the snake game's screen
+      if (!client || client.state === ClientStateType.SNAKE_GAME) continue;
+
+      writeFormattedMessageToClient(client, message);
+    }
+  }
+}
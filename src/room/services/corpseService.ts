@@ -0,0 +1,153 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ICorpseService } from '../interfaces';
+import { Corpse, ItemQuality, LootEntry, LootTable } from '../../types';
+import { Room } from '../room';
+import { NPC } from '../../combat/npc';
+import { ItemManager } from '../../utils/itemManager';
+import { fromCopper } from '../../utils/currency';
+import { createContextLogger } from '../../utils/logger';
+
+// Create a context-specific logger for corpses and loot
+const corpseLogger = createContextLogger('CorpseService');
+
+// Game ticks a corpse lasts before rotting away and spilling what's left onto the floor
+export const CORPSE_DECAY_TICKS = 30;
+
+// Game ticks only the killer and their fellow attackers may loot a corpse
+export const LOOT_PROTECTION_TICKS = 10;
+
+export class CorpseService implements ICorpseService {
+  private roomManager: {
+    getRoom: (roomId: string) => Room | undefined;
+    getAllRooms: () => Room[];
+  };
+  private notifyPlayersInRoom: (roomId: string, message: string, excludeUsername?: string) => void;
+
+  constructor(
+    roomManager: {
+      getRoom: (roomId: string) => Room | undefined;
+      getAllRooms: () => Room[];
+    },
+    notifyPlayersInRoom: (roomId: string, message: string, excludeUsername?: string) => void
+  ) {
+    this.roomManager = roomManager;
+    this.notifyPlayersInRoom = notifyPlayersInRoom;
+  }
+
+  /**
+   * Leave a slain NPC's corpse in a room, holding its equipment and whatever its loot table drops
+   * @param owners Players who get the first pick of the loot
+   */
+  public createCorpse(roomId: string, npc: NPC, owners: string[]): Corpse | undefined {
+    const room = this.roomManager.getRoom(roomId);
+    if (!room) return undefined;
+
+    const corpse: Corpse = {
+      id: uuidv4(),
+      name: npc.name,
+      items: [],
+      currency: { gold: 0, silver: 0, copper: 0 },
+      owners: [...new Set(owners)],
+      protectedTicks: LOOT_PROTECTION_TICKS,
+      decayTicks: CORPSE_DECAY_TICKS
+    };
+
+    // Whatever the NPC wore and wielded goes down with it
+    corpse.items.push(...npc.dropEquipment());
+
+    if (npc.loot) {
+      this.rollLoot(npc, npc.loot, corpse);
+    }
+
+    room.corpses.push(corpse);
+    corpseLogger.info(`Corpse of ${npc.templateId} left in ${roomId} with ${corpse.items.length} item(s) for ${corpse.owners.join(', ')}`);
+    return corpse;
+  }
+
+  public getCorpses(roomId: string): Corpse[] {
+    return this.roomManager.getRoom(roomId)?.corpses || [];
+  }
+
+  /**
+   * Whether a player may take from a corpse yet
+   */
+  public canLoot(corpse: Corpse, username: string): boolean {
+    return corpse.protectedTicks <= 0 || corpse.owners.some(owner => owner.toLowerCase() === username.toLowerCase());
+  }
+
+  /**
+   * Count down loot protection and decay, rotting corpses whose time is up
+   */
+  public processCorpses(): void {
+    for (const room of this.roomManager.getAllRooms()) {
+      if (room.corpses.length === 0) continue;
+
+      for (const corpse of [...room.corpses]) {
+        corpse.protectedTicks--;
+        corpse.decayTicks--;
+        if (corpse.decayTicks <= 0) {
+          this.decayCorpse(room, corpse);
+        }
+      }
+    }
+  }
+
+  /**
+   * Rot a corpse away; anything nobody took falls to the floor
+   */
+  private decayCorpse(room: Room, corpse: Corpse): void {
+    room.corpses = room.corpses.filter(candidate => candidate !== corpse);
+
+    const itemManager = ItemManager.getInstance();
+    for (const instanceId of corpse.items) {
+      const instance = itemManager.getItemInstance(instanceId);
+      if (instance) {
+        room.addItemInstance(instanceId, instance.templateId);
+      }
+    }
+    room.currency.gold += corpse.currency.gold;
+    room.currency.silver += corpse.currency.silver;
+    room.currency.copper += corpse.currency.copper;
+
+    this.notifyPlayersInRoom(room.id, `The corpse of the ${corpse.name} rots away.\r\n`);
+  }
+
+  private rollLoot(npc: NPC, loot: LootTable, corpse: Corpse): void {
+    const itemManager = ItemManager.getInstance();
+    const rolls = loot.rolls ?? 1;
+
+    for (let roll = 0; roll < rolls; roll++) {
+      if (Math.random() >= (loot.dropChance ?? 1)) continue;
+
+      const entry = this.pickWeighted(loot.entries.map(candidate => [candidate, candidate.weight ?? 1] as [LootEntry, number]));
+      if (!entry) continue;
+
+      const quality = entry.qualities
+        ? this.pickWeighted(Object.entries(entry.qualities) as [ItemQuality, number][])
+        : undefined;
+      const instance = itemManager.createItemInstance(entry.templateId, `npc:${npc.templateId}`, quality ? { quality } : undefined);
+      if (instance) {
+        corpse.items.push(instance.instanceId);
+      }
+    }
+
+    if (loot.currency) {
+      const { min, max } = loot.currency;
+      const amount = min + Math.floor(Math.random() * (Math.max(min, max) - min + 1));
+      corpse.currency = fromCopper(amount);
+    }
+  }
+
+  /**
+   * Pick one option at random, each weighted by its number
+   */
+  private pickWeighted<T>(options: [T, number][]): T | undefined {
+    const total = options.reduce((sum, [, weight]) => sum + Math.max(0, weight), 0);
+    let pick = Math.random() * total;
+    for (const [option, weight] of options) {
+      pick -= Math.max(0, weight);
+      if (pick < 0) return option;
+    }
+    return undefined;
+  }
+}
@@ -31,6 +31,20 @@ export class DirectionHelper implements IDirectionHelper {
     }
   }
 
+  /**
+   * Get the direction of the exit leading back the way you came.
+   * getOppositeDirection describes where someone arrives from ('below', 'above'),
+   * so up and down are mapped back to real exit directions here.
+   */
+  public getReverseDirection(direction: string): string {
+    const opposite = this.getOppositeDirection(direction);
+    switch (opposite) {
+      case 'below': return 'down';
+      case 'above': return 'up';
+      default: return opposite;
+    }
+  }
+
   /**
    * Convert direction abbreviation to full name
    */
@@ -0,0 +1,242 @@
+import { IDoorService } from '../interfaces';
+import { ConnectedClient, DoorState, Exit, User } from '../../types';
+import { Room } from '../room';
+import { colorize } from '../../utils/colors';
+import { writeToClient } from '../../utils/socketWriter';
+import { formatUsername } from '../../utils/formatters';
+import { ItemManager } from '../../utils/itemManager';
+import { getPlayerLogger } from '../../utils/logger';
+
+export class DoorService implements IDoorService {
+  private roomManager: {
+    getRoom: (roomId: string) => Room | undefined;
+    getStartingRoomId: () => string;
+  };
+  private directionHelper: {
+    getReverseDirection: (direction: string) => string;
+    getFullDirectionName: (direction: string) => string;
+  };
+  private notifyPlayersInRoom: (roomId: string, message: string, excludeUsername?: string) => void;
+
+  constructor(
+    roomManager: {
+      getRoom: (roomId: string) => Room | undefined;
+      getStartingRoomId: () => string;
+    },
+    directionHelper: {
+      getReverseDirection: (direction: string) => string;
+      getFullDirectionName: (direction: string) => string;
+    },
+    notifyPlayersInRoom: (roomId: string, message: string, excludeUsername?: string) => void
+  ) {
+    this.roomManager = roomManager;
+    this.directionHelper = directionHelper;
+    this.notifyPlayersInRoom = notifyPlayersInRoom;
+  }
+
+  /**
+   * Open a closed door in the given direction
+   */
+  public openDoor(client: ConnectedClient, direction: string): boolean {
+    const target = this.findDoorExit(client, direction);
+    if (!target || !client.user) return false;
+
+    const { room, exit } = target;
+    const doorName = exit.door!.name || 'door';
+
+    if (exit.door!.state === 'open') {
+      writeToClient(client, colorize(`The ${doorName} is already open.\r\n`, 'yellow'));
+      return false;
+    }
+
+    if (exit.door!.state === 'locked') {
+      writeToClient(client, colorize(`The ${doorName} is locked.\r\n`, 'yellow'));
+      return false;
+    }
+
+    this.setDoorState(room, exit, 'open');
+    this.announceDoorChange(client, room, exit, 'open', 'opens');
+    return true;
+  }
+
+  /**
+   * Close an open door in the given direction
+   */
+  public closeDoor(client: ConnectedClient, direction: string): boolean {
+    const target = this.findDoorExit(client, direction);
+    if (!target || !client.user) return false;
+
+    const { room, exit } = target;
+    const doorName = exit.door!.name || 'door';
+
+    if (exit.door!.state !== 'open') {
+      writeToClient(client, colorize(`The ${doorName} is already closed.\r\n`, 'yellow'));
+      return false;
+    }
+
+    this.setDoorState(room, exit, 'closed');
+    this.announceDoorChange(client, room, exit, 'close', 'closes');
+    return true;
+  }
+
+  /**
+   * Lock a closed door in the given direction, requires the door's key
+   */
+  public lockDoor(client: ConnectedClient, direction: string): boolean {
+    const target = this.findDoorExit(client, direction);
+    if (!target || !client.user) return false;
+
+    const { room, exit } = target;
+    const door = exit.door!;
+    const doorName = door.name || 'door';
+
+    if (door.state === 'locked') {
+      writeToClient(client, colorize(`The ${doorName} is already locked.\r\n`, 'yellow'));
+      return false;
+    }
+
+    if (door.state === 'open') {
+      writeToClient(client, colorize(`You need to close the ${doorName} first.\r\n`, 'yellow'));
+      return false;
+    }
+
+    if (!door.keyId) {
+      writeToClient(client, colorize(`The ${doorName} has no lock.\r\n`, 'yellow'));
+      return false;
+    }
+
+    if (!this.hasKey(client.user, door.keyId)) {
+      writeToClient(client, colorize(`You don't have the key for the ${doorName}.\r\n`, 'yellow'));
+      return false;
+    }
+
+    this.setDoorState(room, exit, 'locked');
+    this.announceDoorChange(client, room, exit, 'lock', 'clicks as it locks');
+    return true;
+  }
+
+  /**
+   * Unlock a locked door in the given direction, requires the door's key
+   */
+  public unlockDoor(client: ConnectedClient, direction: string): boolean {
+    const target = this.findDoorExit(client, direction);
+    if (!target || !client.user) return false;
+
+    const { room, exit } = target;
+    const door = exit.door!;
+    const doorName = door.name || 'door';
+
+    if (door.state !== 'locked') {
+      writeToClient(client, colorize(`The ${doorName} isn't locked.\r\n`, 'yellow'));
+      return false;
+    }
+
+    if (!door.keyId || !this.hasKey(client.user, door.keyId)) {
+      writeToClient(client, colorize(`You don't have the key for the ${doorName}.\r\n`, 'yellow'));
+      return false;
+    }
+
+    this.setDoorState(room, exit, 'closed');
+    this.announceDoorChange(client, room, exit, 'unlock', 'clicks as it unlocks');
+    return true;
+  }
+
+  /**
+   * Find the exit with a door in the given direction of the player's current room,
+   * writing an error message to the client if there isn't one
+   */
+  private findDoorExit(client: ConnectedClient, direction: string): { room: Room, exit: Exit } | null {
+    if (!client.user) return null;
+
+    if (!direction) {
+      writeToClient(client, colorize(`Which direction?\r\n`, 'yellow'));
+      return null;
+    }
+
+    const roomId = client.user.currentRoomId || this.roomManager.getStartingRoomId();
+    const room = this.roomManager.getRoom(roomId);
+    if (!room) {
+      writeToClient(client, colorize(`You're not in a valid room.\r\n`, 'red'));
+      return null;
+    }
+
+    const exit = room.findVisibleExit(direction, client.user.username);
+    if (!exit || !exit.door) {
+      const fullDirectionName = this.directionHelper.getFullDirectionName(direction);
+      writeToClient(client, colorize(`There is no door to the ${fullDirectionName}.\r\n`, 'yellow'));
+      return null;
+    }
+
+    return { room, exit };
+  }
+
+  /**
+   * Set a door's state on this exit and on the matching exit of the room on the other side
+   */
+  private setDoorState(room: Room, exit: Exit, state: DoorState): void {
+    exit.door!.state = state;
+
+    const reverseExit = this.findReverseExit(room, exit);
+    if (reverseExit && reverseExit.door) {
+      reverseExit.door.state = state;
+    }
+  }
+
+  /**
+   * Find the exit in the destination room that leads back through the same door
+   */
+  private findReverseExit(room: Room, exit: Exit): Exit | undefined {
+    if (exit.oneWay) return undefined;
+
+    const otherRoom = this.roomManager.getRoom(exit.roomId);
+    if (!otherRoom) return undefined;
+
+    const exitsBack = otherRoom.exits.filter(e => e.roomId === room.id);
+    const reverseDirection = this.directionHelper.getReverseDirection(exit.direction);
+
+    // Prefer the exit in the reverse direction if several lead back
+    return exitsBack.find(e => e.direction.toLowerCase() === reverseDirection) || exitsBack[0];
+  }
+
+  /**
+   * Check whether the user carries an item made from the key's template
+   */
+  private hasKey(user: User, keyId: string): boolean {
+    const itemManager = ItemManager.getInstance();
+    return user.inventory.items.some(instanceId => {
+      const instance = itemManager.getItemInstance(instanceId);
+      return instance ? instance.templateId === keyId : instanceId === keyId;
+    });
+  }
+
+  /**
+   * Tell the player, the room and the room on the other side about a door change
+   */
+  private announceDoorChange(client: ConnectedClient, room: Room, exit: Exit, verb: string, otherSideText: string): void {
+    if (!client.user) return;
+
+    const doorName = exit.door!.name || 'door';
+    const fullDirectionName = this.directionHelper.getFullDirectionName(exit.direction);
+    const username = client.user.username;
+
+    writeToClient(client, colorize(`You ${verb} the ${doorName} to the ${fullDirectionName}.\r\n`, 'green'));
+
+    this.notifyPlayersInRoom(
+      room.id,
+      `${formatUsername(username)} ${verb}s the ${doorName} to the ${fullDirectionName}.\r\n`,
+      username
+    );
+
+    const reverseExit = this.findReverseExit(room, exit);
+    if (reverseExit && reverseExit.door) {
+      const reverseDirectionName = this.directionHelper.getFullDirectionName(reverseExit.direction);
+      this.notifyPlayersInRoom(
+        exit.roomId,
+        `The ${reverseExit.door.name || 'door'} to the ${reverseDirectionName} ${otherSideText}.\r\n`
+      );
+    }
+
+    const playerLogger = getPlayerLogger(username);
+    playerLogger.info(`Door ${exit.direction} of room ${room.id} set to ${exit.door!.state}`);
+  }
+}
@@ -1,11 +1,28 @@
 import { IEntityRegistryService } from '../interfaces';
-import { ConnectedClient } from '../../types';
+import { ConnectedClient, EquipmentSlot } from '../../types';
 import { Room } from '../room';
 import { NPC } from '../../combat/npc';
 import { colorize } from '../../utils/colors';
 import { writeToClient, writeFormattedMessageToClient } from '../../utils/socketWriter';
 import { formatUsername } from '../../utils/formatters';
 import { systemLogger } from '../../utils/logger';
+import { ItemManager } from '../../utils/itemManager';
+
+// How equipment slots read when looking at what an NPC wears
+const EQUIPMENT_SLOT_NAMES: Record<EquipmentSlot, string> = {
+  [EquipmentSlot.HEAD]: 'on its head',
+  [EquipmentSlot.NECK]: 'around its neck',
+  [EquipmentSlot.CHEST]: 'on its body',
+  [EquipmentSlot.BACK]: 'on its back',
+  [EquipmentSlot.ARMS]: 'on its arms',
+  [EquipmentSlot.HANDS]: 'on its hands',
+  [EquipmentSlot.FINGER]: 'on a finger',
+  [EquipmentSlot.WAIST]: 'around its waist',
+  [EquipmentSlot.LEGS]: 'on its legs',
+  [EquipmentSlot.FEET]: 'on its feet',
+  [EquipmentSlot.MAIN_HAND]: 'wielded',
+  [EquipmentSlot.OFF_HAND]: 'held in its off hand'
+};
 
 export class EntityRegistryService implements IEntityRegistryService {
   private roomManager: {
@@ -168,6 +185,8 @@ export class EntityRegistryService implements IEntityRegistryService {
         // Fallback description if not found in data
         writeToClient(client, colorize(`It's a ${matchingNPC.name} in the room with you.\r\n`, 'cyan'));
       }
+
+      this.showNpcEquipment(client, matchingNPC);
       
       // Notify other players in the room
       this.notifyPlayersInRoom(
@@ -507,4 +526,18 @@ export class EntityRegistryService implements IEntityRegistryService {
     writeToClient(client, colorize(`You don't see anything like that here.\r\n`, 'yellow'));
     return false;
   }
+
+  /**
+   * List what an NPC wears and wields, in slot order
+   */
+  private showNpcEquipment(client: ConnectedClient, npc: NPC): void {
+    const itemManager = ItemManager.getInstance();
+    const lines = Object.values(EquipmentSlot)
+      .filter(slot => npc.equipment[slot])
+      .map(slot => `  ${itemManager.getItemDisplayName(npc.equipment[slot])} ${EQUIPMENT_SLOT_NAMES[slot]}\r\n`);
+    if (lines.length === 0) return;
+
+    writeToClient(client, colorize(`It is using:\r\n`, 'cyan'));
+    writeToClient(client, colorize(lines.join(''), 'white'));
+  }
 }
\ No newline at end of file
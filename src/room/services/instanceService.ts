@@ -0,0 +1,284 @@
+import { IInstanceService } from '../interfaces';
+import { ConnectedClient } from '../../types';
+import { Room } from '../room';
+import { Zone } from '../zone';
+import { NPC } from '../../combat/npc';
+import { ItemManager } from '../../utils/itemManager';
+import { createContextLogger } from '../../utils/logger';
+
+// Create a context-specific logger for dungeon instances
+const instanceLogger = createContextLogger('InstanceService');
+
+// Game ticks an empty instance is kept when its template zone doesn't set a grace period
+export const DEFAULT_INSTANCE_GRACE_TICKS = 50;
+
+// Joins a template room or zone ID to the instance number, e.g. "crypt-entrance#3"
+const INSTANCE_ID_SEPARATOR = '#';
+
+// A party's private copy of a dungeon template zone. There's no grouping system, so the party
+// is everyone standing in the room with the first player to step inside.
+export interface DungeonInstance {
+  id: string; // Also the ID of the transient zone holding the copied rooms
+  templateZoneId: string;
+  members: string[]; // Players allowed into this copy
+  roomIds: Map<string, string>; // template room ID -> instance room ID
+  emptySinceTick?: number;
+}
+
+export class InstanceService implements IInstanceService {
+  private roomManager: {
+    getRoom: (roomId: string) => Room | undefined;
+    getZone: (zoneId: string) => Zone | undefined;
+    getZoneForRoom: (roomId: string) => Zone | undefined;
+    getRoomsInZone: (zoneId: string) => Room[];
+    getStartingRoomId: () => string;
+    serializeRoom: (room: Room, npcsByHomeRoom?: Map<string, NPC[]>) => any;
+    getNpcsByHomeRoom: () => Map<string, NPC[]>;
+    addTransientZone: (zone: Zone, rooms: Room[]) => void;
+    removeTransientZone: (zoneId: string) => Room[];
+  };
+  private npcInteractionService: {
+    instantiateNpcsFromTemplates: (room: Room, npcTemplateIds: string[], npcData: Map<string, any>) => void;
+  };
+  private findClientByUsername: (username: string) => ConnectedClient | undefined;
+  private teleportToRoom: (client: ConnectedClient, roomId: string, message: string, options?: { ignoreNoTeleport?: boolean }) => boolean;
+  private instances: Map<string, DungeonInstance> = new Map();
+  private nextInstanceNumber: number = 1;
+
+  constructor(
+    roomManager: {
+      getRoom: (roomId: string) => Room | undefined;
+      getZone: (zoneId: string) => Zone | undefined;
+      getZoneForRoom: (roomId: string) => Zone | undefined;
+      getRoomsInZone: (zoneId: string) => Room[];
+      getStartingRoomId: () => string;
+      serializeRoom: (room: Room, npcsByHomeRoom?: Map<string, NPC[]>) => any;
+      getNpcsByHomeRoom: () => Map<string, NPC[]>;
+      addTransientZone: (zone: Zone, rooms: Room[]) => void;
+      removeTransientZone: (zoneId: string) => Room[];
+    },
+    npcInteractionService: {
+      instantiateNpcsFromTemplates: (room: Room, npcTemplateIds: string[], npcData: Map<string, any>) => void;
+    },
+    findClientByUsername: (username: string) => ConnectedClient | undefined,
+    teleportToRoom: (client: ConnectedClient, roomId: string, message: string, options?: { ignoreNoTeleport?: boolean }) => boolean
+  ) {
+    this.roomManager = roomManager;
+    this.npcInteractionService = npcInteractionService;
+    this.findClientByUsername = findClientByUsername;
+    this.teleportToRoom = teleportToRoom;
+  }
+
+  /**
+   * Work out which room a player actually enters. Rooms of a dungeon template are
+   * swapped for the matching room in the player's party instance, which is created
+   * on first entry with everyone standing in the room with the player as the party.
+   * @returns the ID of the room to move into, or undefined if there's no way in
+   */
+  public resolveRoomId(username: string, fromRoomId: string, roomId: string): string | undefined {
+    const templateZone = this.roomManager.getZoneForRoom(roomId);
+    if (!templateZone || !templateZone.instance) return roomId;
+
+    let instance = this.findInstanceForMember(templateZone.id, username);
+    if (!instance) {
+      // Nothing gets copied unless the player can actually step into the copy
+      if (!this.roomManager.getRoom(roomId) || !this.findClientByUsername(username)) return undefined;
+
+      const fromRoom = this.roomManager.getRoom(fromRoomId);
+      const party = (fromRoom ? fromRoom.players : [username])
+        .filter(member => member === username || !this.findInstanceForMember(templateZone.id, member));
+      instance = this.createInstance(templateZone, party.includes(username) ? party : [...party, username]);
+      if (!instance) return undefined;
+    }
+
+    return instance.roomIds.get(roomId);
+  }
+
+  public getInstance(instanceId: string): DungeonInstance | undefined {
+    return this.instances.get(instanceId);
+  }
+
+  public getInstanceForRoom(roomId: string): DungeonInstance | undefined {
+    const room = this.roomManager.getRoom(roomId);
+    return room ? this.instances.get(room.zoneId) : undefined;
+  }
+
+  public getInstances(): DungeonInstance[] {
+    return Array.from(this.instances.values());
+  }
+
+  /**
+   * Find where a player in an instance room should be sent back to. Works from the
+   * room ID alone, so it still answers after the instance has been torn down.
+   */
+  public getReturnRoomId(roomId: string): string | undefined {
+    const separator = roomId.lastIndexOf(INSTANCE_ID_SEPARATOR);
+    if (separator <= 0) return undefined;
+
+    const templateZone = this.roomManager.getZoneForRoom(roomId.slice(0, separator));
+    return templateZone?.instance?.returnRoomId;
+  }
+
+  /**
+   * Tear down instances that have stood empty for longer than their grace period
+   * @param tickCount The current game tick
+   */
+  public processInstances(tickCount: number): void {
+    for (const instance of this.getInstances()) {
+      const occupied = this.roomManager.getRoomsInZone(instance.id).some(room => room.players.length > 0);
+      if (occupied) {
+        instance.emptySinceTick = undefined;
+        continue;
+      }
+
+      if (instance.emptySinceTick === undefined) {
+        instance.emptySinceTick = tickCount;
+        continue;
+      }
+
+      const graceTicks = this.roomManager.getZone(instance.templateZoneId)?.instance?.emptyGraceTicks ?? DEFAULT_INSTANCE_GRACE_TICKS;
+      if (tickCount - instance.emptySinceTick >= graceTicks) {
+        this.destroyInstance(instance.id);
+      }
+    }
+  }
+
+  /**
+   * Remove an instance and everything left in it, sending anyone still inside back out
+   * @returns false if the instance doesn't exist
+   */
+  public destroyInstance(instanceId: string): boolean {
+    const instance = this.instances.get(instanceId);
+    if (!instance) return false;
+
+    const returnRoomId = this.getReturnRoomIdForZone(instance.templateZoneId);
+    for (const room of this.roomManager.getRoomsInZone(instance.id)) {
+      for (const username of [...room.players]) {
+        const client = this.findClientByUsername(username);
+        // The room is going away, so a noteleport flag can't keep anyone in it
+        if (!client || !this.teleportToRoom(client, returnRoomId, 'The dungeon fades away around you...', { ignoreNoTeleport: true })) {
+          room.removePlayer(username);
+        }
+      }
+    }
+
+    this.deleteRoomItems(this.roomManager.removeTransientZone(instance.id));
+
+    this.instances.delete(instanceId);
+    instanceLogger.info(`Destroyed instance ${instanceId}`);
+    return true;
+  }
+
+  private findInstanceForMember(templateZoneId: string, username: string): DungeonInstance | undefined {
+    return this.getInstances().find(instance =>
+      instance.templateZoneId === templateZoneId && instance.members.includes(username)
+    );
+  }
+
+  /**
+   * Delete the items nobody picked up from rooms that are going away: those on the floor,
+   * those still in corpses and the gear of the NPCs left standing
+   */
+  private deleteRoomItems(rooms: Room[]): void {
+    const itemManager = ItemManager.getInstance();
+    for (const room of rooms) {
+      for (const itemInstanceId of room.getItemInstances().keys()) {
+        itemManager.deleteItemInstance(itemInstanceId);
+      }
+      for (const corpse of room.corpses) {
+        corpse.items.forEach(itemInstanceId => itemManager.deleteItemInstance(itemInstanceId));
+      }
+      room.npcs.forEach(npc => npc.destroyEquipment());
+    }
+  }
+
+  private getReturnRoomIdForZone(templateZoneId: string): string {
+    const returnRoomId = this.roomManager.getZone(templateZoneId)?.instance?.returnRoomId;
+    return returnRoomId && this.roomManager.getRoom(returnRoomId) ? returnRoomId : this.roomManager.getStartingRoomId();
+  }
+
+  /**
+   * Copy every room of a template zone under new IDs, with fresh NPCs and items
+   * @returns undefined if the copy failed; anything made for it is cleaned up again
+   */
+  private createInstance(templateZone: Zone, members: string[]): DungeonInstance | undefined {
+    const instanceNumber = this.nextInstanceNumber++;
+    const instanceId = `${templateZone.id}${INSTANCE_ID_SEPARATOR}${instanceNumber}`;
+    const templateRooms = this.roomManager.getRoomsInZone(templateZone.id);
+    const roomIds = new Map(templateRooms.map(room => [room.id, `${room.id}${INSTANCE_ID_SEPARATOR}${instanceNumber}`]));
+
+    // The copy never resets on its own; it lives until it's torn down
+    const zone = new Zone({
+      ...templateZone.getMetadata(),
+      id: instanceId,
+      resetPolicy: { mode: 'never' },
+      resets: [],
+      instance: undefined
+    });
+
+    const npcData = NPC.loadNPCData();
+    const npcsByHomeRoom = this.roomManager.getNpcsByHomeRoom();
+    const itemManager = ItemManager.getInstance();
+    const rooms: Room[] = [];
+    try {
+      for (const template of templateRooms) {
+        rooms.push(this.copyRoom(template, instanceId, roomIds, npcData, npcsByHomeRoom, itemManager));
+      }
+    } catch (error) {
+      this.deleteRoomItems(rooms);
+      instanceLogger.error(`Failed to create instance ${instanceId} of zone ${templateZone.id}: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+
+    this.roomManager.addTransientZone(zone, rooms);
+
+    const instance: DungeonInstance = { id: instanceId, templateZoneId: templateZone.id, members, roomIds };
+    this.instances.set(instanceId, instance);
+    instanceLogger.info(`Created instance ${instanceId} of zone ${templateZone.id} for ${members.join(', ')}`);
+    return instance;
+  }
+
+  /**
+   * Copy one template room into an instance
+   */
+  private copyRoom(
+    template: Room,
+    instanceId: string,
+    roomIds: Map<string, string>,
+    npcData: Map<string, any>,
+    npcsByHomeRoom: Map<string, NPC[]>,
+    itemManager: ItemManager
+  ): Room {
+    const roomData = this.roomManager.serializeRoom(template, npcsByHomeRoom);
+    const room = new Room({
+      ...roomData,
+      id: roomIds.get(template.id),
+      zoneId: instanceId,
+      instanceOf: template.id,
+      // Exits within the dungeon lead to this instance's copies, the rest lead back out
+      exits: template.exits.map(exit => ({
+        ...exit,
+        roomId: roomIds.get(exit.roomId) || exit.roomId,
+        ...(exit.door && { door: { ...exit.door } })
+      })),
+      items: [...template.items],
+      itemInstances: [],
+      npcs: [],
+      corpses: [],
+      currency: { ...template.currency },
+      resets: [],
+      resetInterval: undefined,
+      landmark: undefined
+    });
+
+    this.npcInteractionService.instantiateNpcsFromTemplates(room, roomData.npcs, npcData);
+    for (const templateId of template.getItemInstances().values()) {
+      const item = itemManager.createItemInstance(templateId, 'instance');
+      if (item) {
+        room.addItemInstance(item.instanceId, templateId);
+      }
+    }
+
+    return room;
+  }
+}
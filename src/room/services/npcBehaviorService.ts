@@ -0,0 +1,158 @@
+import { INPCBehaviorService } from '../interfaces';
+import { Exit } from '../../types';
+import { Room } from '../room';
+import { NPC } from '../../combat/npc';
+import { DirectionHelper } from './directionHelper';
+import { formatUsername } from '../../utils/formatters';
+import { createContextLogger } from '../../utils/logger';
+
+// Create a context-specific logger for NPC movement
+const behaviorLogger = createContextLogger('NPCBehaviorService');
+
+// Chance per tick that a wandering NPC takes a step, unless its template sets one
+export const DEFAULT_WANDER_CHANCE = 0.1;
+
+// Chance per tick that a patrolling NPC takes the next step of its route, unless its template sets one
+export const DEFAULT_PATROL_CHANCE = 0.5;
+
+export class NPCBehaviorService implements INPCBehaviorService {
+  private roomManager: {
+    getRoom: (roomId: string) => Room | undefined;
+    getAllRooms: () => Room[];
+  };
+  private directionHelper: DirectionHelper;
+  private notifyPlayersInRoom: (roomId: string, message: string, excludeUsername?: string) => void;
+
+  constructor(
+    roomManager: {
+      getRoom: (roomId: string) => Room | undefined;
+      getAllRooms: () => Room[];
+    },
+    directionHelper: DirectionHelper,
+    notifyPlayersInRoom: (roomId: string, message: string, excludeUsername?: string) => void
+  ) {
+    this.roomManager = roomManager;
+    this.directionHelper = directionHelper;
+    this.notifyPlayersInRoom = notifyPlayersInRoom;
+  }
+
+  /**
+   * Give every NPC that isn't a sentinel the chance to move on this tick
+   */
+  public processNpcBehaviors(): void {
+    // Collect first so an NPC that moves into a room later in the list doesn't move twice
+    const movers: Array<{ npc: NPC; room: Room }> = [];
+    for (const room of this.roomManager.getAllRooms()) {
+      for (const npc of room.npcs.values()) {
+        if (npc.behavior.type !== 'sentinel') {
+          movers.push({ npc, room });
+        }
+      }
+    }
+
+    for (const { npc, room } of movers) {
+      // NPCs stand their ground while they're in a fight, including one they joined to help an ally
+      if (!npc.isAlive() || npc.isInCombat()) continue;
+
+      switch (npc.behavior.type) {
+        case 'wander':
+          this.wander(npc, room);
+          break;
+        case 'patrol':
+          this.patrol(npc, room);
+          break;
+        case 'follow':
+          this.follow(npc, room);
+          break;
+      }
+    }
+  }
+
+  /**
+   * Take a random step to another room of the same zone
+   */
+  private wander(npc: NPC, room: Room): void {
+    if (Math.random() >= (npc.behavior.moveChance ?? DEFAULT_WANDER_CHANCE)) return;
+
+    const exits = room.exits.filter(exit => {
+      const destination = this.roomManager.getRoom(exit.roomId);
+      return destination && destination.zoneId === room.zoneId && this.canPass(exit, destination);
+    });
+    if (exits.length === 0) return;
+
+    const exit = exits[Math.floor(Math.random() * exits.length)];
+    this.moveNpc(npc, room, exit, 'wanders');
+  }
+
+  /**
+   * Take the next step of the patrol route; a blocked step is tried again on a later tick
+   */
+  private patrol(npc: NPC, room: Room): void {
+    const route = npc.behavior.route || [];
+    if (route.length === 0) return;
+    if (Math.random() >= (npc.behavior.moveChance ?? DEFAULT_PATROL_CHANCE)) return;
+
+    const step = npc.patrolStep % route.length;
+    const direction = this.directionHelper.getFullDirectionName(route[step]);
+    const exit = room.exits.find(candidate => this.directionHelper.getFullDirectionName(candidate.direction) === direction);
+    const destination = exit && this.roomManager.getRoom(exit.roomId);
+    if (!exit || !destination || !this.canPass(exit, destination)) return;
+
+    this.moveNpc(npc, room, exit, 'heads');
+    npc.patrolStep = (step + 1) % route.length;
+  }
+
+  /**
+   * Step after the followed player when they've moved to a neighbouring room.
+   * An NPC without a target takes up with the first player it finds in its room.
+   */
+  private follow(npc: NPC, room: Room): void {
+    if (!npc.followTarget) {
+      npc.followTarget = room.players[0];
+      return;
+    }
+
+    const target = npc.followTarget.toLowerCase();
+    if (room.players.some(player => player.toLowerCase() === target)) return;
+
+    const exit = room.exits.find(candidate => {
+      const destination = this.roomManager.getRoom(candidate.roomId);
+      return destination
+        && destination.players.some(player => player.toLowerCase() === target)
+        && this.canPass(candidate, destination);
+    });
+
+    if (exit) {
+      this.moveNpc(npc, room, exit, 'heads', npc.followTarget);
+    } else if (!npc.behavior.target) {
+      // Lost track of them, so the next player will do
+      npc.followTarget = undefined;
+    }
+  }
+
+  /**
+   * NPCs don't open doors, use exits players have to search for, or enter nomob rooms
+   */
+  private canPass(exit: Exit, destination: Room): boolean {
+    if (exit.hidden) return false;
+    if (exit.door && exit.door.state !== 'open') return false;
+    return !destination.hasFlag('nomob');
+  }
+
+  private moveNpc(npc: NPC, fromRoom: Room, exit: Exit, verb: string, followed?: string): void {
+    const toRoom = this.roomManager.getRoom(exit.roomId);
+    if (!toRoom) return;
+
+    const direction = this.directionHelper.getFullDirectionName(exit.direction);
+    const fromDirection = this.directionHelper.getOppositeDirection(direction);
+
+    fromRoom.removeNPC(npc.instanceId);
+    toRoom.addNPC(npc);
+
+    const following = followed ? `, following ${formatUsername(followed)}` : '';
+    this.notifyPlayersInRoom(fromRoom.id, `The ${npc.name} ${verb} ${direction}.\r\n`);
+    this.notifyPlayersInRoom(toRoom.id, `A ${npc.name} arrives from the ${fromDirection}${following}.\r\n`);
+
+    behaviorLogger.debug(`NPC ${npc.templateId} (${npc.instanceId}) moved from ${fromRoom.id} to ${toRoom.id}`);
+  }
+}
@@ -33,6 +33,7 @@ export class NPCInteractionService implements INPCInteractionService {
         // Create a new NPC instance from the template
         const npcTemplate = npcData.get(templateId);
         const npc = NPC.fromNPCData(npcTemplate);
+        npc.homeRoomId = room.id;
         
         // Add the NPC to the room
         room.addNPC(npc);
@@ -49,6 +50,7 @@ export class NPCInteractionService implements INPCInteractionService {
           false,     // isPassive
           50         // experienceValue
         );
+        defaultNpc.homeRoomId = room.id;
         room.addNPC(defaultNpc);
         systemLogger.info(`Added default NPC instance ${defaultNpc.instanceId} (template: ${templateId}) to room ${room.id}`);
       }
@@ -62,7 +64,8 @@ export class NPCInteractionService implements INPCInteractionService {
     // Load NPC data from JSON
     const npcData = NPC.loadNPCData();
     
-    // Clear existing NPCs first
+    // Clear existing NPCs first, along with their gear
+    room.npcs.forEach(npc => npc.destroyEquipment());
     room.npcs.clear();
     
     // Add NPCs based on room type or ID
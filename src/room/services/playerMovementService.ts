@@ -17,6 +17,9 @@ export class PlayerMovementService implements IPlayerMovementService {
   };
   private notifyPlayersInRoom: (roomId: string, message: string, excludeUsername?: string) => void;
   private clients: Map<string, ConnectedClient>;
+  private isMovementBlocked: (username: string) => boolean;
+  private getStatModifiers: (username: string) => { [stat: string]: number };
+  private resolveInstanceRoomId: (username: string, fromRoomId: string, roomId: string) => string | undefined;
 
   constructor(
     roomManager: {
@@ -28,12 +31,18 @@ export class PlayerMovementService implements IPlayerMovementService {
       getFullDirectionName: (direction: string) => string;
     },
     notifyPlayersInRoom: (roomId: string, message: string, excludeUsername?: string) => void,
-    clients: Map<string, ConnectedClient>
+    clients: Map<string, ConnectedClient>,
+    isMovementBlocked: (username: string) => boolean,
+    getStatModifiers: (username: string) => { [stat: string]: number },
+    resolveInstanceRoomId: (username: string, fromRoomId: string, roomId: string) => string | undefined
   ) {
     this.roomManager = roomManager;
     this.directionHelper = directionHelper;
     this.notifyPlayersInRoom = notifyPlayersInRoom;
     this.clients = clients;
+    this.isMovementBlocked = isMovementBlocked;
+    this.getStatModifiers = getStatModifiers;
+    this.resolveInstanceRoomId = resolveInstanceRoomId;
   }
 
   /**
@@ -69,6 +78,12 @@ export class PlayerMovementService implements IPlayerMovementService {
       return false;
     }
 
+    // Effects such as MOVEMENT_BLOCK stop the player as well
+    if (this.isMovementBlocked(client.user.username)) {
+      writeToClient(client, colorize(`You are unable to move.\r\n`, 'red'));
+      return false;
+    }
+
     // Get current room
     const currentRoomId = client.user.currentRoomId || this.roomManager.getStartingRoomId();
     const currentRoom = this.roomManager.getRoom(currentRoomId);
@@ -79,9 +94,10 @@ export class PlayerMovementService implements IPlayerMovementService {
       return false; // This will be handled by teleport service
     }
 
-    // Check if exit exists
-    const nextRoomId = currentRoom.getExit(direction);
-    if (!nextRoomId) {
+    // Check if exit exists; hidden exits the player hasn't found don't count
+    const exit = currentRoom.findVisibleExit(direction, client.user.username);
+    const exitRoomId = exit ? exit.roomId : null;
+    if (!exit || !exitRoomId) {
       writeToClient(client, colorize(`There is no exit in that direction.\r\n`, 'red'));
       
       // Notify other players in the room about the wall collision
@@ -96,6 +112,19 @@ export class PlayerMovementService implements IPlayerMovementService {
       return false;
     }
 
+    // Closed and locked doors block the way
+    if (exit.door && exit.door.state !== 'open') {
+      writeToClient(client, colorize(`The ${exit.door.name || 'door'} is closed.\r\n`, 'yellow'));
+      return false;
+    }
+
+    // Entering a dungeon template leads into the party's own instance of it
+    const nextRoomId = this.resolveInstanceRoomId(client.user.username, currentRoomId, exitRoomId);
+    if (!nextRoomId) {
+      writeToClient(client, colorize(`You can't go that way right now.\r\n`, 'yellow'));
+      return false;
+    }
+
     // Get destination room
     const nextRoom = this.roomManager.getRoom(nextRoomId);
     if (!nextRoom) {
@@ -118,8 +147,9 @@ export class PlayerMovementService implements IPlayerMovementService {
     );
 
     // Calculate movement delay based on agility
-    // Default to 10 if agility is undefined
-    const agility = client.user.agility || 10;
+    // Default to 10 if agility is undefined, effects such as storms can lower it
+    const agilityModifier = this.getStatModifiers(client.user.username).agility || 0;
+    const agility = Math.max((client.user.agility || 10) + agilityModifier, 0);
     const delay = this.calculateMovementDelay(agility);
 
     // Inform player they're moving - use writeToClient instead of writeFormattedMessageToClient
@@ -162,6 +192,14 @@ export class PlayerMovementService implements IPlayerMovementService {
         // NOW update user's current room
         client.user.currentRoomId = nextRoomId;
 
+        // Remember the room so it shows up on the player's map; instance rooms don't outlive the visit
+        if (!client.user.exploredRooms) {
+          client.user.exploredRooms = [];
+        }
+        if (!nextRoom.instanceOf && !client.user.exploredRooms.includes(nextRoomId)) {
+          client.user.exploredRooms.push(nextRoomId);
+        }
+
         // Log the player's movement
         const playerLogger = getPlayerLogger(client.user.username);
         playerLogger.info(`Moved to room ${nextRoomId}: ${nextRoom.name}`);
@@ -216,12 +254,123 @@ export class PlayerMovementService implements IPlayerMovementService {
         
         // Force redraw of the prompt to ensure it appears
         drawCommandPrompt(client);
+        
+        // Take the next travel step after any queued commands had a chance to cancel it
+        if (client.stateData?.travelPath) {
+          setTimeout(() => this.continueTravel(client), 200);
+        }
       }
     }, delay);
     
     return true;
   }
 
+  /**
+   * Find the shortest list of directions from one room to another over open exits
+   * @param username Only hidden exits this player has discovered are used
+   * @returns null if the destination can't be reached
+   */
+  public findPath(fromRoomId: string, toRoomId: string, username?: string): string[] | null {
+    if (fromRoomId === toRoomId) return [];
+
+    const previous = new Map<string, { roomId: string, direction: string }>();
+    const visited = new Set<string>([fromRoomId]);
+    const queue: string[] = [fromRoomId];
+
+    while (queue.length > 0) {
+      const roomId = queue.shift()!;
+      const room = this.roomManager.getRoom(roomId);
+      if (!room) continue;
+
+      for (const exit of room.getVisibleExits(username)) {
+        // Closed doors have to be opened by hand
+        if (visited.has(exit.roomId) || (exit.door && exit.door.state !== 'open')) continue;
+
+        visited.add(exit.roomId);
+        previous.set(exit.roomId, { roomId, direction: exit.direction });
+
+        if (exit.roomId === toRoomId) {
+          const path: string[] = [];
+          for (let step = previous.get(toRoomId); step; step = previous.get(step.roomId)) {
+            path.unshift(step.direction);
+          }
+          return path;
+        }
+
+        queue.push(exit.roomId);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Start walking a list of directions, one delayed move at a time
+   * @returns true if the first step was taken
+   */
+  public startTravel(client: ConnectedClient, directions: string[]): boolean {
+    if (!client.user) return false;
+
+    if (client.user.inCombat) {
+      writeToClient(client, colorize(`You can't travel while in combat!\r\n`, 'red'));
+      return false;
+    }
+
+    if (client.stateData?.isMoving) {
+      writeToClient(client, colorize(`You are already on the move.\r\n`, 'yellow'));
+      return false;
+    }
+
+    if (!client.stateData) {
+      client.stateData = {};
+    }
+    client.stateData.travelPath = [...directions];
+
+    return this.continueTravel(client);
+  }
+
+  /**
+   * Stop any travel in progress; the current move still finishes
+   * @returns true if the player was traveling
+   */
+  public cancelTravel(client: ConnectedClient, message: string = 'You stop traveling.'): boolean {
+    if (!client.stateData?.travelPath) return false;
+
+    delete client.stateData.travelPath;
+    writeFormattedMessageToClient(client, colorize(`${message}\r\n`, 'yellow'));
+    return true;
+  }
+
+  private continueTravel(client: ConnectedClient): boolean {
+    const path = client.stateData?.travelPath as string[] | undefined;
+    if (!client.user || !path) return false;
+
+    // The player set off somewhere else by hand
+    if (client.stateData.isMoving) {
+      delete client.stateData.travelPath;
+      return false;
+    }
+
+    if (client.user.inCombat) {
+      this.cancelTravel(client, 'Combat interrupts your travel!');
+      return false;
+    }
+
+    const direction = path.shift();
+    if (!direction) {
+      delete client.stateData.travelPath;
+      writeFormattedMessageToClient(client, colorize(`You have reached your destination.\r\n`, 'green'));
+      return true;
+    }
+
+    if (!this.movePlayerWithDelay(client, direction)) {
+      this.cancelTravel(client, 'Your travel has been interrupted.');
+      return false;
+    }
+
+    return true;
+  }
+
   // Original movePlayer method kept for backward compatibility
   public movePlayer(client: ConnectedClient, direction: string): boolean {
     return this.movePlayerWithDelay(client, direction);
@@ -0,0 +1,174 @@
+import { IRoomResetService } from '../interfaces';
+import { ResetRule } from '../../types';
+import { Room } from '../room';
+import { Zone } from '../zone';
+import { NPC } from '../../combat/npc';
+import { ItemManager } from '../../utils/itemManager';
+import { createContextLogger } from '../../utils/logger';
+
+// Create a context-specific logger for resets
+const resetLogger = createContextLogger('RoomResetService');
+
+// Reset interval used when neither the room nor its zone defines one
+export const DEFAULT_RESET_INTERVAL_TICKS = 100;
+
+export class RoomResetService implements IRoomResetService {
+  private roomManager: {
+    getRoom: (roomId: string) => Room | undefined;
+    getAllRooms: () => Room[];
+    getAllZones: () => Zone[];
+    getRoomsInZone: (zoneId: string) => Room[];
+  };
+  private npcInteractionService: {
+    instantiateNpcsFromTemplates: (room: Room, npcTemplateIds: string[], npcData: Map<string, any>) => void;
+  };
+  private notifyPlayersInRoom: (roomId: string, message: string, excludeUsername?: string) => void;
+
+  constructor(
+    roomManager: {
+      getRoom: (roomId: string) => Room | undefined;
+      getAllRooms: () => Room[];
+      getAllZones: () => Zone[];
+      getRoomsInZone: (zoneId: string) => Room[];
+    },
+    npcInteractionService: {
+      instantiateNpcsFromTemplates: (room: Room, npcTemplateIds: string[], npcData: Map<string, any>) => void;
+    },
+    notifyPlayersInRoom: (roomId: string, message: string, excludeUsername?: string) => void
+  ) {
+    this.roomManager = roomManager;
+    this.npcInteractionService = npcInteractionService;
+    this.notifyPlayersInRoom = notifyPlayersInRoom;
+  }
+
+  /**
+   * Process resets that are due on this tick
+   * @param tickCount The current game tick
+   */
+  public processResets(tickCount: number): void {
+    for (const zone of this.roomManager.getAllZones()) {
+      if (zone.resetPolicy.mode === 'never') continue;
+
+      const rooms = this.roomManager.getRoomsInZone(zone.id);
+      const zoneInterval = zone.resetPolicy.intervalTicks || DEFAULT_RESET_INTERVAL_TICKS;
+
+      // Zones that only reset when empty wait until the last player has left
+      if (zone.resetPolicy.mode === 'empty' && rooms.some(room => room.players.length > 0)) {
+        continue;
+      }
+
+      // Room rules may use their own interval
+      for (const room of rooms) {
+        const interval = room.resetInterval || zoneInterval;
+        if (room.resets.length > 0 && tickCount % interval === 0) {
+          this.resetRoom(room, room.resets);
+        }
+      }
+
+      // Zone rules each target a room in the zone
+      if (zone.resets.length > 0 && tickCount % zoneInterval === 0) {
+        this.resetZoneRules(zone);
+      }
+    }
+  }
+
+  /**
+   * Run every reset rule of a zone right away, so a freshly loaded zone doesn't
+   * stand empty until its first reset is due
+   */
+  public resetZone(zone: Zone): void {
+    for (const room of this.roomManager.getRoomsInZone(zone.id)) {
+      if (room.resets.length > 0) {
+        this.resetRoom(room, room.resets);
+      }
+    }
+    if (zone.resets.length > 0) {
+      this.resetZoneRules(zone);
+    }
+  }
+
+  private resetZoneRules(zone: Zone): void {
+    for (const rule of zone.resets) {
+      const room = rule.roomId ? this.roomManager.getRoom(rule.roomId) : undefined;
+      if (!room || room.zoneId !== zone.id) {
+        resetLogger.warn(`Zone ${zone.id} has a reset rule for unknown room '${rule.roomId}'`);
+        continue;
+      }
+      this.resetRoom(room, [rule]);
+    }
+  }
+
+  /**
+   * Respawn whatever is missing in a room according to the given rules
+   */
+  private resetRoom(room: Room, rules: ResetRule[]): void {
+    for (const rule of rules) {
+      if (rule.type === 'npc') {
+        this.resetNpcs(room, rule);
+      } else {
+        this.resetItems(room, rule);
+      }
+    }
+  }
+
+  private resetNpcs(room: Room, rule: ResetRule): void {
+    const missing = rule.maxCount - this.countNpcsHomedIn(room, rule.templateId);
+    if (missing <= 0) return;
+
+    const npcData = NPC.loadNPCData();
+    if (!npcData.has(rule.templateId)) {
+      resetLogger.warn(`Room ${room.id} has a reset rule for unknown NPC template '${rule.templateId}'`);
+      return;
+    }
+
+    this.npcInteractionService.instantiateNpcsFromTemplates(
+      room,
+      new Array(missing).fill(rule.templateId),
+      npcData
+    );
+
+    const npcName = npcData.get(rule.templateId)!.name;
+    const message = missing === 1 ? `A ${npcName} arrives.\r\n` : `${missing} ${npcName}s arrive.\r\n`;
+    this.notifyPlayersInRoom(room.id, message);
+
+    resetLogger.info(`Reset respawned ${missing} x ${rule.templateId} in room ${room.id}`);
+  }
+
+  /**
+   * Count the NPCs of a template spawned for a room, including those that have wandered off;
+   * NPCs without a home room count where they stand
+   */
+  private countNpcsHomedIn(room: Room, templateId: string): number {
+    let count = 0;
+    for (const other of this.roomManager.getAllRooms()) {
+      for (const npc of other.findNPCsByTemplateId(templateId)) {
+        if ((npc.homeRoomId ?? other.id) === room.id) count++;
+      }
+    }
+    return count;
+  }
+
+  private resetItems(room: Room, rule: ResetRule): void {
+    const present = Array.from(room.getItemInstances().values())
+      .filter(templateId => templateId === rule.templateId).length;
+    const missing = rule.maxCount - present;
+    if (missing <= 0) return;
+
+    const itemManager = ItemManager.getInstance();
+    let spawned = 0;
+    for (let i = 0; i < missing; i++) {
+      const instance = itemManager.createItemInstance(rule.templateId, 'reset');
+      if (!instance) {
+        resetLogger.warn(`Room ${room.id} has a reset rule for unknown item template '${rule.templateId}'`);
+        break;
+      }
+      room.addItemInstance(instance.instanceId, rule.templateId);
+      itemManager.addItemHistory(instance.instanceId, 'spawn', `Spawned by reset in room ${room.id}`);
+      spawned++;
+    }
+
+    if (spawned > 0) {
+      resetLogger.info(`Reset respawned ${spawned} x ${rule.templateId} in room ${room.id}`);
+    }
+  }
+}
@@ -13,6 +13,7 @@ export class TeleportationService implements ITeleportationService {
     getAllRooms: () => Room[];
   };
   private notifyPlayersInRoom: (roomId: string, message: string, excludeUsername?: string) => void;
+  private getInstanceReturnRoomId: (roomId: string) => string | undefined;
 
   constructor(
     roomManager: { 
@@ -20,10 +21,12 @@ export class TeleportationService implements ITeleportationService {
       getStartingRoomId: () => string;
       getAllRooms: () => Room[];
     },
-    notifyPlayersInRoom: (roomId: string, message: string, excludeUsername?: string) => void
+    notifyPlayersInRoom: (roomId: string, message: string, excludeUsername?: string) => void,
+    getInstanceReturnRoomId: (roomId: string) => string | undefined
   ) {
     this.roomManager = roomManager;
     this.notifyPlayersInRoom = notifyPlayersInRoom;
+    this.getInstanceReturnRoomId = getInstanceReturnRoomId;
   }
 
   /**
@@ -51,49 +54,85 @@ export class TeleportationService implements ITeleportationService {
       return false;
     }
 
+    // Players left in a dungeon instance that has since been torn down go back to its entrance
+    const returnRoomId = currentRoomId ? this.getInstanceReturnRoomId(currentRoomId) : undefined;
+    if (returnRoomId && this.roomManager.getRoom(returnRoomId)) {
+      return this.teleportToRoom(client, returnRoomId, 'The dungeon you were in has faded away...', { ignoreNoTeleport: true });
+    }
+
     // Player is in an invalid room, teleport them to the starting room
     return this.teleportToStartingRoom(client);
   }
 
   /**
-   * Forcefully teleports a player to the starting room
+   * Forcefully teleports a player to the starting room. This is a rescue for players
+   * lost in the void, so noteleport rooms don't hold on to them.
    * @param client The connected client
    * @returns true if teleport was successful, false otherwise
    */
   public teleportToStartingRoom(client: ConnectedClient): boolean {
+    return this.teleportToRoom(
+      client,
+      this.roomManager.getStartingRoomId(),
+      'You are being teleported to a safe location...',
+      { ignoreNoTeleport: true }
+    );
+  }
+
+  /**
+   * Move a player straight into a room, such as into or out of a dungeon instance
+   * @param client The connected client
+   * @param roomId The room to move the player to
+   * @param message Shown to the player before the new room's description
+   * @param options ignoreNoTeleport lets rescues (death, lost players, rooms being torn down)
+   *   take the player out of a room flagged noteleport
+   * @returns true if teleport was successful, false otherwise
+   */
+  public teleportToRoom(
+    client: ConnectedClient,
+    roomId: string,
+    message: string,
+    options: { ignoreNoTeleport?: boolean } = {}
+  ): boolean {
     if (!client.user) return false;
 
-    const startingRoomId = this.roomManager.getStartingRoomId();
-    const startingRoom = this.roomManager.getRoom(startingRoomId);
+    const room = this.roomManager.getRoom(roomId);
+    if (!room) {
+      systemLogger.error(`Error: Teleport destination room ${roomId} does not exist!`);
+      return false;
+    }
 
-    if (!startingRoom) {
-      systemLogger.error("Error: Starting room does not exist!");
+    // Rooms flagged noteleport hold on to whoever is in them
+    const currentRoom = client.user.currentRoomId ? this.roomManager.getRoom(client.user.currentRoomId) : undefined;
+    if (!options.ignoreNoTeleport && currentRoom && currentRoom.hasFlag('noteleport')) {
+      writeToClient(client, colorize(`A strange force prevents you from being teleported.\r\n`, 'yellow'));
+      getPlayerLogger(client.user.username).info(`Teleport blocked in noteleport room ${currentRoom.id}`);
       return false;
     }
 
     // Remove the player from any room they might be in
     this.removePlayerFromAllRooms(client.user.username);
-    // Add the player to the starting room
-    startingRoom.addPlayer(client.user.username);
+    // Add the player to the destination room
+    room.addPlayer(client.user.username);
     // Update the player's current room ID
-    client.user.currentRoomId = startingRoomId;
+    client.user.currentRoomId = roomId;
 
     // Notify the player about the teleport
-    writeToClient(client, colorize(`You are being teleported to a safe location...\r\n`, 'yellow'));
+    writeToClient(client, colorize(`${message}\r\n`, 'yellow'));
     
     // Show the new room description
-    writeToClient(client, startingRoom.getDescriptionExcludingPlayer(client.user.username));
+    writeToClient(client, room.getDescriptionExcludingPlayer(client.user.username));
     
-    // Announce player's arrival in the starting room
+    // Announce player's arrival in the destination room
     this.notifyPlayersInRoom(
-      startingRoomId,
+      roomId,
       `${formatUsername(client.user.username)} suddenly appears in a flash of light!\r\n`,
       client.user.username
     );
 
     // Log the teleportation
     const playerLogger = getPlayerLogger(client.user.username);
-    playerLogger.info(`Teleported to starting room: ${startingRoom.name}`);
+    playerLogger.info(`Teleported to room ${roomId}: ${room.name}`);
     
     return true;
   }
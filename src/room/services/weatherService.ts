@@ -0,0 +1,180 @@
+import { IWeatherService } from '../interfaces';
+import { WeatherType } from '../../types';
+import { ActiveEffect, EffectType } from '../../types/effects';
+import { Room } from '../room';
+import { Zone } from '../zone';
+import { GameClock, Season } from '../../timer/gameClock';
+import { colorize } from '../../utils/colors';
+import { createContextLogger } from '../../utils/logger';
+
+// Create a context-specific logger for weather
+const weatherLogger = createContextLogger('WeatherService');
+
+// Game ticks between chances for a zone's weather to change
+export const WEATHER_CHANGE_INTERVAL_TICKS = 30;
+
+// Chance that the weather simply carries on when a change is due
+const WEATHER_PERSISTENCE = 0.5;
+
+// Weather effects are refreshed every tick while a player is out in it, and wear off shortly after
+const WEATHER_EFFECT_TICKS = 3;
+
+// Relative chance of each kind of weather per season
+const SEASON_WEATHER_WEIGHTS: { [season in Season]: { [weather in WeatherType]: number } } = {
+  winter: { clear: 4, rain: 0, storm: 1, snow: 3, fog: 2 },
+  spring: { clear: 4, rain: 3, storm: 1, snow: 0, fog: 2 },
+  summer: { clear: 6, rain: 2, storm: 2, snow: 0, fog: 0 },
+  autumn: { clear: 4, rain: 3, storm: 1, snow: 0, fog: 2 }
+};
+
+// Broadcast to outdoor rooms when the weather turns
+const WEATHER_CHANGE_MESSAGES: { [weather in WeatherType]: string } = {
+  clear: 'The clouds part and the sky clears.',
+  rain: 'It begins to rain.',
+  storm: 'Thunder rumbles as a storm rolls in.',
+  snow: 'Snow begins to fall.',
+  fog: 'A thick fog rolls in.'
+};
+
+const WEATHER_DESCRIPTIONS: { [weather in WeatherType]: string } = {
+  clear: 'The sky is clear.',
+  rain: 'It is raining steadily.',
+  storm: 'A storm is raging, with howling wind and lashing rain.',
+  snow: 'Snow is falling gently.',
+  fog: 'A thick fog hangs in the air, hiding everything beyond arm\'s reach.'
+};
+
+export class WeatherService implements IWeatherService {
+  private roomManager: {
+    getAllZones: () => Zone[];
+    getRoomsInZone: (zoneId: string) => Room[];
+  };
+  private notifyPlayersInRoom: (roomId: string, message: string, excludeUsername?: string) => void;
+  private getEffectManager: () => {
+    getEffectsForTarget: (targetId: string, isPlayer: boolean) => ActiveEffect[];
+    addEffect: (targetId: string, isPlayer: boolean, effectData: Omit<ActiveEffect, 'id' | 'remainingTicks' | 'lastTickApplied' | 'lastRealTimeApplied'>) => void;
+    refreshEffectDuration: (effectId: string, durationTicks: number) => boolean;
+  };
+  private zoneWeather: Map<string, WeatherType> = new Map();
+
+  constructor(
+    roomManager: {
+      getAllZones: () => Zone[];
+      getRoomsInZone: (zoneId: string) => Room[];
+    },
+    notifyPlayersInRoom: (roomId: string, message: string, excludeUsername?: string) => void,
+    getEffectManager: () => {
+      getEffectsForTarget: (targetId: string, isPlayer: boolean) => ActiveEffect[];
+      addEffect: (targetId: string, isPlayer: boolean, effectData: Omit<ActiveEffect, 'id' | 'remainingTicks' | 'lastTickApplied' | 'lastRealTimeApplied'>) => void;
+      refreshEffectDuration: (effectId: string, durationTicks: number) => boolean;
+    }
+  ) {
+    this.roomManager = roomManager;
+    this.notifyPlayersInRoom = notifyPlayersInRoom;
+    this.getEffectManager = getEffectManager;
+  }
+
+  /**
+   * Roll for weather changes when they're due and expose players outdoors to the weather
+   * @param tickCount The current game tick
+   */
+  public processWeather(tickCount: number): void {
+    for (const zone of this.roomManager.getAllZones()) {
+      if (tickCount % WEATHER_CHANGE_INTERVAL_TICKS === 0 && Math.random() >= WEATHER_PERSISTENCE) {
+        const weather = this.rollWeather();
+        if (weather !== this.getWeather(zone.id)) {
+          this.setWeather(zone.id, weather);
+        }
+      }
+
+      this.applyWeatherEffects(zone.id);
+    }
+  }
+
+  public getWeather(zoneId: string): WeatherType {
+    return this.zoneWeather.get(zoneId) || 'clear';
+  }
+
+  /**
+   * Change a zone's weather and tell everyone outdoors in it
+   */
+  public setWeather(zoneId: string, weather: WeatherType): void {
+    this.zoneWeather.set(zoneId, weather);
+    weatherLogger.info(`Weather in zone ${zoneId} is now ${weather}`);
+
+    const message = colorize(`${WEATHER_CHANGE_MESSAGES[weather]}\r\n`, 'cyan');
+    for (const room of this.getOutdoorRoomsWithPlayers(zoneId)) {
+      this.notifyPlayersInRoom(room.id, message);
+    }
+  }
+
+  public getWeatherDescription(weather: WeatherType): string {
+    return WEATHER_DESCRIPTIONS[weather];
+  }
+
+  private rollWeather(): WeatherType {
+    const weights = SEASON_WEATHER_WEIGHTS[GameClock.getInstance().getSeason()];
+    const entries = Object.entries(weights) as [WeatherType, number][];
+    const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+
+    let roll = Math.random() * total;
+    for (const [weather, weight] of entries) {
+      roll -= weight;
+      if (roll < 0) return weather;
+    }
+    return 'clear';
+  }
+
+  private getOutdoorRoomsWithPlayers(zoneId: string): Room[] {
+    return this.roomManager.getRoomsInZone(zoneId)
+      .filter(room => room.players.length > 0 && !room.hasFlag('indoors'));
+  }
+
+  /**
+   * Storms slow players down and fog hides adjacent rooms. The effect is kept
+   * fresh while the player stays outdoors and wears off once they're sheltered.
+   */
+  private applyWeatherEffects(zoneId: string): void {
+    const weather = this.getWeather(zoneId);
+    if (weather !== 'storm' && weather !== 'fog') return;
+
+    const effectManager = this.getEffectManager();
+    for (const room of this.getOutdoorRoomsWithPlayers(zoneId)) {
+      for (const username of room.players) {
+        const existing = effectManager.getEffectsForTarget(username, true)
+          .find(effect => effect.type === EffectType.WEATHER && effect.payload.metadata?.weather === weather);
+
+        if (existing) {
+          effectManager.refreshEffectDuration(existing.id, WEATHER_EFFECT_TICKS);
+          continue;
+        }
+
+        effectManager.addEffect(username, true, weather === 'storm'
+          ? {
+            type: EffectType.WEATHER,
+            name: 'Storm',
+            description: 'The howling wind makes it hard to move quickly.',
+            durationTicks: WEATHER_EFFECT_TICKS,
+            tickInterval: 0,
+            isTimeBased: false,
+            payload: { statModifiers: { agility: -3 }, metadata: { weather } },
+            targetId: username,
+            isPlayerEffect: true,
+            sourceId: `weather:${zoneId}`
+          }
+          : {
+            type: EffectType.WEATHER,
+            name: 'Fog',
+            description: 'The fog is too thick to see into the next room.',
+            durationTicks: WEATHER_EFFECT_TICKS,
+            tickInterval: 0,
+            isTimeBased: false,
+            payload: { obscureVision: true, metadata: { weather } },
+            targetId: username,
+            isPlayerEffect: true,
+            sourceId: `weather:${zoneId}`
+          });
+      }
+    }
+  }
+}
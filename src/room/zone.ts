@@ -0,0 +1,92 @@
+import { ResetRule, ZoneInstanceConfig, ZoneLevelRange, ZoneResetPolicy } from '../types';
+
+export const DEFAULT_ZONE_ID = 'default';
+
+export class Zone {
+  id: string;
+  name: string;
+  description: string;
+  levelRange: ZoneLevelRange;
+  builders: string[];
+  resetPolicy: ZoneResetPolicy;
+  // Zone-wide reset rules, each targeting a room in the zone
+  resets: ResetRule[];
+  // Flavour lines occasionally shown to players anywhere in the zone
+  ambientMessages: string[];
+  ambientChance?: number; // Chance per tick that an occupied room shows an ambient line
+  // Set on dungeon templates; players are routed into a private copy instead of these rooms
+  instance?: ZoneInstanceConfig;
+  // Transient zones (dungeon instances) live in memory only and are never saved
+  transient: boolean = false;
+  // IDs of the rooms that belong to this zone, in file order
+  roomIds: string[] = [];
+  // File the zone was loaded from, so saves write back to it even if its name isn't the zone ID
+  sourceFile?: string;
+
+  constructor(zone: any) {
+    this.id = zone.id;
+    this.name = zone.name || zone.id;
+    this.description = zone.description || '';
+    this.levelRange = zone.levelRange || { min: 1, max: 1 };
+    this.builders = zone.builders || [];
+    this.resetPolicy = zone.resetPolicy || { mode: 'always' };
+    this.resets = zone.resets || [];
+    this.ambientMessages = zone.ambientMessages || [];
+    this.ambientChance = zone.ambientChance;
+    this.instance = zone.instance;
+  }
+
+  addRoomId(roomId: string): void {
+    if (!this.roomIds.includes(roomId)) {
+      this.roomIds.push(roomId);
+    }
+  }
+
+  removeRoomId(roomId: string): void {
+    this.roomIds = this.roomIds.filter(id => id !== roomId);
+  }
+
+  hasRoom(roomId: string): boolean {
+    return this.roomIds.includes(roomId);
+  }
+
+  /**
+   * Check whether a user is listed as a builder for this zone
+   */
+  isBuilder(username: string): boolean {
+    return this.builders.some(builder => builder.toLowerCase() === username.toLowerCase());
+  }
+
+  /**
+   * Metadata without the room list, used when writing the zone file
+   */
+  getMetadata(): Omit<ZoneData, 'rooms'> {
+    return {
+      id: this.id,
+      name: this.name,
+      description: this.description,
+      levelRange: this.levelRange,
+      builders: this.builders,
+      resetPolicy: this.resetPolicy,
+      resets: this.resets,
+      ...(this.ambientMessages.length > 0 && { ambientMessages: this.ambientMessages }),
+      ...(this.ambientChance !== undefined && { ambientChance: this.ambientChance }),
+      ...(this.instance && { instance: this.instance })
+    };
+  }
+}
+
+// Shape of a zone file on disk
+export interface ZoneData {
+  id: string;
+  name: string;
+  description?: string;
+  levelRange: ZoneLevelRange;
+  builders: string[];
+  resetPolicy: ZoneResetPolicy;
+  resets?: ResetRule[];
+  ambientMessages?: string[];
+  ambientChance?: number;
+  instance?: ZoneInstanceConfig;
+  rooms: any[];
+}
@@ -1,4 +1,6 @@
 import Ajv from 'ajv';
+import { DAMAGE_TYPES, EquipmentSlot, ITEM_QUALITIES, NPC_BEHAVIOR_TYPES, ROOM_FLAGS } from '../types';
+import { EffectType } from '../types/effects';
 
 // Initialize the validator
 export const ajv = new Ajv({
@@ -7,6 +9,57 @@ export const ajv = new Ajv({
   useDefaults: true // Apply default values from the schema
 });
 
+// Reset rule schema, shared by rooms and zones
+const resetRuleSchema = {
+  type: 'object',
+  required: ['type', 'templateId', 'maxCount'],
+  properties: {
+    type: { type: 'string', enum: ['npc', 'item'] },
+    templateId: { type: 'string' },
+    maxCount: { type: 'number', minimum: 1 },
+    roomId: { type: 'string' }
+  }
+};
+
+// Flag conditions, shared by dialogue nodes and choices
+const dialogueConditionProperties = {
+  requiresFlags: { type: 'array', items: { type: 'string' } },
+  excludesFlags: { type: 'array', items: { type: 'string' } }
+};
+
+// Dialogue action schema, shared by dialogue nodes and choices
+const dialogueActionsSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      setFlag: { type: 'string' },
+      removeFlag: { type: 'string' },
+      giveItem: { type: 'string' },
+      giveCurrency: {
+        type: 'object',
+        properties: {
+          gold: { type: 'number', minimum: 0 },
+          silver: { type: 'number', minimum: 0 },
+          copper: { type: 'number', minimum: 0 }
+        }
+      },
+      startEffect: {
+        type: 'object',
+        required: ['type', 'name', 'durationTicks'],
+        properties: {
+          type: { type: 'string', enum: Object.values(EffectType) },
+          name: { type: 'string' },
+          description: { type: 'string' },
+          durationTicks: { type: 'number', minimum: 1 },
+          tickInterval: { type: 'number', minimum: 0 },
+          payload: { type: 'object' }
+        }
+      }
+    }
+  }
+};
+
 // Room schema
 export const roomSchema = {
   type: 'array',
@@ -24,7 +77,20 @@ export const roomSchema = {
           required: ['direction', 'roomId'],
           properties: {
             direction: { type: 'string' },
-            roomId: { type: 'string' }
+            roomId: { type: 'string' },
+            door: {
+              type: 'object',
+              required: ['state'],
+              properties: {
+                state: { type: 'string', enum: ['open', 'closed', 'locked'] },
+                name: { type: 'string' },
+                keyId: { type: 'string' },
+                pickDifficulty: { type: 'number', minimum: 0 }
+              }
+            },
+            oneWay: { type: 'boolean' },
+            hidden: { type: 'boolean' },
+            searchDifficulty: { type: 'number', minimum: 0 }
           }
         }
       },
@@ -58,12 +124,105 @@ export const roomSchema = {
           silver: { type: 'number' },
           copper: { type: 'number' }
         }
+      },
+      resets: {
+        type: 'array',
+        items: resetRuleSchema
+      },
+      resetInterval: { type: 'number', minimum: 1 },
+      dayDescription: { type: 'string', minLength: 1 },
+      nightDescription: { type: 'string', minLength: 1 },
+      landmark: { type: 'string', minLength: 1 },
+      ambientMessages: {
+        type: 'array',
+        items: { type: 'string', minLength: 1 }
+      },
+      flags: {
+        type: 'array',
+        items: { type: 'string', enum: ROOM_FLAGS },
+        uniqueItems: true
+      },
+      corpses: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['id', 'name', 'items', 'currency', 'owners', 'protectedTicks', 'decayTicks'],
+          properties: {
+            id: { type: 'string' },
+            name: { type: 'string' },
+            items: { type: 'array', items: { type: 'string' } },
+            currency: {
+              type: 'object',
+              properties: {
+                gold: { type: 'number' },
+                silver: { type: 'number' },
+                copper: { type: 'number' }
+              }
+            },
+            owners: { type: 'array', items: { type: 'string' } },
+            protectedTicks: { type: 'number' },
+            decayTicks: { type: 'number' }
+          }
+        }
       }
     },
     additionalProperties: true
   }
 };
 
+// Zone schema - a single zone file with its metadata and rooms
+export const zoneSchema = {
+  type: 'object',
+  required: ['id', 'name', 'rooms'],
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    description: { type: 'string' },
+    levelRange: {
+      type: 'object',
+      required: ['min', 'max'],
+      properties: {
+        min: { type: 'number', minimum: 1 },
+        max: { type: 'number', minimum: 1 }
+      }
+    },
+    builders: {
+      type: 'array',
+      items: { type: 'string' }
+    },
+    resetPolicy: {
+      type: 'object',
+      required: ['mode'],
+      properties: {
+        mode: { type: 'string', enum: ['never', 'empty', 'always'] },
+        intervalTicks: { type: 'number', minimum: 1 }
+      }
+    },
+    resets: {
+      type: 'array',
+      items: {
+        ...resetRuleSchema,
+        required: [...resetRuleSchema.required, 'roomId']
+      }
+    },
+    ambientMessages: {
+      type: 'array',
+      items: { type: 'string', minLength: 1 }
+    },
+    ambientChance: { type: 'number', minimum: 0, maximum: 1 },
+    instance: {
+      type: 'object',
+      required: ['returnRoomId'],
+      properties: {
+        returnRoomId: { type: 'string', minLength: 1 },
+        emptyGraceTicks: { type: 'number', minimum: 0 }
+      }
+    },
+    rooms: roomSchema
+  },
+  additionalProperties: true
+};
+
 // User schema
 export const userSchema = {
   type: 'array',
@@ -114,6 +273,14 @@ export const userSchema = {
       commandHistory: {
         type: 'array',
         items: { type: 'string' }
+      },
+      exploredRooms: {
+        type: 'array',
+        items: { type: 'string' }
+      },
+      discoveredExits: {
+        type: 'array',
+        items: { type: 'string' }
       }
     },
     additionalProperties: true
@@ -134,6 +301,8 @@ export const itemSchema = {
       slot: { type: 'string' },
       value: { type: 'number' },
       weight: { type: 'number' },
+      light: { type: 'boolean' },
+      damageType: { type: 'string', enum: DAMAGE_TYPES },
       stats: {
         type: 'object',
         additionalProperties: true
@@ -183,7 +352,8 @@ export const itemInstanceSchema = {
             }
           },
           soulbound: { type: 'boolean' },
-          boundTo: { type: 'string' }
+          boundTo: { type: 'string' },
+          heldByNpc: { type: 'string' }
         },
         additionalProperties: true
       },
@@ -213,15 +383,172 @@ export const npcSchema = {
       id: { type: 'string' },
       name: { type: 'string' },
       description: { type: 'string' },
+      health: { type: 'number', minimum: 1 },
+      maxHealth: { type: 'number', minimum: 1 },
+      damage: {
+        type: 'array',
+        items: { type: 'number', minimum: 0 },
+        minItems: 2,
+        maxItems: 2
+      },
+      isHostile: { type: 'boolean' },
+      isPassive: { type: 'boolean' },
+      experienceValue: { type: 'number', minimum: 0 },
+      level: { type: 'number', minimum: 1 },
+      levelRange: {
+        type: 'array',
+        items: { type: 'number', minimum: 1 },
+        minItems: 2,
+        maxItems: 2
+      },
+      armor: { type: 'number', minimum: 0 },
+      accuracy: { type: 'number', minimum: 0 },
+      damageType: { type: 'string', enum: DAMAGE_TYPES },
+      resistances: {
+        type: 'object',
+        propertyNames: { enum: DAMAGE_TYPES },
+        additionalProperties: { type: 'number', minimum: -1, maximum: 1 }
+      },
+      scaling: {
+        type: 'object',
+        properties: {
+          health: { type: 'number' },
+          damage: { type: 'number' },
+          armor: { type: 'number' },
+          accuracy: { type: 'number' },
+          experience: { type: 'number' }
+        }
+      },
+      attackTexts: {
+        type: 'array',
+        items: { type: 'string' }
+      },
+      deathMessages: {
+        type: 'array',
+        items: { type: 'string' }
+      },
       dialogue: {
         type: 'object',
-        additionalProperties: {
-          type: 'string'
+        required: ['greeting', 'nodes'],
+        properties: {
+          greeting: {
+            type: 'array',
+            items: { type: 'string' },
+            minItems: 1
+          },
+          topics: {
+            type: 'object',
+            additionalProperties: { type: 'string' }
+          },
+          nodes: {
+            type: 'object',
+            additionalProperties: {
+              type: 'object',
+              required: ['text'],
+              properties: {
+                text: { type: 'string' },
+                ...dialogueConditionProperties,
+                actions: dialogueActionsSchema,
+                choices: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    required: ['text'],
+                    properties: {
+                      text: { type: 'string' },
+                      next: { type: 'string' },
+                      ...dialogueConditionProperties,
+                      actions: dialogueActionsSchema
+                    }
+                  }
+                }
+              }
+            }
+          }
         }
       },
       inventory: {
         type: 'array',
         items: { type: 'string' }
+      },
+      equipment: {
+        type: 'object',
+        propertyNames: { enum: Object.values(EquipmentSlot) },
+        additionalProperties: { type: 'string' }
+      },
+      loot: {
+        type: 'object',
+        required: ['entries'],
+        properties: {
+          rolls: { type: 'number', minimum: 0 },
+          dropChance: { type: 'number', minimum: 0, maximum: 1 },
+          entries: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['templateId'],
+              properties: {
+                templateId: { type: 'string' },
+                weight: { type: 'number', minimum: 0 },
+                qualities: {
+                  type: 'object',
+                  propertyNames: { enum: ITEM_QUALITIES },
+                  additionalProperties: { type: 'number', minimum: 0 }
+                }
+              }
+            }
+          },
+          currency: {
+            type: 'object',
+            required: ['min', 'max'],
+            properties: {
+              min: { type: 'number', minimum: 0 },
+              max: { type: 'number', minimum: 0 }
+            }
+          }
+        }
+      },
+      shop: {
+        type: 'object',
+        required: ['stock'],
+        properties: {
+          stock: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['templateId', 'maxStock'],
+              properties: {
+                templateId: { type: 'string' },
+                maxStock: { type: 'number', minimum: 1 },
+                restockTicks: { type: 'number', minimum: 1 }
+              }
+            }
+          },
+          buyMarkup: { type: 'number', minimum: 0 },
+          sellMarkup: { type: 'number', minimum: 0 },
+          acceptsTypes: {
+            type: 'array',
+            items: { type: 'string' }
+          }
+        }
+      },
+      faction: { type: 'string' },
+      assists: {
+        type: 'array',
+        items: { type: 'string' }
+      },
+      behavior: {
+        type: 'object',
+        required: ['type'],
+        properties: {
+          type: { type: 'string', enum: NPC_BEHAVIOR_TYPES },
+          moveChance: { type: 'number', minimum: 0, maximum: 1 },
+          route: {
+            type: 'array',
+            items: { type: 'string' }
+          },
+          target: { type: 'string' }
+        }
       }
     }
   }
@@ -229,6 +556,7 @@ export const npcSchema = {
 
 // Compile validators
 export const validateRooms = ajv.compile(roomSchema);
+export const validateZones = ajv.compile(zoneSchema);
 export const validateUsers = ajv.compile(userSchema);
 export const validateItems = ajv.compile(itemSchema);
 export const validateItemInstances = ajv.compile(itemInstanceSchema);
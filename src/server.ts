@@ -1,6 +1,7 @@
 import { GameServer } from './app';
 import * as config from './config';
 import { JsonValidationError } from './utils/jsonUtils';
+import { importAreFile } from './utils/areImporter';
 import { systemLogger } from './utils/logger';
 
 // This file now acts as a simple entry point that creates and starts the game server
@@ -14,6 +15,12 @@ try {
 }
 
 async function main() {
+  // Importing an area file is a one-off job, the server isn't started
+  if (config.IMPORT_ARE_FILE) {
+    runAreImport(config.IMPORT_ARE_FILE);
+    return;
+  }
+
   try {
     // Create the game server - wrap this in try/catch to handle construction errors
     gameServer = new GameServer();
@@ -61,6 +68,29 @@ async function startForcedUserSession(server: GameServer, username: string): Pro
   }
 }
 
+/**
+ * Convert a .are area file into the data directory and exit
+ */
+function runAreImport(filePath: string): void {
+  try {
+    const result = importAreFile(filePath, {
+      zonesDir: config.ZONES_DIR,
+      npcsFile: config.NPCS_FILE,
+      itemsFile: config.ITEMS_FILE
+    });
+
+    console.log(`\x1b[32m✓ Imported zone '${result.zone.id}': ${result.zone.rooms.length} rooms, ${result.npcs.length} NPCs, ${result.items.length} items\x1b[0m`);
+    if (result.report.length > 0) {
+      console.log('\nNot imported:');
+      result.report.forEach(line => console.log(`\x1b[33m- ${line}\x1b[0m`));
+    }
+    process.exit(0);
+  } catch (error) {
+    console.error(`\x1b[31m✗ Import failed: ${error instanceof Error ? error.message : String(error)}\x1b[0m`);
+    process.exit(1);
+  }
+}
+
 /**
  * Handle errors including validation errors with user-friendly messages
  */
@@ -120,7 +150,7 @@ function getFileHintFromError(errorMessage: string): string | null {
   
   const lowerMsg = errorMessage.toLowerCase();
   if (lowerMsg.includes('room') || lowerMsg.includes('exit')) {
-    return 'data/rooms.json';
+    return 'data/zones/*.json';
   } else if (lowerMsg.includes('user') || lowerMsg.includes('player')) {
     return 'data/users.json';
   } else if (lowerMsg.includes('item') || lowerMsg.includes('weapon') || lowerMsg.includes('armor')) {
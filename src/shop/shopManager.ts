@@ -0,0 +1,271 @@
+import fs from 'fs';
+import path from 'path';
+import { GameItem } from '../types';
+import { NPC } from '../combat/npc';
+import { Room } from '../room/room';
+import { RoomManager } from '../room/roomManager';
+import { ItemManager } from '../utils/itemManager';
+import { saveJsonFileAtomic } from '../utils/fileUtils';
+import { createContextLogger } from '../utils/logger';
+
+// Create a context-specific logger for shops
+const shopLogger = createContextLogger('ShopManager');
+
+// Second-hand items on the shelves, kept across restarts so they aren't lost
+const SHOP_SHELVES_PATH = path.join(__dirname, '..', '..', 'data', 'shop-shelves.json');
+
+// Game ticks between restocking one more of an item, unless its stock entry sets one
+export const DEFAULT_RESTOCK_TICKS = 20;
+
+// Price multipliers on item value, unless the shop sets its own
+export const DEFAULT_BUY_MARKUP = 1.25;
+export const DEFAULT_SELL_MARKUP = 0.5;
+
+// What a shopkeeper has on the shelves right now
+interface ShopInventory {
+  shopId: string; // Stays the same when the keeper respawns, unlike the NPC instance ID
+  stock: Map<string, number>; // template ID -> new copies for sale
+  resale: string[]; // Item instances bought from players
+  lastRestockTick: Map<string, number>;
+}
+
+// One line of a shop's list
+export interface ShopListing {
+  templateId: string;
+  name: string;
+  price: number; // In copper
+  quantity: number;
+  instanceId?: string; // Set for second-hand items, which are sold as they are
+}
+
+export class ShopManager {
+  private static instance: ShopManager | null = null;
+
+  private itemManager: ItemManager;
+  private inventories: Map<string, ShopInventory> = new Map(); // NPC instance ID -> shelves
+  private storedResale: Map<string, string[]>; // shop ID -> resale items no keeper has taken up yet
+
+  private constructor(private roomManager: RoomManager) {
+    this.itemManager = ItemManager.getInstance();
+    this.storedResale = this.loadShelves();
+  }
+
+  public static getInstance(roomManager: RoomManager): ShopManager {
+    if (!ShopManager.instance) {
+      ShopManager.instance = new ShopManager(roomManager);
+    }
+    return ShopManager.instance;
+  }
+
+  /**
+   * Find the shopkeeper minding a room's shop
+   */
+  public getShopkeeper(room: Room): NPC | undefined {
+    return Array.from(room.npcs.values()).find(npc => npc.shop && npc.isAlive());
+  }
+
+  /**
+   * Everything a shopkeeper has for sale: new stock first, then second-hand items
+   */
+  public getListings(npc: NPC): ShopListing[] {
+    const inventory = this.getInventory(npc);
+    const listings: ShopListing[] = [];
+
+    for (const [templateId, quantity] of inventory.stock) {
+      const template = this.itemManager.getItem(templateId);
+      if (!template || quantity <= 0) continue;
+      listings.push({ templateId, name: template.name, price: this.getBuyPrice(npc, template), quantity });
+    }
+
+    for (const instanceId of inventory.resale) {
+      const template = this.itemManager.getTemplateForInstance(instanceId);
+      if (!template) continue;
+      listings.push({
+        templateId: template.id,
+        name: this.itemManager.getItemDisplayName(instanceId),
+        price: this.getBuyPrice(npc, template),
+        quantity: 1,
+        instanceId
+      });
+    }
+
+    return listings;
+  }
+
+  /**
+   * What a player pays for an item, in copper
+   */
+  public getBuyPrice(npc: NPC, template: GameItem): number {
+    return Math.max(1, Math.ceil((template.value || 0) * (npc.shop?.buyMarkup ?? DEFAULT_BUY_MARKUP)));
+  }
+
+  /**
+   * What a shopkeeper pays for an item instance, in copper; worn items fetch less
+   */
+  public getSellPrice(npc: NPC, instanceId: string): number {
+    const template = this.itemManager.getTemplateForInstance(instanceId);
+    if (!template) return 0;
+
+    const durability = this.itemManager.getItemInstance(instanceId)?.properties?.durability;
+    const condition = durability && durability.max > 0 ? durability.current / durability.max : 1;
+    return Math.floor((template.value || 0) * (npc.shop?.sellMarkup ?? DEFAULT_SELL_MARKUP) * condition);
+  }
+
+  public acceptsItem(npc: NPC, template: GameItem): boolean {
+    const acceptsTypes = npc.shop?.acceptsTypes;
+    return !acceptsTypes || acceptsTypes.includes(template.type);
+  }
+
+  /**
+   * Take a listed item off the shelf for a buyer
+   * @returns the item instance handed over, or null if it's no longer there
+   */
+  public takeFromShelf(npc: NPC, listing: ShopListing, buyer: string): string | null {
+    const inventory = this.getInventory(npc);
+    let instanceId: string;
+
+    if (listing.instanceId) {
+      const index = inventory.resale.indexOf(listing.instanceId);
+      if (index === -1) return null;
+      inventory.resale.splice(index, 1);
+      instanceId = listing.instanceId;
+    } else {
+      const quantity = inventory.stock.get(listing.templateId) || 0;
+      if (quantity <= 0) return null;
+
+      const instance = this.itemManager.createItemInstance(listing.templateId, `shop:${npc.templateId}`);
+      if (!instance) return null;
+      inventory.stock.set(listing.templateId, quantity - 1);
+      instanceId = instance.instanceId;
+    }
+
+    this.itemManager.addItemHistory(instanceId, 'buy', `Bought by ${buyer} from ${npc.name} for ${listing.price} copper`);
+    shopLogger.info(`${buyer} bought ${instanceId} (${listing.templateId}) from ${npc.templateId} (${npc.instanceId})`);
+    return instanceId;
+  }
+
+  /**
+   * Put an item a player sold onto the shelf so others can buy it
+   */
+  public putOnShelf(npc: NPC, instanceId: string, seller: string, price: number): void {
+    this.getInventory(npc).resale.push(instanceId);
+    this.itemManager.addItemHistory(instanceId, 'sell', `Sold by ${seller} to ${npc.name} for ${price} copper`);
+    shopLogger.info(`${seller} sold ${instanceId} to ${npc.templateId} (${npc.instanceId})`);
+  }
+
+  /**
+   * Restock shelves a step at a time, and forget shops whose keeper is gone
+   * @param tickCount The current game tick
+   */
+  public processRestocks(tickCount: number): void {
+    const shopkeepers = new Map<string, NPC>();
+    for (const room of this.roomManager.getAllRooms()) {
+      for (const npc of room.npcs.values()) {
+        if (npc.shop) shopkeepers.set(npc.instanceId, npc);
+      }
+    }
+
+    // Second-hand items wait for the keeper's replacement
+    for (const [npcInstanceId, inventory] of this.inventories) {
+      if (!shopkeepers.has(npcInstanceId)) {
+        this.storeResale(inventory.shopId, inventory.resale);
+        this.inventories.delete(npcInstanceId);
+      }
+    }
+
+    for (const npc of shopkeepers.values()) {
+      const inventory = this.getInventory(npc);
+      for (const entry of npc.shop!.stock) {
+        const quantity = inventory.stock.get(entry.templateId) || 0;
+        if (quantity >= entry.maxStock) {
+          inventory.lastRestockTick.delete(entry.templateId);
+          continue;
+        }
+
+        // The restock clock starts when the shelf first runs low
+        const lastRestockTick = inventory.lastRestockTick.get(entry.templateId);
+        if (lastRestockTick === undefined) {
+          inventory.lastRestockTick.set(entry.templateId, tickCount);
+        } else if (tickCount - lastRestockTick >= (entry.restockTicks ?? DEFAULT_RESTOCK_TICKS)) {
+          inventory.stock.set(entry.templateId, quantity + 1);
+          inventory.lastRestockTick.set(entry.templateId, tickCount);
+        }
+      }
+    }
+  }
+
+  /**
+   * Persist the second-hand items on every shop's shelves
+   */
+  public save(): boolean {
+    const shelves: Record<string, string[]> = {};
+    for (const [shopId, resale] of this.storedResale) {
+      shelves[shopId] = [...resale];
+    }
+    for (const inventory of this.inventories.values()) {
+      shelves[inventory.shopId] = [...(shelves[inventory.shopId] || []), ...inventory.resale];
+    }
+
+    for (const shopId of Object.keys(shelves)) {
+      if (shelves[shopId].length === 0) delete shelves[shopId];
+    }
+    return saveJsonFileAtomic(SHOP_SHELVES_PATH, shelves);
+  }
+
+  private loadShelves(): Map<string, string[]> {
+    const shelves = new Map<string, string[]>();
+    try {
+      if (fs.existsSync(SHOP_SHELVES_PATH)) {
+        const data = JSON.parse(fs.readFileSync(SHOP_SHELVES_PATH, 'utf8'));
+        for (const [shopId, resale] of Object.entries(data)) {
+          if (Array.isArray(resale)) {
+            shelves.set(shopId, resale.filter(instanceId => typeof instanceId === 'string'));
+          }
+        }
+      }
+    } catch (error) {
+      shopLogger.error('Error loading shop shelves:', error);
+    }
+    return shelves;
+  }
+
+  private storeResale(shopId: string, resale: string[]): void {
+    if (resale.length === 0) return;
+    this.storedResale.set(shopId, [...(this.storedResale.get(shopId) || []), ...resale]);
+  }
+
+  /**
+   * A shop is the keeper's template in its home room, so a respawned keeper
+   * takes over the same shelves
+   */
+  private getShopId(npc: NPC): string {
+    const roomId = npc.homeRoomId
+      ?? this.roomManager.getAllRooms().find(room => room.npcs.has(npc.instanceId))?.id
+      ?? npc.instanceId;
+    return `${roomId}:${npc.templateId}`;
+  }
+
+  /**
+   * Shelves start out fully stocked the first time anyone deals with the shop,
+   * along with whatever second-hand items it had before
+   */
+  private getInventory(npc: NPC): ShopInventory {
+    let inventory = this.inventories.get(npc.instanceId);
+    if (!inventory) {
+      const shopId = this.getShopId(npc);
+      // Items that went missing since the shelves were saved are dropped
+      const resale = (this.storedResale.get(shopId) || [])
+        .filter(instanceId => this.itemManager.getItemInstance(instanceId));
+      this.storedResale.delete(shopId);
+
+      inventory = {
+        shopId,
+        stock: new Map((npc.shop?.stock || []).map(entry => [entry.templateId, entry.maxStock])),
+        resale,
+        lastRestockTick: new Map()
+      };
+      this.inventories.set(npc.instanceId, inventory);
+    }
+    return inventory;
+  }
+}
@@ -11,6 +11,7 @@ import { ItemManager } from '../utils/itemManager';
 import { CommandRegistry } from '../command/commandRegistry';
 import { StateMachine } from '../state/stateMachine'; // Add StateMachine import
 import { createContextLogger } from '../utils/logger';
+import { isLineEditorActive, handleLineEditorInput } from '../utils/lineEditor';
 
 // Create context-specific logger for authenticated state
 const authStateLogger = createContextLogger('AuthenticatedState');
@@ -223,6 +224,12 @@ export class AuthenticatedState implements ClientState {
       return;
     }
     
+    // Lines typed into an open editor are text, not commands
+    if (isLineEditorActive(client)) {
+      handleLineEditorInput(client, input);
+      return;
+    }
+    
     // Use the CommandHandler to process the command
     this.commandHandler.handleCommand(client, input);
   }
@@ -0,0 +1,177 @@
+import fs from 'fs';
+import path from 'path';
+import { saveJsonFileAtomic } from '../utils/fileUtils';
+import { createContextLogger } from '../utils/logger';
+
+// Create a context-specific logger for the game clock
+const clockLogger = createContextLogger('GameClock');
+
+const CLOCK_STATE_PATH = path.join(__dirname, '..', '..', 'data', 'gameclock-state.json');
+
+export const HOURS_PER_DAY = 24;
+export const DAYS_PER_MONTH = 30;
+
+export const MONTH_NAMES = [
+  'Deepwinter', 'the Thaw', 'Seedtime', 'Blossoming',
+  'Greengrass', 'Midsummer', 'High Sun', 'the Harvest',
+  'Leaffall', 'the Mists', 'First Frost', 'the Long Night'
+];
+
+export type Season = 'winter' | 'spring' | 'summer' | 'autumn';
+
+// Season of each month, by month index
+const MONTH_SEASONS: Season[] = [
+  'winter', 'winter', 'spring', 'spring',
+  'spring', 'summer', 'summer', 'summer',
+  'autumn', 'autumn', 'autumn', 'winter'
+];
+
+// Hours of sunrise and sunset in each season, days are longer in summer
+const SEASON_DAYLIGHT: { [season in Season]: { sunrise: number, sunset: number } } = {
+  winter: { sunrise: 8, sunset: 17 },
+  spring: { sunrise: 6, sunset: 19 },
+  summer: { sunrise: 5, sunset: 21 },
+  autumn: { sunrise: 7, sunset: 18 }
+};
+
+// Persisted clock state, all values zero based
+export interface GameClockState {
+  hour: number;
+  day: number;
+  month: number;
+  year: number;
+}
+
+const DEFAULT_STATE: GameClockState = {
+  hour: 8,
+  day: 0,
+  month: 2,
+  year: 1
+};
+
+export type DaylightChange = 'sunrise' | 'sunset';
+
+/**
+ * In-game calendar. GameTimerManager advances it one hour at a time and
+ * anything that cares about the time of day reads it from here.
+ */
+export class GameClock {
+  private static instance: GameClock | null = null;
+  private state: GameClockState;
+
+  private constructor() {
+    this.state = this.loadState();
+  }
+
+  public static getInstance(): GameClock {
+    if (!GameClock.instance) {
+      GameClock.instance = new GameClock();
+    }
+    return GameClock.instance;
+  }
+
+  /**
+   * Reset the singleton instance (primarily for testing purposes)
+   */
+  public static resetInstance(): void {
+    GameClock.instance = null;
+  }
+
+  private loadState(): GameClockState {
+    try {
+      if (fs.existsSync(CLOCK_STATE_PATH)) {
+        const data = JSON.parse(fs.readFileSync(CLOCK_STATE_PATH, 'utf8'));
+        return {
+          hour: this.clamp(data.hour, HOURS_PER_DAY, DEFAULT_STATE.hour),
+          day: this.clamp(data.day, DAYS_PER_MONTH, DEFAULT_STATE.day),
+          month: this.clamp(data.month, MONTH_NAMES.length, DEFAULT_STATE.month),
+          year: Number.isInteger(data.year) && data.year > 0 ? data.year : DEFAULT_STATE.year
+        };
+      }
+    } catch (error) {
+      clockLogger.error('Error loading game clock state:', error);
+    }
+
+    return { ...DEFAULT_STATE };
+  }
+
+  // Keep a loaded value inside its range, falling back to the default if it's missing
+  private clamp(value: unknown, limit: number, fallback: number): number {
+    return Number.isInteger(value) && (value as number) >= 0 && (value as number) < limit ? value as number : fallback;
+  }
+
+  /**
+   * Persist the clock so game time carries on across restarts
+   */
+  public save(): boolean {
+    return saveJsonFileAtomic(CLOCK_STATE_PATH, this.state);
+  }
+
+  public getState(): GameClockState {
+    return { ...this.state };
+  }
+
+  /**
+   * Move the clock forward one hour
+   * @returns the daylight change that happened at the new hour, if any
+   */
+  public advanceHour(): DaylightChange | null {
+    this.state.hour++;
+    if (this.state.hour >= HOURS_PER_DAY) {
+      this.state.hour = 0;
+      this.state.day++;
+    }
+    if (this.state.day >= DAYS_PER_MONTH) {
+      this.state.day = 0;
+      this.state.month++;
+    }
+    if (this.state.month >= MONTH_NAMES.length) {
+      this.state.month = 0;
+      this.state.year++;
+      clockLogger.info(`A new year begins: year ${this.state.year}`);
+    }
+
+    const daylight = SEASON_DAYLIGHT[this.getSeason()];
+    if (this.state.hour === daylight.sunrise) return 'sunrise';
+    if (this.state.hour === daylight.sunset) return 'sunset';
+    return null;
+  }
+
+  public getSeason(): Season {
+    return MONTH_SEASONS[this.state.month];
+  }
+
+  public isDaytime(): boolean {
+    const daylight = SEASON_DAYLIGHT[this.getSeason()];
+    return this.state.hour >= daylight.sunrise && this.state.hour < daylight.sunset;
+  }
+
+  /**
+   * Describe the current time, e.g. "3 o'clock in the afternoon on the 5th day of Seedtime, year 1"
+   */
+  public formatTime(): string {
+    const { hour, day, month, year } = this.state;
+    const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+    return `${displayHour} o'clock ${this.getPartOfDay()} on the ${this.formatOrdinal(day + 1)} day of ${MONTH_NAMES[month]}, year ${year}`;
+  }
+
+  private getPartOfDay(): string {
+    const hour = this.state.hour;
+    if (hour === 0) return 'at midnight';
+    if (hour === 12) return 'at noon';
+    if (hour < 12) return hour < 5 ? 'at night' : 'in the morning';
+    if (hour < 18) return 'in the afternoon';
+    return hour < 21 ? 'in the evening' : 'at night';
+  }
+
+  private formatOrdinal(n: number): string {
+    const tens = n % 100;
+    if (tens >= 11 && tens <= 13) return `${n}th`;
+    switch (n % 10) {
+      case 1: return `${n}st`;
+      case 2: return `${n}nd`;
+      case 3: return `${n}rd`;
+      default: return `${n}th`;
+    }
+  }
+}
@@ -5,7 +5,10 @@ import { RoomManager } from '../room/roomManager';
 import { UserManager } from '../user/userManager';
 import { CombatSystem } from '../combat/combatSystem';
 import { EffectManager } from '../effects/effectManager';
+import { GameClock } from './gameClock';
+import { ShopManager } from '../shop/shopManager';
 import { systemLogger, createContextLogger } from '../utils/logger';
+import { colorize } from '../utils/colors';
 
 // Create a context-specific logger for GameTimerManager
 const timerLogger = createContextLogger('GameTimerManager');
@@ -14,12 +17,14 @@ const timerLogger = createContextLogger('GameTimerManager');
 export interface GameTimerConfig {
   tickInterval: number; // Time between ticks in milliseconds
   saveInterval: number; // Number of ticks between data saves
+  ticksPerGameHour: number; // Number of ticks per hour of game time
 }
 
 // Default configuration
 const DEFAULT_CONFIG: GameTimerConfig = {
   tickInterval: 6000, // 6 seconds per tick
-  saveInterval: 10    // Save every 10 ticks (1 minute)
+  saveInterval: 10,   // Save every 10 ticks (1 minute)
+  ticksPerGameHour: 10 // One game hour per minute, a game day every 24 minutes
 };
 
 // Load config from file or use defaults
@@ -32,7 +37,8 @@ function loadGameTimerConfig(): GameTimerConfig {
       const config = JSON.parse(data);
       return {
         tickInterval: config.tickInterval || DEFAULT_CONFIG.tickInterval,
-        saveInterval: config.saveInterval || DEFAULT_CONFIG.saveInterval
+        saveInterval: config.saveInterval || DEFAULT_CONFIG.saveInterval,
+        ticksPerGameHour: config.ticksPerGameHour || DEFAULT_CONFIG.ticksPerGameHour
       };
     }
   } catch (error) {
@@ -190,6 +196,32 @@ export class GameTimerManager extends EventEmitter {
     // Process room-based combat for entities with aggression
     this.combatSystem.processRoomCombat();
     
+    // Respawn missing NPCs and items in rooms whose reset is due
+    this.roomManager.processResets(this.tickCount);
+    
+    // Tear down dungeon instances that have been empty long enough
+    this.roomManager.processInstances(this.tickCount);
+    
+    // Let wandering, patrolling and following NPCs move
+    this.roomManager.processNpcBehaviors();
+    
+    // Count down loot protection and rot old corpses
+    this.roomManager.processCorpses();
+    
+    // Put more stock on shopkeepers' shelves
+    ShopManager.getInstance(this.roomManager).processRestocks(this.tickCount);
+    
+    // Change the weather in each zone when it's due
+    this.roomManager.processWeather(this.tickCount);
+    
+    // Show ambient flavour lines in occupied rooms
+    this.roomManager.processAmbience();
+    
+    // Move the game clock forward
+    if (this.tickCount % this.config.ticksPerGameHour === 0) {
+      this.advanceGameClock();
+    }
+    
     // Check if it's time to save
     if (this.tickCount % this.config.saveInterval === 0) {
       timerLogger.info('Saving all game data...');
@@ -198,6 +230,30 @@ export class GameTimerManager extends EventEmitter {
     }
   }
   
+  /**
+   * Advance the game clock one hour and announce sunrise and sunset outdoors
+   */
+  private advanceGameClock(): void {
+    const gameClock = GameClock.getInstance();
+    const daylightChange = gameClock.advanceHour();
+    
+    if (daylightChange) {
+      timerLogger.info(`${daylightChange === 'sunrise' ? 'Sunrise' : 'Sunset'}: ${gameClock.formatTime()}`);
+      const message = daylightChange === 'sunrise'
+        ? colorize('The sun rises in the east, and a new day begins.\r\n', 'yellow')
+        : colorize('The sun sets in the west, and night falls.\r\n', 'blue');
+      
+      for (const room of this.roomManager.getAllRooms()) {
+        if (room.players.length > 0 && !room.hasFlag('indoors')) {
+          this.roomManager.notifyPlayersInRoom(room.id, message);
+        }
+      }
+    }
+    
+    // Emit an hour event for other systems to hook into
+    this.emit('hour', gameClock.getState(), daylightChange);
+  }
+  
   /**
    * Save all game data
    */
@@ -211,6 +267,12 @@ export class GameTimerManager extends EventEmitter {
       // Save rooms
       this.roomManager.forceSave();
       
+      // Save the game clock
+      GameClock.getInstance().save();
+      
+      // Save second-hand items on shop shelves
+      ShopManager.getInstance(this.roomManager).save();
+      
       // Emit save event for other systems to hook into
       this.emit('save');
       
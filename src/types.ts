@@ -1,4 +1,5 @@
 import { IConnection } from './connection/interfaces/connection.interface';
+import { EffectPayload, EffectType } from './types/effects';
 
 // Define state enum
 export enum ClientStateType {
@@ -34,10 +35,177 @@ export interface Item {
   description?: string;
 }
 
+// Define door states for exits
+export type DoorState = 'open' | 'closed' | 'locked';
+
+// Define Door interface (a door sitting on an exit)
+export interface Door {
+  state: DoorState;
+  name?: string; // What the door is called in messages, defaults to 'door'
+  keyId?: string; // Item template ID of the key that locks/unlocks this door
+  pickDifficulty?: number; // Difficulty of picking the lock, 0 means it can't be picked
+}
+
 // Define Exit interface
 export interface Exit {
   direction: string;
   roomId: string;
+  door?: Door;
+  oneWay?: boolean; // One-way exits have no matching exit back, so doors aren't mirrored
+  hidden?: boolean; // Hidden exits have to be found with the search command
+  searchDifficulty?: number; // Roll needed to find a hidden exit
+}
+
+// Define zone level range (recommended player levels for a zone)
+export interface ZoneLevelRange {
+  min: number;
+  max: number;
+}
+
+// Define zone reset policy
+export interface ZoneResetPolicy {
+  mode: 'never' | 'empty' | 'always'; // 'empty' only resets when no players are in the zone
+  intervalTicks?: number; // Game ticks between resets
+}
+
+// Define instanced dungeon settings (the zone's rooms become a template copied for each party)
+export interface ZoneInstanceConfig {
+  returnRoomId: string; // Where players are sent when their instance no longer exists
+  emptyGraceTicks?: number; // Game ticks an empty instance is kept before it is torn down
+}
+
+// Define reset rule (an NPC or item that a reset keeps present in a room)
+export interface ResetRule {
+  type: 'npc' | 'item';
+  templateId: string; // NPC template ID or item template ID
+  maxCount: number; // Missing entities are respawned up to this count
+  roomId?: string; // Target room, required for zone-level rules
+}
+
+// Define room flags the engine honours
+// safe: no combat, dark: needs a light source to see, noteleport: blocks teleports,
+// nospawn: blocks the spawn command, indoors: sheltered from the sky,
+// nomob: NPCs never wander, patrol or follow anyone into the room
+export const ROOM_FLAGS = ['safe', 'dark', 'noteleport', 'nospawn', 'indoors', 'nomob'] as const;
+export type RoomFlag = typeof ROOM_FLAGS[number];
+
+// Define weather types a zone can have
+export const WEATHER_TYPES = ['clear', 'rain', 'storm', 'snow', 'fog'] as const;
+export type WeatherType = typeof WEATHER_TYPES[number];
+
+// Define how an NPC gets around on its own
+// sentinel: stays put, wander: random steps within its zone,
+// patrol: walks a fixed route, follow: trails after a player
+export const NPC_BEHAVIOR_TYPES = ['sentinel', 'wander', 'patrol', 'follow'] as const;
+export type NPCBehaviorType = typeof NPC_BEHAVIOR_TYPES[number];
+
+export interface NPCBehavior {
+  type: NPCBehaviorType;
+  moveChance?: number; // Chance per tick of taking a step (wander and patrol)
+  route?: string[]; // Patrol: directions walked in order, starting over at the end
+  target?: string; // Follow: player to follow; without one the NPC takes up with the first player it meets
+}
+
+// Define the kinds of damage an attack can deal, which NPCs may resist
+export const DAMAGE_TYPES = ['bash', 'slash', 'pierce', 'fire', 'cold', 'lightning', 'acid', 'poison'] as const;
+export type DamageType = typeof DAMAGE_TYPES[number];
+
+// Define how an NPC's stats change for each level it spawns above (or below) its template's level
+export interface NPCScaling {
+  health?: number;
+  damage?: number; // Added to both ends of the damage range
+  armor?: number;
+  accuracy?: number;
+  experience?: number;
+}
+
+// Define when a dialogue node or choice is open to the player, based on their flags
+export interface DialogueCondition {
+  requiresFlags?: string[]; // Player needs every one of these
+  excludesFlags?: string[]; // Player must have none of these
+}
+
+// Define what happens when a dialogue node is reached or a choice is picked; actions run every time,
+// so a node or choice that gives items or coins must set a flag it excludes
+export interface DialogueAction {
+  setFlag?: string;
+  removeFlag?: string;
+  giveItem?: string; // Item template ID
+  giveCurrency?: Partial<Currency>;
+  startEffect?: {
+    type: EffectType;
+    name: string;
+    description?: string;
+    durationTicks: number;
+    tickInterval?: number;
+    payload?: EffectPayload;
+  };
+}
+
+// Define a reply the player can pick
+export interface DialogueChoice extends DialogueCondition {
+  text: string;
+  next?: string; // Node ID to go to; the conversation ends without one
+  actions?: DialogueAction[];
+}
+
+// Define something the NPC says, with the player's possible replies
+export interface DialogueNode extends DialogueCondition {
+  text: string;
+  actions?: DialogueAction[];
+  choices?: DialogueChoice[];
+}
+
+// Define an NPC's conversation graph
+export interface NPCDialogue {
+  greeting: string[]; // Node IDs tried in order by talk; the first one the player qualifies for is used
+  topics?: { [keyword: string]: string }; // ask <npc> about <keyword> -> node ID
+  nodes: { [nodeId: string]: DialogueNode };
+}
+
+// Define an item a shopkeeper keeps in stock
+export interface ShopStockEntry {
+  templateId: string;
+  maxStock: number; // The shop restocks up to this many
+  restockTicks?: number; // Game ticks between restocking one more
+}
+
+// Define what a shopkeeper sells, at what prices, and what they'll buy
+export interface ShopData {
+  stock: ShopStockEntry[];
+  buyMarkup?: number; // Multiplier on item value that players pay
+  sellMarkup?: number; // Multiplier on item value that players are paid
+  acceptsTypes?: GameItem['type'][]; // Item types the shopkeeper buys; none when empty, any when left out
+}
+
+// Define item quality grades, worst first
+export const ITEM_QUALITIES = ['poor', 'common', 'uncommon', 'rare', 'epic', 'legendary'] as const;
+export type ItemQuality = typeof ITEM_QUALITIES[number];
+
+// Define an item an NPC can drop
+export interface LootEntry {
+  templateId: string;
+  weight?: number; // Relative chance against the table's other entries, 1 when left out
+  qualities?: Partial<Record<ItemQuality, number>>; // Weighted quality roll; the item's usual quality without one
+}
+
+// Define what an NPC drops when it dies
+export interface LootTable {
+  rolls?: number; // Items picked from the entries, 1 when left out
+  dropChance?: number; // Chance each roll drops anything, 1 when left out
+  entries: LootEntry[];
+  currency?: { min: number; max: number }; // Coins dropped, in copper
+}
+
+// Define the remains an NPC leaves in a room, holding its drops
+export interface Corpse {
+  id: string;
+  name: string; // Name of the NPC that died
+  items: string[]; // Item instance IDs
+  currency: Currency;
+  owners: string[]; // Killer and everyone fighting alongside them
+  protectedTicks: number; // Ticks left before players other than the owners may loot it
+  decayTicks: number; // Ticks left before it rots away
 }
 
 // Define Currency interface
@@ -56,6 +224,8 @@ export interface GameItem {
   slot?: EquipmentSlot; // Where the item is equipped, using the EquipmentSlot enum
   value: number; // Currency value
   weight?: number;
+  light?: boolean; // Lights up dark rooms while carried
+  damageType?: DamageType; // Weapons: what kind of damage they deal, bash if unset
   stats?: {
     attack?: number;
     defense?: number;
@@ -83,6 +253,7 @@ export interface ItemTemplate {
   slot?: EquipmentSlot; 
   value: number;
   weight?: number;
+  light?: boolean; // Lights up dark rooms while carried
   stats?: {
     attack?: number;
     defense?: number;
@@ -113,9 +284,10 @@ export interface ItemInstance {
       current: number;     // Current durability
       max: number;         // Maximum durability
     };
-    quality?: 'poor' | 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary'; // Item quality
+    quality?: ItemQuality; // Item quality
     soulbound?: boolean;   // Whether item is bound to a specific player
     boundTo?: string;      // Username item is bound to (if soulbound)
+    heldByNpc?: string;    // Instance ID of the NPC wearing or wielding this item
     charges?: number;      // For items with limited uses
     enchantments?: {       // Additional enchantments
       name: string;
@@ -174,6 +346,8 @@ export interface User {
   movementRestricted?: boolean; // Flag to restrict player movement
   movementRestrictedReason?: string; // Custom reason why movement is restricted
   flags?: string[]; // Array to store player flags for permissions, quests, etc.
+  exploredRooms?: string[]; // IDs of rooms the player has visited, used by the map
+  discoveredExits?: string[]; // Hidden exits the player has found, as "roomId:direction" keys
   pendingAdminMessages?: Array<{message: string, timestamp: string}>; // Store admin messages for offline users
 
   // Add missing optional properties used in UserAdminMenu
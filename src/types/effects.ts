@@ -12,6 +12,7 @@ export enum EffectType {
   DAMAGE_OVER_TIME = 'damage_over_time',
   HEAL_OVER_TIME = 'heal_over_time',
   MOVEMENT_BLOCK = 'movement_block',
+  WEATHER = 'weather',
   // Add more effect types as needed
 }
 
@@ -40,6 +41,7 @@ export interface EffectPayload {
   };
   blockMovement?: boolean;        // Whether movement is blocked
   blockCombat?: boolean;          // Whether combat is blocked
+  obscureVision?: boolean;        // Whether adjacent rooms can't be seen
   metadata?: {                    // Custom metadata for specialized effects
     [key: string]: any;           // Custom data associated with the effect
   };
@@ -86,5 +88,6 @@ export const effectStackingRules: { [key in EffectType]?: StackingBehavior } = {
   [EffectType.DAMAGE_OVER_TIME]: StackingBehavior.STACK_INTENSITY,
   [EffectType.HEAL_OVER_TIME]: StackingBehavior.STACK_INTENSITY,
   [EffectType.MOVEMENT_BLOCK]: StackingBehavior.REFRESH,
+  [EffectType.WEATHER]: StackingBehavior.REFRESH,
   // Default: REFRESH if not specified in this map
 };
\ No newline at end of file
@@ -0,0 +1,829 @@
+import fs from 'fs';
+import path from 'path';
+import { DamageType, EquipmentSlot, Exit, GameItem, ResetRule, RoomFlag } from '../types';
+import { NPCData } from '../combat/npc';
+import { ZoneData } from '../room/zone';
+import { parseAndValidateJson } from './jsonUtils';
+import { saveJsonFileAtomic } from './fileUtils';
+
+/**
+ * Importer for DikuMUD/ROM-style .are area files. Converts #ROOMS, #MOBILES,
+ * #OBJECTS and #RESETS into a zone file plus NPC and item templates, and reports
+ * everything it had to leave behind. Both ROM 2.4 and older Merc/Diku layouts
+ * of mobiles and objects are understood.
+ */
+
+// Prefix for imported IDs; vnums are kept so exits between separately imported areas still line up
+export const DEFAULT_ARE_ID_PREFIX = 'rom';
+
+// Exit numbers D0-D5 in order
+const EXIT_DIRECTIONS = ['north', 'east', 'south', 'west', 'up', 'down'];
+
+// ROM exit lock types 2 and 4 are pickproof; doors of the other types get an average lock
+const PICKPROOF_LOCK_TYPES = [2, 4];
+export const DEFAULT_ARE_PICK_DIFFICULTY = 12;
+
+// Room flag bits (ROM letters A, C, D, K and N) with an equivalent room flag
+const ROOM_FLAG_BITS: [number, RoomFlag][] = [
+  [0, 'dark'],
+  [2, 'nomob'],
+  [3, 'indoors'],
+  [10, 'safe'],
+  [13, 'noteleport']
+];
+
+const SECTOR_INSIDE = 0;
+const ACT_SENTINEL_BIT = 1;
+const ACT_AGGRESSIVE_BIT = 5;
+// ROM attack nouns that map onto one of our damage types
+const ATTACK_DAMAGE_TYPES: Record<string, DamageType> = {
+  slash: 'slash', slice: 'slash', claw: 'slash', cleave: 'slash', whip: 'slash', scratch: 'slash',
+  pierce: 'pierce', stab: 'pierce', bite: 'pierce', sting: 'pierce', thrust: 'pierce',
+  pound: 'bash', crush: 'bash', punch: 'bash', smash: 'bash', beating: 'bash', hit: 'bash',
+  flame: 'fire', flbite: 'fire', frbite: 'cold', chill: 'cold', shock: 'lightning', shbite: 'lightning',
+  acbite: 'acid', digestion: 'acid', slime: 'acid'
+};
+
+// ROM wear locations used by E resets, and the slot each one becomes
+const WEAR_LOCATION_SLOTS: Record<number, EquipmentSlot> = {
+  1: EquipmentSlot.FINGER, 2: EquipmentSlot.FINGER, 3: EquipmentSlot.NECK, 4: EquipmentSlot.NECK,
+  5: EquipmentSlot.CHEST, 6: EquipmentSlot.HEAD, 7: EquipmentSlot.LEGS, 8: EquipmentSlot.FEET,
+  9: EquipmentSlot.HANDS, 10: EquipmentSlot.ARMS, 11: EquipmentSlot.OFF_HAND, 12: EquipmentSlot.BACK,
+  13: EquipmentSlot.WAIST, 16: EquipmentSlot.MAIN_HAND, 17: EquipmentSlot.OFF_HAND
+};
+
+const OFF_ASSIST_RACE_BIT = 18;
+const OFF_ASSIST_VNUM_BIT = 21;
+const WEAR_TAKE_BIT = 0;
+
+// Wear flag bits (ROM letters B to O) and the slot each one becomes
+const WEAR_SLOT_BITS: [number, EquipmentSlot][] = [
+  [13, EquipmentSlot.MAIN_HAND],
+  [9, EquipmentSlot.OFF_HAND],
+  [14, EquipmentSlot.OFF_HAND],
+  [4, EquipmentSlot.HEAD],
+  [2, EquipmentSlot.NECK],
+  [3, EquipmentSlot.CHEST],
+  [10, EquipmentSlot.BACK],
+  [8, EquipmentSlot.ARMS],
+  [12, EquipmentSlot.ARMS],
+  [7, EquipmentSlot.HANDS],
+  [1, EquipmentSlot.FINGER],
+  [11, EquipmentSlot.WAIST],
+  [5, EquipmentSlot.LEGS],
+  [6, EquipmentSlot.FEET]
+];
+
+// Merc/Diku store item types as numbers
+const MERC_ITEM_TYPES: { [type: number]: string } = {
+  1: 'light', 2: 'scroll', 3: 'wand', 4: 'staff', 5: 'weapon', 8: 'treasure',
+  9: 'armor', 10: 'potion', 11: 'clothing', 12: 'furniture', 13: 'trash',
+  15: 'container', 17: 'drink', 18: 'key', 19: 'food', 20: 'money', 22: 'boat',
+  23: 'npc_corpse', 24: 'pc_corpse', 25: 'fountain', 26: 'pill'
+};
+
+const CONSUMABLE_ITEM_TYPES = ['food', 'pill', 'potion', 'scroll', 'drink', 'drink_con'];
+
+// Item types that carry over completely; anything else loses its special behaviour
+const SUPPORTED_ITEM_TYPES = [...CONSUMABLE_ITEM_TYPES, 'weapon', 'armor', 'clothing', 'light', 'key', 'treasure', 'trash', 'gem', 'jewelry'];
+
+// Object apply locations with an equivalent item stat
+const APPLY_STATS: { [location: number]: keyof NonNullable<GameItem['stats']> } = {
+  1: 'strength',
+  2: 'dexterity',
+  3: 'intelligence',
+  4: 'wisdom',
+  5: 'constitution',
+  18: 'attack', // hitroll
+  19: 'attack' // damroll
+};
+const APPLY_AC = 17;
+
+export interface AreImportResult {
+  zone: ZoneData;
+  npcs: NPCData[];
+  items: GameItem[];
+  // Everything that couldn't be converted, one line per kind with a count
+  report: string[];
+}
+
+export interface AreImportPaths {
+  zonesDir: string;
+  npcsFile: string;
+  itemsFile: string;
+}
+
+interface AreSection {
+  name: string;
+  header: string; // Rest of the section's header line
+  body: string;
+}
+
+interface Dice {
+  count: number;
+  size: number;
+  bonus: number;
+}
+
+/**
+ * Reads the fread_string/fread_word/fread_number style tokens area files are made of
+ */
+class AreaReader {
+  private pos: number = 0;
+
+  constructor(private text: string) {}
+
+  atEnd(): boolean {
+    this.skipWhitespace();
+    return this.pos >= this.text.length;
+  }
+
+  // Read up to the next '~'
+  readString(): string {
+    this.skipWhitespace();
+    const end = this.text.indexOf('~', this.pos);
+    const value = this.text.slice(this.pos, end === -1 ? this.text.length : end);
+    this.pos = end === -1 ? this.text.length : end + 1;
+    return value;
+  }
+
+  // Read a whitespace separated word, or a quoted one such as a spell name
+  readWord(): string {
+    this.skipWhitespace();
+    const quote = this.text[this.pos];
+    if (quote === '\'' || quote === '"') {
+      const end = this.text.indexOf(quote, this.pos + 1);
+      const value = this.text.slice(this.pos + 1, end === -1 ? this.text.length : end);
+      this.pos = end === -1 ? this.text.length : end + 1;
+      return value;
+    }
+
+    const start = this.pos;
+    while (this.pos < this.text.length && !/\s/.test(this.text[this.pos])) {
+      this.pos++;
+    }
+    return this.text.slice(start, this.pos);
+  }
+
+  peekWord(): string {
+    const pos = this.pos;
+    const word = this.readWord();
+    this.pos = pos;
+    return word;
+  }
+
+  readNumber(): number {
+    const value = parseInt(this.readWord(), 10);
+    return isNaN(value) ? 0 : value;
+  }
+
+  readFlags(): number {
+    return parseFlags(this.readWord());
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) {
+      this.pos++;
+    }
+  }
+}
+
+/**
+ * Parse a flag field, either a number (Diku/Merc, optionally joined with '|')
+ * or ROM letters where A is bit 0 and a-f continue after Z
+ */
+function parseFlags(value: string): number {
+  let flags = 0;
+  for (const part of value.split('|')) {
+    if (/^-?\d+$/.test(part)) {
+      flags |= parseInt(part, 10);
+      continue;
+    }
+
+    for (const letter of part) {
+      if (letter >= 'A' && letter <= 'Z') {
+        flags |= 1 << (letter.charCodeAt(0) - 65);
+      } else if (letter >= 'a' && letter <= 'f') {
+        flags |= 1 << (26 + letter.charCodeAt(0) - 97);
+      }
+    }
+  }
+  return flags;
+}
+
+function hasBit(flags: number, bit: number): boolean {
+  return (flags & (1 << bit)) !== 0;
+}
+
+function parseDice(value: string): Dice | null {
+  const match = /^(\d+)d(\d+)([+-]\d+)?$/i.exec(value);
+  if (!match) return null;
+  return { count: parseInt(match[1], 10), size: parseInt(match[2], 10), bonus: match[3] ? parseInt(match[3], 10) : 0 };
+}
+
+function averageDice(dice: Dice): number {
+  return dice.count * (dice.size + 1) / 2 + dice.bonus;
+}
+
+// Area text is wrapped at 80 columns, our descriptions are single paragraphs
+function collapseText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// "the wizard" becomes "wizard", matching how our NPC and item names read
+function stripArticle(text: string): string {
+  return collapseText(text).replace(/^(a|an|the|some)\s+/i, '');
+}
+
+/**
+ * Split an area file into its sections (#AREA, #MOBILES, #ROOMS, ...)
+ */
+function splitSections(content: string): AreSection[] {
+  const sections: AreSection[] = [];
+  let current: AreSection | null = null;
+
+  for (const line of content.split('\n')) {
+    const header = /^#([A-Z]+|\$)\b(.*)$/.exec(line.trim());
+    if (header) {
+      current = { name: header[1], header: header[2].trim(), body: '' };
+      sections.push(current);
+    } else if (current) {
+      current.body += `${line}\n`;
+    }
+  }
+
+  return sections;
+}
+
+/**
+ * Split a #MOBILES, #OBJECTS or #ROOMS section into its #vnum entries, stopping at #0
+ */
+function splitEntries(body: string): { vnum: number, text: string }[] {
+  const parts = body.split(/^#(\d+)[ \t]*$/m);
+  const entries: { vnum: number, text: string }[] = [];
+
+  for (let i = 1; i < parts.length; i += 2) {
+    const vnum = parseInt(parts[i], 10);
+    if (vnum === 0) break;
+    entries.push({ vnum, text: parts[i + 1] || '' });
+  }
+  return entries;
+}
+
+class AreaImporter {
+  private rooms: Map<number, any> = new Map();
+  private npcs: Map<number, NPCData> = new Map();
+  private items: Map<number, GameItem> = new Map();
+  private notes: Map<string, number> = new Map();
+  private areaName: string = '';
+  private levelRange = { min: 1, max: 1 };
+
+  constructor(private zoneId: string, private prefix: string) {}
+
+  import(content: string): AreImportResult {
+    const sections = splitSections(content.replace(/\r/g, ''));
+
+    for (const section of sections) {
+      switch (section.name) {
+        case 'AREA':
+          this.parseArea(section);
+          break;
+        case 'MOBILES':
+          this.parseEntries(section, (reader, vnum) => this.parseMobile(reader, vnum));
+          break;
+        case 'OBJECTS':
+          this.parseEntries(section, (reader, vnum) => this.parseObject(reader, vnum));
+          break;
+        case 'ROOMS':
+          this.parseEntries(section, (reader, vnum) => this.parseRoom(reader, vnum));
+          break;
+        case 'RESETS':
+        case '$':
+          break;
+        default:
+          this.note(`#${section.name} section ignored`);
+      }
+    }
+
+    // Resets refer to rooms, mobiles and objects, so they go last
+    for (const section of sections.filter(section => section.name === 'RESETS')) {
+      this.parseResets(section.body);
+    }
+    this.checkExits();
+
+    return {
+      zone: {
+        id: this.zoneId,
+        name: this.areaName || this.zoneId,
+        levelRange: this.levelRange,
+        builders: [],
+        resetPolicy: { mode: 'always' },
+        rooms: Array.from(this.rooms.values())
+      },
+      npcs: Array.from(this.npcs.values()),
+      items: Array.from(this.items.values()),
+      report: Array.from(this.notes.entries()).map(([note, count]) => count > 1 ? `${note} (x${count})` : note)
+    };
+  }
+
+  private id(vnum: number): string {
+    return `${this.prefix}-${vnum}`;
+  }
+
+  private note(message: string): void {
+    this.notes.set(message, (this.notes.get(message) || 0) + 1);
+  }
+
+  private parseEntries(section: AreSection, parse: (reader: AreaReader, vnum: number) => void): void {
+    for (const entry of splitEntries(section.body)) {
+      try {
+        parse(new AreaReader(entry.text), entry.vnum);
+      } catch (error) {
+        this.note(`#${section.name} entry #${entry.vnum} couldn't be read: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  /**
+   * ROM puts the area details on their own lines, Merc on the header line,
+   * e.g. "#AREA { 5 35} Merc    Midgaard~"
+   */
+  private parseArea(section: AreSection): void {
+    let credits = section.header;
+    if (!credits) {
+      const reader = new AreaReader(section.body);
+      reader.readString(); // file name
+      this.areaName = collapseText(reader.readString());
+      credits = reader.readString();
+    }
+
+    const levels = /\{\s*(\d+)\s+(\d+)\s*\}/.exec(credits);
+    if (levels) {
+      const min = Math.max(1, parseInt(levels[1], 10));
+      this.levelRange = { min, max: Math.max(min, parseInt(levels[2], 10)) };
+    }
+
+    if (!this.areaName) {
+      // Credits end with the area's name after the author, separated by a run of spaces
+      const parts = credits.replace(/~.*$/, '').replace(/\{[^}]*\}/, '').trim().split(/\s{2,}|\t/);
+      this.areaName = collapseText(parts[parts.length - 1] || '');
+    }
+  }
+
+  private parseMobile(reader: AreaReader, vnum: number): void {
+    reader.readString(); // keywords
+    const shortDescription = reader.readString();
+    const longDescription = reader.readString();
+    const description = reader.readString();
+
+    let act: number;
+    let level: number;
+    let hit: Dice | null;
+    let dam: Dice | null;
+    let damageType = '';
+    let race = '';
+    let offense = 0;
+
+    if (reader.peekWord().endsWith('~')) {
+      // ROM: race, then a block of numbers and flags
+      race = reader.readString().trim().toLowerCase();
+      act = reader.readFlags();
+      reader.readFlags(); // affected
+      reader.readNumber(); // alignment
+      reader.readNumber(); // group
+      level = reader.readNumber();
+      reader.readNumber(); // hitroll
+      hit = parseDice(reader.readWord());
+      reader.readWord(); // mana
+      dam = parseDice(reader.readWord());
+      damageType = reader.readWord();
+      for (let i = 0; i < 4; i++) reader.readNumber(); // armor class
+      offense = reader.readFlags();
+      for (let i = 0; i < 3; i++) reader.readFlags(); // immunities, resistances, vulnerabilities
+      reader.readWord(); // start position
+      reader.readWord(); // default position
+      reader.readWord(); // sex
+      reader.readNumber(); // wealth
+      reader.readFlags(); // form
+      reader.readFlags(); // parts
+      reader.readWord(); // size
+      reader.readWord(); // material
+      this.note('Mobile alignment, hitroll, mana, armor class, immunities, positions, sex, wealth, size and material ignored');
+
+      while (!reader.atEnd()) {
+        const letter = reader.peekWord();
+        if (letter === 'F') {
+          reader.readWord();
+          reader.readWord();
+          reader.readFlags();
+          this.note('Mobile flag removals (F lines) ignored');
+        } else if (letter === 'M') {
+          reader.readWord();
+          reader.readWord();
+          reader.readNumber();
+          reader.readString();
+          this.note('Mobile programs (M lines) ignored');
+        } else {
+          break;
+        }
+      }
+    } else {
+      // Merc/Diku: act affected alignment S, then level, dice, gold and positions
+      act = reader.readFlags();
+      reader.readFlags(); // affected
+      reader.readNumber(); // alignment
+      reader.readWord(); // S
+      level = reader.readNumber();
+      reader.readNumber(); // hitroll
+      reader.readNumber(); // armor class
+      hit = parseDice(reader.readWord());
+      dam = parseDice(reader.readWord());
+      this.note('Mobile alignment, hitroll, armor class, gold, experience, positions and sex ignored');
+    }
+
+    const health = Math.max(1, Math.round(hit ? averageDice(hit) : level * 8 + 10));
+    const minDamage = dam ? Math.max(0, dam.count + dam.bonus) : 1;
+    const maxDamage = dam ? Math.max(minDamage, dam.count * dam.size + dam.bonus) : Math.max(2, level);
+    const attackTexts = ['attacks $TARGET$', 'lunges at $TARGET$'];
+    if (damageType && damageType !== 'none') {
+      attackTexts.unshift(`strikes $TARGET$ with a ${damageType} attack`);
+    }
+
+    const npc: NPCData = {
+      id: this.id(vnum),
+      name: stripArticle(shortDescription) || this.id(vnum),
+      description: collapseText(description) || collapseText(longDescription),
+      health,
+      maxHealth: health,
+      damage: [minDamage, maxDamage],
+      isHostile: hasBit(act, ACT_AGGRESSIVE_BIT),
+      isPassive: false,
+      experienceValue: Math.max(10, level * 50),
+      level: Math.max(1, level),
+      damageType: ATTACK_DAMAGE_TYPES[damageType.toLowerCase()],
+      attackTexts,
+      deathMessages: ['collapses to the ground, dead'],
+      // Mobs without the sentinel flag roam their area
+      behavior: { type: hasBit(act, ACT_SENTINEL_BIT) ? 'sentinel' : 'wander' }
+    };
+
+    // Mobs of a race band together; ROM's assist-race and assist-vnum mobs defend their own kind
+    if (race) {
+      npc.faction = race;
+      if (hasBit(offense, OFF_ASSIST_RACE_BIT) || hasBit(offense, OFF_ASSIST_VNUM_BIT)) {
+        npc.assists = [race];
+      }
+    }
+    this.npcs.set(vnum, npc);
+  }
+
+  private parseObject(reader: AreaReader, vnum: number): void {
+    reader.readString(); // keywords
+    const shortDescription = reader.readString();
+    const longDescription = reader.readString();
+    reader.readString(); // ROM material, Merc action description
+
+    const typeWord = reader.readWord();
+    const isMerc = /^\d+$/.test(typeWord);
+    const itemType = isMerc ? (MERC_ITEM_TYPES[parseInt(typeWord, 10)] || `type ${typeWord}`) : typeWord.toLowerCase();
+    reader.readFlags(); // extra flags
+    const wear = reader.readFlags();
+
+    // ROM has five values and may spell them out, Merc has four numbers
+    const values: string[] = [];
+    for (let i = 0; i < (isMerc ? 4 : 5); i++) values.push(reader.readWord());
+
+    let level = 0;
+    let weight: number;
+    let cost: number;
+    if (isMerc) {
+      weight = reader.readNumber();
+      cost = reader.readNumber();
+      reader.readNumber(); // rent
+    } else {
+      level = reader.readNumber();
+      weight = Math.ceil(reader.readNumber() / 10); // ROM weights are in tenths of a pound
+      cost = reader.readNumber();
+      reader.readWord(); // condition
+    }
+
+    const item: GameItem = {
+      id: this.id(vnum),
+      name: stripArticle(shortDescription) || this.id(vnum),
+      description: collapseText(longDescription) || collapseText(shortDescription),
+      type: 'misc',
+      value: Math.max(0, cost),
+      weight: Math.max(0, weight)
+    };
+    const stats: NonNullable<GameItem['stats']> = {};
+
+    if (itemType === 'weapon') {
+      item.type = 'weapon';
+      item.slot = EquipmentSlot.MAIN_HAND;
+      const attack = Math.round(averageDice({ count: parseInt(values[1], 10) || 0, size: parseInt(values[2], 10) || 0, bonus: 0 }));
+      if (attack > 0) stats.attack = attack;
+    } else if (itemType === 'armor' || itemType === 'clothing') {
+      item.type = 'armor';
+      const defense = parseInt(values[0], 10) || 0;
+      if (defense > 0) stats.defense = defense;
+    } else if (CONSUMABLE_ITEM_TYPES.includes(itemType)) {
+      item.type = 'consumable';
+      this.note('Consumable effects (spells, nourishment) ignored');
+    } else if (itemType === 'light') {
+      item.light = true;
+    }
+
+    if (!SUPPORTED_ITEM_TYPES.includes(itemType)) {
+      this.note(`Object type '${itemType}' has no equivalent, imported as misc`);
+    }
+
+    if (!item.slot && item.type === 'armor') {
+      const slot = WEAR_SLOT_BITS.find(([bit]) => hasBit(wear, bit));
+      if (slot) item.slot = slot[1];
+    }
+    if (!hasBit(wear, WEAR_TAKE_BIT)) {
+      this.note('Objects without the take flag imported as ordinary items');
+    }
+    if (level > 0) {
+      item.requirements = { level };
+    }
+
+    while (!reader.atEnd()) {
+      const letter = reader.readWord();
+      if (letter === 'A') {
+        const location = reader.readNumber();
+        const modifier = reader.readNumber();
+        const stat = APPLY_STATS[location];
+        if (stat) {
+          stats[stat] = (stats[stat] || 0) + modifier;
+        } else if (location === APPLY_AC) {
+          // Lower armor class is better
+          stats.defense = (stats.defense || 0) - modifier;
+        } else {
+          this.note(`Object apply location ${location} ignored`);
+        }
+      } else if (letter === 'E') {
+        reader.readString();
+        reader.readString();
+        this.note('Object extra descriptions ignored');
+      } else if (letter === 'F') {
+        reader.readWord();
+        reader.readNumber();
+        reader.readNumber();
+        reader.readFlags();
+        this.note('Object affect flags (F lines) ignored');
+      } else {
+        this.note(`Unknown object field '${letter}' ignored`);
+        break;
+      }
+    }
+
+    if (Object.keys(stats).length > 0) {
+      item.stats = stats;
+    }
+    this.items.set(vnum, item);
+  }
+
+  private parseRoom(reader: AreaReader, vnum: number): void {
+    const name = collapseText(reader.readString());
+    const description = collapseText(reader.readString());
+    reader.readNumber(); // area number
+    const roomFlags = reader.readFlags();
+    const sector = reader.readNumber();
+
+    const flags: RoomFlag[] = ROOM_FLAG_BITS.filter(([bit]) => hasBit(roomFlags, bit)).map(([, flag]) => flag);
+    if (sector === SECTOR_INSIDE && !flags.includes('indoors')) {
+      flags.push('indoors');
+    }
+    const knownBits = ROOM_FLAG_BITS.reduce((mask, [bit]) => mask | (1 << bit), 0);
+    if ((roomFlags & ~knownBits) !== 0) {
+      this.note('Room flags other than dark, no_mob, indoors, safe and no_recall ignored');
+    }
+
+    const exits: Exit[] = [];
+    while (!reader.atEnd()) {
+      const field = reader.readWord();
+      if (field === 'S') break;
+
+      const exitMatch = /^D([0-5])$/.exec(field);
+      if (exitMatch) {
+        const exitDescription = reader.readString();
+        const keywords = reader.readString();
+        const locks = reader.readNumber();
+        const key = reader.readNumber();
+        const toVnum = reader.readNumber();
+
+        if (collapseText(exitDescription)) {
+          this.note('Exit descriptions ignored');
+        }
+        if (toVnum <= 0) {
+          this.note('Exits without a destination room skipped');
+          continue;
+        }
+
+        const exit: Exit = { direction: EXIT_DIRECTIONS[parseInt(exitMatch[1], 10)], roomId: this.id(toVnum) };
+        if (locks > 0) {
+          const doorName = collapseText(keywords).split(' ')[0];
+          exit.door = {
+            state: 'open',
+            ...(doorName && { name: doorName }),
+            ...(key > 0 && { keyId: this.id(key) }),
+            pickDifficulty: PICKPROOF_LOCK_TYPES.includes(locks) ? 0 : DEFAULT_ARE_PICK_DIFFICULTY
+          };
+        }
+        exits.push(exit);
+      } else if (field === 'E') {
+        reader.readString();
+        reader.readString();
+        this.note('Room extra descriptions ignored');
+      } else if (field === 'H' || field === 'M') {
+        reader.readNumber();
+        this.note('Room heal and mana rates ignored');
+      } else if (field === 'C' || field === 'O') {
+        reader.readString();
+        this.note('Room clan and owner ignored');
+      } else {
+        this.note(`Unknown room field '${field}' ignored`);
+        break;
+      }
+    }
+
+    this.rooms.set(vnum, {
+      id: this.id(vnum),
+      name: name || this.id(vnum),
+      description,
+      exits,
+      items: [],
+      itemInstances: [],
+      npcs: [],
+      currency: { gold: 0, silver: 0, copper: 0 },
+      ...(flags.length > 0 && { flags })
+    });
+  }
+
+  /**
+   * M and O resets become room reset rules, D resets set the initial door state
+   */
+  private parseResets(body: string): void {
+    // E resets equip the mobile loaded by the M reset before them
+    let lastMobile: number | undefined;
+
+    for (const line of body.split('\n')) {
+      const tokens = line.trim().split(/\s+/);
+      const command = tokens[0];
+      if (!command || command.startsWith('*')) continue;
+      if (command === 'S') break;
+
+      const args = tokens.slice(1).map(token => parseInt(token, 10));
+      switch (command) {
+        case 'M': {
+          // M 0 <mob> <world limit> <room> [room limit]
+          const room = this.getResetRoom(args[3]);
+          if (!room) continue;
+          if (!this.npcs.has(args[1])) this.note('Resets for mobiles defined outside this area kept');
+          room.npcs.push(this.id(args[1]));
+          this.addResetRule(room, 'npc', this.id(args[1]));
+          lastMobile = args[1];
+          break;
+        }
+        case 'O': {
+          // O 0 <object> <limit> <room>
+          const room = this.getResetRoom(args[3]);
+          if (!room) continue;
+          if (!this.items.has(args[1])) this.note('Resets for objects defined outside this area kept');
+          this.addResetRule(room, 'item', this.id(args[1]));
+          break;
+        }
+        case 'D': {
+          // D 0 <room> <direction> <state>, where 1 is closed and 2 is locked
+          const room = this.getResetRoom(args[1]);
+          const exit = room?.exits.find((candidate: Exit) => candidate.direction === EXIT_DIRECTIONS[args[2]]);
+          if (!exit) {
+            this.note('D resets for missing exits skipped');
+            continue;
+          }
+          const state = args[3] === 2 ? 'locked' : args[3] === 1 ? 'closed' : 'open';
+          exit.door = { ...(exit.door || {}), state };
+          break;
+        }
+        case 'E': {
+          // E 0 <object> <limit> <wear location>; the equipment goes on the mobile's template,
+          // so every copy of it spawns wearing the same things
+          const npc = lastMobile === undefined ? undefined : this.npcs.get(lastMobile);
+          const slot = WEAR_LOCATION_SLOTS[args[3]];
+          if (!npc || !this.items.has(args[1])) {
+            this.note('E resets for mobiles or objects defined outside this area skipped');
+          } else if (!slot) {
+            this.note('E resets for wear locations without an equipment slot skipped');
+          } else if (!npc.equipment?.[slot]) {
+            npc.equipment = { ...npc.equipment, [slot]: this.id(args[1]) };
+          }
+          break;
+        }
+        case 'G':
+          this.note('G resets (mobile inventory) ignored');
+          break;
+        case 'P':
+          this.note('P resets (objects inside containers) ignored');
+          break;
+        case 'R':
+          this.note('R resets (randomised exits) ignored');
+          break;
+        default:
+          this.note(`Unknown reset command '${command}' ignored`);
+      }
+    }
+  }
+
+  private getResetRoom(vnum: number): any {
+    const room = this.rooms.get(vnum);
+    if (!room) {
+      this.note('Resets into rooms outside this area skipped');
+    }
+    return room;
+  }
+
+  // Each M or O reset for the same template in a room raises that room's count by one
+  private addResetRule(room: any, type: ResetRule['type'], templateId: string): void {
+    room.resets = room.resets || [];
+    const rule = room.resets.find((candidate: ResetRule) => candidate.type === type && candidate.templateId === templateId);
+    if (rule) {
+      rule.maxCount++;
+    } else {
+      room.resets.push({ type, templateId, maxCount: 1 });
+    }
+  }
+
+  private checkExits(): void {
+    const roomIds = new Set(Array.from(this.rooms.values()).map(room => room.id));
+    for (const room of this.rooms.values()) {
+      for (const exit of room.exits as Exit[]) {
+        if (!roomIds.has(exit.roomId)) {
+          this.note('Exits to rooms outside this area kept; import those areas with the same prefix to connect them');
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Convert the contents of a .are file without touching any data files
+ * @param zoneId ID of the zone the area's rooms go into
+ * @param prefix Prefix for room, NPC and item IDs, which are built from vnums
+ */
+export function parseAreFile(content: string, zoneId: string, prefix: string = DEFAULT_ARE_ID_PREFIX): AreImportResult {
+  return new AreaImporter(zoneId, prefix).import(content);
+}
+
+/**
+ * Import a .are file as a new zone file, adding its NPCs and items to the
+ * existing template files. Everything is validated before anything is written.
+ * @throws Error if the zone already exists or the converted data doesn't validate
+ */
+export function importAreFile(filePath: string, paths: AreImportPaths, prefix: string = DEFAULT_ARE_ID_PREFIX): AreImportResult {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Area file not found: ${filePath}`);
+  }
+
+  const zoneId = path.basename(filePath, path.extname(filePath)).toLowerCase().replace(/[^a-z0-9-]+/g, '-');
+  const zoneFile = path.join(paths.zonesDir, `${zoneId}.json`);
+  if (fs.existsSync(zoneFile)) {
+    throw new Error(`Zone '${zoneId}' already exists: ${zoneFile}`);
+  }
+
+  const result = parseAreFile(fs.readFileSync(filePath, 'utf8'), zoneId, prefix);
+  const npcs = mergeTemplates(paths.npcsFile, result.npcs, 'NPC', result.report);
+  const items = mergeTemplates(paths.itemsFile, result.items, 'item', result.report);
+
+  if (!parseAndValidateJson(JSON.stringify(result.zone), 'zones')) {
+    throw new Error(`Converted zone '${zoneId}' failed validation`);
+  }
+  if (!parseAndValidateJson(JSON.stringify(npcs), 'npcs')) {
+    throw new Error('Converted NPCs failed validation');
+  }
+  if (!parseAndValidateJson(JSON.stringify(items), 'items')) {
+    throw new Error('Converted items failed validation');
+  }
+
+  if (!saveJsonFileAtomic(paths.npcsFile, npcs) ||
+      !saveJsonFileAtomic(paths.itemsFile, items) ||
+      !saveJsonFileAtomic(zoneFile, result.zone)) {
+    throw new Error('Failed to write imported data');
+  }
+
+  return result;
+}
+
+/**
+ * Add imported templates to an existing template file; templates that are already there win
+ */
+function mergeTemplates<T extends { id: string }>(filePath: string, imported: T[], kind: string, report: string[]): T[] {
+  const existing: T[] = fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf8')) : [];
+  const existingIds = new Set(existing.map(template => template.id));
+
+  const added = imported.filter(template => !existingIds.has(template.id));
+  if (added.length < imported.length) {
+    report.push(`${imported.length - added.length} ${kind} template(s) already exist and were kept unchanged`);
+  }
+  return [...existing, ...added];
+}
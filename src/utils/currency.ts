@@ -0,0 +1,59 @@
+import { Currency } from '../types';
+
+// Exchange rates between the coin denominations
+export const COPPER_PER_SILVER = 10;
+export const SILVER_PER_GOLD = 10;
+export const COPPER_PER_GOLD = COPPER_PER_SILVER * SILVER_PER_GOLD;
+
+/**
+ * Total worth of a purse in copper, the unit item values are given in
+ */
+export function toCopper(currency: Partial<Currency>): number {
+  return (currency.gold || 0) * COPPER_PER_GOLD
+    + (currency.silver || 0) * COPPER_PER_SILVER
+    + (currency.copper || 0);
+}
+
+/**
+ * Split an amount of copper into as few coins as possible
+ */
+export function fromCopper(amount: number): Currency {
+  const copper = Math.max(0, Math.floor(amount));
+  return {
+    gold: Math.floor(copper / COPPER_PER_GOLD),
+    silver: Math.floor((copper % COPPER_PER_GOLD) / COPPER_PER_SILVER),
+    copper: copper % COPPER_PER_SILVER
+  };
+}
+
+/**
+ * Put coins into a purse
+ */
+export function addCurrency(purse: Currency, amount: Partial<Currency>): void {
+  purse.gold += amount.gold || 0;
+  purse.silver += amount.silver || 0;
+  purse.copper += amount.copper || 0;
+}
+
+/**
+ * Pay an amount of copper out of a purse, breaking larger coins for change
+ * @returns false, leaving the purse untouched, if it doesn't hold enough
+ */
+export function spendCurrency(purse: Currency, amount: number): boolean {
+  const remaining = toCopper(purse) - amount;
+  if (remaining < 0) return false;
+
+  Object.assign(purse, fromCopper(remaining));
+  return true;
+}
+
+/**
+ * Describe coins for players, e.g. "2 gold, 5 copper"; empty when there are none
+ */
+export function formatCurrency(currency: Partial<Currency>): string {
+  const parts = [];
+  if (currency.gold && currency.gold > 0) parts.push(`${currency.gold} gold`);
+  if (currency.silver && currency.silver > 0) parts.push(`${currency.silver} silver`);
+  if (currency.copper && currency.copper > 0) parts.push(`${currency.copper} copper`);
+  return parts.join(', ');
+}
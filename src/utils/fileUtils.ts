@@ -13,7 +13,7 @@ import { isDebugMode } from './debugUtils';
  */
 export function loadAndValidateJsonFile<T>(
   filePath: string,
-  dataType: 'rooms' | 'users' | 'items' | 'npcs'
+  dataType: 'rooms' | 'zones' | 'users' | 'items' | 'npcs'
 ): T | undefined {
   try {
     if (!fs.existsSync(filePath)) {
@@ -51,6 +51,34 @@ export function saveJsonFile(filePath: string, data: any): boolean {
   }
 }
 
+/**
+ * Save data to a JSON file atomically, by writing a temporary file and renaming
+ * it over the target so readers never see a partially written file
+ * 
+ * @param filePath Path to save the file
+ * @param data Data to save
+ * @returns True if successful, false otherwise
+ */
+export function saveJsonFileAtomic(filePath: string, data: any): boolean {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  try {
+    const dirPath = path.dirname(filePath);
+    if (!fs.existsSync(dirPath)) {
+      fs.mkdirSync(dirPath, { recursive: true });
+    }
+    
+    fs.writeFileSync(tempPath, JSON.stringify(data, null, 2), 'utf8');
+    fs.renameSync(tempPath, filePath);
+    return true;
+  } catch (error) {
+    systemLogger.error(`Error saving to ${filePath}:`, error);
+    if (fs.existsSync(tempPath)) {
+      fs.unlinkSync(tempPath);
+    }
+    return false;
+  }
+}
+
 /**
  * Creates a reference file with log information for debugging
  * 
@@ -19,6 +19,19 @@ const DATA_DIR = path.join(__dirname, "..", "..", "data");
 const ITEMS_FILE = path.join(DATA_DIR, "items.json");
 const ITEM_INSTANCES_FILE = path.join(DATA_DIR, "itemInstances.json");
 
+// An item held in one hand, resolved to its template
+export interface WieldedItem {
+  slot: EquipmentSlot.MAIN_HAND | EquipmentSlot.OFF_HAND;
+  instanceId: string;
+  template: GameItem;
+}
+
+// What a player or NPC holds in its hands
+export interface WieldedItems {
+  weapons: WieldedItem[]; // In swing order, main hand first
+  shield?: WieldedItem; // Armor held in the off hand
+}
+
 export class ItemManager {
   private static instance: ItemManager | null = null;
   private items: Map<string, GameItem> = new Map();
@@ -67,7 +80,14 @@ export class ItemManager {
     this.itemInstances.clear();
 
     // Process each validated instance
+    let npcGear = 0;
     instanceData.forEach((instance) => {
+      // NPCs aren't saved, so gear they held belongs to NPCs that no longer exist
+      if (instance.properties?.heldByNpc) {
+        npcGear++;
+        return;
+      }
+
       // Convert string dates back to Date objects
       instance.created = new Date(instance.created);
       if (instance.history) {
@@ -79,6 +99,9 @@ export class ItemManager {
       this.itemInstances.set(instance.instanceId, instance);
     });
 
+    if (npcGear > 0) {
+      itemLogger.info(`Dropped ${npcGear} item instance(s) held by NPCs from the last run`);
+    }
     itemLogger.info("Pre-validated item instances loaded successfully");
   }
 
@@ -879,6 +902,31 @@ export class ItemManager {
     return instance.properties.boundTo === playerName;
   }
 
+  /**
+   * Resolve the weapons and shield in a player's or NPC's hands from its equipment
+   */
+  public getWieldedItems(equipment: { [slot: string]: string } | undefined): WieldedItems {
+    const wielded: WieldedItems = { weapons: [] };
+    if (!equipment) return wielded;
+
+    for (const slot of [EquipmentSlot.MAIN_HAND, EquipmentSlot.OFF_HAND] as const) {
+      const instanceId = equipment[slot];
+      if (!instanceId) continue;
+
+      // Older equipment may still hold template ids instead of instance ids
+      const template = this.getTemplateForInstance(instanceId) || this.getItem(instanceId);
+      if (!template) continue;
+
+      if (template.type === 'weapon') {
+        wielded.weapons.push({ slot, instanceId, template });
+      } else if (slot === EquipmentSlot.OFF_HAND && template.type === 'armor') {
+        wielded.shield = { slot, instanceId, template };
+      }
+    }
+
+    return wielded;
+  }
+
   /**
    * Calculate a user's attack value based on their equipment, now using instance IDs
    */
@@ -917,6 +965,19 @@ export class ItemManager {
     return defense;
   }
 
+  /**
+   * Check whether a user carries or wears an item that gives off light
+   */
+  public hasLightSource(user: User): boolean {
+    const instanceIds = [
+      ...user.inventory.items,
+      ...Object.values(user.equipment || {})
+    ];
+
+    // Older inventories may still hold template ids instead of instance ids
+    return instanceIds.some(id => (this.getTemplateForInstance(id) || this.getItem(id))?.light === true);
+  }
+
   // Method to get the current server time
   public getCurrentServerTime(): string {
     return new Date().toISOString();
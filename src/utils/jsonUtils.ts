@@ -1,6 +1,7 @@
 import { systemLogger } from './logger';
 import { 
   validateRooms, 
+  validateZones,
   validateUsers, 
   validateItems,
   validateItemInstances,
@@ -21,12 +22,12 @@ export class JsonValidationError extends Error {
  * Parse and validate JSON input based on its data type
  * 
  * @param jsonString The JSON string to parse and validate
- * @param dataType The type of data to validate ('rooms', 'users', 'items', 'npcs')
+ * @param dataType The type of data to validate ('rooms', 'zones', 'users', 'items', 'npcs')
  * @returns The parsed and validated data or undefined if validation fails
  */
 export function parseAndValidateJson<T>(
   jsonString: string | null | undefined, 
-  dataType: 'rooms' | 'users' | 'items' | 'npcs'
+  dataType: 'rooms' | 'zones' | 'users' | 'items' | 'npcs'
 ): T | undefined {
   if (!jsonString) {
     return undefined;
@@ -45,6 +46,10 @@ export function parseAndValidateJson<T>(
         isValid = validateRooms(data);
         validator = validateRooms;
         break;
+      case 'zones':
+        isValid = validateZones(data);
+        validator = validateZones;
+        break;
       case 'users':
         isValid = validateUsers(data);
         validator = validateUsers;
@@ -118,6 +123,9 @@ function validateBusinessRules(data: any, dataType: string): void {
     case 'rooms':
       validateRoomBusinessRules(data);
       break;
+    case 'zones':
+      validateZoneBusinessRules(data);
+      break;
     case 'users':
       validateUserBusinessRules(data);
       break;
@@ -172,6 +180,27 @@ function validateRoomBusinessRules(rooms: any[]): void {
   });
 }
 
+/**
+ * Validate zone-specific business rules
+ * Exits are not checked here since they may lead into rooms of other zones
+ */
+function validateZoneBusinessRules(zone: any): void {
+  if (zone.levelRange && zone.levelRange.min > zone.levelRange.max) {
+    throw new JsonValidationError(
+      `Zone ${zone.id} has an invalid level range: ${zone.levelRange.min}-${zone.levelRange.max}`
+    );
+  }
+
+  // Check for duplicate room IDs within the zone
+  const roomIds = new Set<string>();
+  zone.rooms.forEach((room: any, index: number) => {
+    if (roomIds.has(room.id)) {
+      throw new JsonValidationError(`Duplicate room ID: ${room.id} at index ${index} in zone ${zone.id}`);
+    }
+    roomIds.add(room.id);
+  });
+}
+
 /**
  * Validate user-specific business rules
  */
@@ -229,6 +258,14 @@ function validateNpcBusinessRules(npcs: any[]): void {
       throw new JsonValidationError(`Duplicate NPC ID: ${npc.id} at index ${index}`);
     }
     npcIds.add(npc.id);
+    
+    if (npc.damage && npc.damage[0] > npc.damage[1]) {
+      throw new JsonValidationError(`NPC ${npc.id} has a minimum damage above its maximum`);
+    }
+    
+    if (npc.health !== undefined && npc.maxHealth !== undefined && npc.health > npc.maxHealth) {
+      throw new JsonValidationError(`NPC ${npc.id} has more health than its maxHealth`);
+    }
   });
 }
 
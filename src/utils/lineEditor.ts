@@ -0,0 +1,99 @@
+import { ConnectedClient } from '../types';
+import { colorize } from './colors';
+import { writeToClient } from './socketWriter';
+
+/**
+ * A simple line-based text editor used for multi-line input such as room descriptions.
+ * While an editor is active, every line the client enters is captured instead of
+ * being run as a command.
+ */
+export interface LineEditorSession {
+  title: string;
+  lines: string[];
+  onSave: (text: string) => void;
+  onCancel?: () => void;
+}
+
+/**
+ * Start a line editor for a client
+ * @param client The client to capture input from
+ * @param title Shown in the editor header
+ * @param initialText Text to start editing from
+ * @param onSave Called with the lines joined by spaces when the user saves
+ * @param onCancel Called if the user aborts the editor
+ */
+export function startLineEditor(
+  client: ConnectedClient,
+  title: string,
+  initialText: string,
+  onSave: (text: string) => void,
+  onCancel?: () => void
+): void {
+  const session: LineEditorSession = {
+    title,
+    lines: initialText ? [initialText] : [],
+    onSave,
+    onCancel
+  };
+
+  client.stateData.lineEditor = session;
+
+  writeToClient(client, colorize(`=== Editing ${title} ===\r\n`, 'boldCyan'));
+  writeToClient(client, colorize(`Enter text one line at a time. Commands on a line by themselves:\r\n`, 'cyan'));
+  writeToClient(client, colorize(`  .   save and exit    .q  cancel\r\n`, 'cyan'));
+  writeToClient(client, colorize(`  .p  show the text    .c  clear the text\r\n`, 'cyan'));
+  printLines(client, session);
+}
+
+/**
+ * Check whether a client currently has an active line editor
+ */
+export function isLineEditorActive(client: ConnectedClient): boolean {
+  return Boolean(client.stateData && client.stateData.lineEditor);
+}
+
+/**
+ * Feed a line of input to the client's active editor
+ */
+export function handleLineEditorInput(client: ConnectedClient, input: string): void {
+  const session = client.stateData.lineEditor as LineEditorSession | undefined;
+  if (!session) return;
+
+  const line = input.trim();
+
+  switch (line) {
+    case '.':
+      delete client.stateData.lineEditor;
+      session.onSave(session.lines.join(' ').trim());
+      return;
+    case '.q':
+      delete client.stateData.lineEditor;
+      writeToClient(client, colorize(`Editing cancelled.\r\n`, 'yellow'));
+      if (session.onCancel) {
+        session.onCancel();
+      }
+      return;
+    case '.p':
+      printLines(client, session);
+      return;
+    case '.c':
+      session.lines = [];
+      writeToClient(client, colorize(`Text cleared.\r\n`, 'yellow'));
+      return;
+    default:
+      if (line.length > 0) {
+        session.lines.push(line);
+      }
+  }
+}
+
+function printLines(client: ConnectedClient, session: LineEditorSession): void {
+  if (session.lines.length === 0) {
+    writeToClient(client, colorize(`(empty)\r\n`, 'dim'));
+    return;
+  }
+
+  session.lines.forEach((line, index) => {
+    writeToClient(client, colorize(`${String(index + 1).padStart(2)}] `, 'dim') + colorize(`${line}\r\n`, 'white'));
+  });
+}
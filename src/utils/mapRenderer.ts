@@ -0,0 +1,197 @@
+import { Exit } from '../types';
+import { Room } from '../room/room';
+
+/**
+ * Builds ASCII maps from the room exit graph. Rooms are laid out on a compass grid
+ * starting from one room; up and down don't move on the grid and are shown as glyphs
+ * inside the room's cell instead.
+ */
+
+// Grid offsets for the compass directions
+const DIRECTION_OFFSETS: { [direction: string]: [number, number] } = {
+  north: [0, -1],
+  south: [0, 1],
+  east: [1, 0],
+  west: [-1, 0],
+  northeast: [1, -1],
+  northwest: [-1, -1],
+  southeast: [1, 1],
+  southwest: [-1, 1]
+};
+
+const DIRECTION_ABBREVIATIONS: { [abbreviation: string]: string } = {
+  n: 'north', s: 'south', e: 'east', w: 'west',
+  ne: 'northeast', nw: 'northwest', se: 'southeast', sw: 'southwest',
+  u: 'up', d: 'down'
+};
+
+export const MAP_GLYPHS = {
+  player: '@',
+  up: '^',
+  down: 'v',
+  upAndDown: '%',
+  problem: '!',
+  closedDoor: '#'
+};
+
+export interface MapLayout {
+  // Grid position of every room that was placed
+  positions: Map<string, { x: number, y: number }>;
+  // Rooms that were reached but whose grid cell was already taken by another room
+  overlaps: string[];
+}
+
+export interface MapLayoutOptions {
+  getRoom: (roomId: string) => Room | undefined;
+  // Only rooms passing this check are placed or walked through
+  canShow: (room: Room) => boolean;
+  // How many steps away from the start room to walk
+  maxSteps: number;
+  // Exits failing this check are ignored, all exits are used if it isn't given
+  canShowExit?: (room: Room, exit: Exit) => boolean;
+}
+
+export interface MapRenderOptions {
+  getRoom: (roomId: string) => Room | undefined;
+  currentRoomId?: string;
+  // Rooms drawn with the problem glyph
+  markedRoomIds?: Set<string>;
+  // Exits failing this check aren't drawn, all exits are drawn if it isn't given
+  canShowExit?: (room: Room, exit: Exit) => boolean;
+}
+
+/**
+ * Normalize an exit direction to its full compass name
+ */
+export function normalizeMapDirection(direction: string): string {
+  const lower = direction.toLowerCase();
+  return DIRECTION_ABBREVIATIONS[lower] || lower;
+}
+
+/**
+ * Get the grid offset for a direction, or undefined for up, down and unknown directions
+ */
+export function getDirectionOffset(direction: string): [number, number] | undefined {
+  return DIRECTION_OFFSETS[normalizeMapDirection(direction)];
+}
+
+/**
+ * Walk the exit graph breadth-first from a room and assign grid positions
+ */
+export function buildMapLayout(startRoom: Room, options: MapLayoutOptions): MapLayout {
+  const positions = new Map<string, { x: number, y: number }>();
+  const occupied = new Map<string, string>();
+  const overlaps: string[] = [];
+  const queue: { room: Room, x: number, y: number, steps: number }[] = [];
+
+  positions.set(startRoom.id, { x: 0, y: 0 });
+  occupied.set('0,0', startRoom.id);
+  queue.push({ room: startRoom, x: 0, y: 0, steps: 0 });
+
+  while (queue.length > 0) {
+    const { room, x, y, steps } = queue.shift()!;
+    if (steps >= options.maxSteps) continue;
+
+    for (const exit of getShownExits(room, options.canShowExit)) {
+      const offset = getDirectionOffset(exit.direction);
+      if (!offset || positions.has(exit.roomId)) continue;
+
+      const target = options.getRoom(exit.roomId);
+      if (!target || !options.canShow(target)) continue;
+
+      const nextX = x + offset[0];
+      const nextY = y + offset[1];
+      const cell = `${nextX},${nextY}`;
+      if (occupied.has(cell)) {
+        if (!overlaps.includes(target.id)) {
+          overlaps.push(target.id);
+        }
+        continue;
+      }
+
+      positions.set(target.id, { x: nextX, y: nextY });
+      occupied.set(cell, target.id);
+      queue.push({ room: target, x: nextX, y: nextY, steps: steps + 1 });
+    }
+  }
+
+  // A room first seen as an overlap may have been placed later through another path
+  return { positions, overlaps: overlaps.filter(roomId => !positions.has(roomId)) };
+}
+
+/**
+ * Render a layout as lines of text. Each room is a three character cell like [ ],
+ * with connectors drawn between cells for every compass exit.
+ */
+export function renderMap(layout: MapLayout, options: MapRenderOptions): string[] {
+  const coords = Array.from(layout.positions.values());
+  if (coords.length === 0) return [];
+
+  const minX = Math.min(...coords.map(c => c.x));
+  const maxX = Math.max(...coords.map(c => c.x));
+  const minY = Math.min(...coords.map(c => c.y));
+  const maxY = Math.max(...coords.map(c => c.y));
+
+  // Leave a margin of one character around the grid for exits leading off the map
+  const width = (maxX - minX) * 4 + 5;
+  const height = (maxY - minY) * 2 + 3;
+  const grid: string[][] = Array.from({ length: height }, () => new Array(width).fill(' '));
+
+  const put = (row: number, col: number, char: string) => {
+    const existing = grid[row][col];
+    // Diagonals crossing between four rooms
+    grid[row][col] = (existing === '/' && char === '\\') || (existing === '\\' && char === '/') ? 'X' : char;
+  };
+
+  for (const [roomId, position] of layout.positions) {
+    const room = options.getRoom(roomId);
+    if (!room) continue;
+
+    const col = (position.x - minX) * 4 + 1;
+    const row = (position.y - minY) * 2 + 1;
+
+    grid[row][col] = '[';
+    grid[row][col + 1] = getRoomGlyph(room, options);
+    grid[row][col + 2] = ']';
+
+    for (const exit of getShownExits(room, options.canShowExit)) {
+      const offset = getDirectionOffset(exit.direction);
+      if (!offset) continue;
+
+      const [dx, dy] = offset;
+      put(row + dy, dx === 0 ? col + 1 : (dx > 0 ? col + 3 : col - 1), getConnector(exit, dx, dy));
+    }
+  }
+
+  return grid.map(line => line.join('').replace(/\s+$/, '')).filter((line, index, lines) => {
+    // Drop the margin rows when nothing leads off the top or bottom of the map
+    return line.length > 0 || (index > 0 && index < lines.length - 1);
+  });
+}
+
+function getShownExits(room: Room, canShowExit?: (room: Room, exit: Exit) => boolean): Exit[] {
+  return canShowExit ? room.exits.filter(exit => canShowExit(room, exit)) : room.exits;
+}
+
+function getRoomGlyph(room: Room, options: MapRenderOptions): string {
+  if (room.id === options.currentRoomId) return MAP_GLYPHS.player;
+  if (options.markedRoomIds && options.markedRoomIds.has(room.id)) return MAP_GLYPHS.problem;
+
+  const exits = getShownExits(room, options.canShowExit);
+  const hasUp = exits.some(exit => normalizeMapDirection(exit.direction) === 'up');
+  const hasDown = exits.some(exit => normalizeMapDirection(exit.direction) === 'down');
+  if (hasUp && hasDown) return MAP_GLYPHS.upAndDown;
+  if (hasUp) return MAP_GLYPHS.up;
+  if (hasDown) return MAP_GLYPHS.down;
+  return ' ';
+}
+
+function getConnector(exit: Exit, dx: number, dy: number): string {
+  if (exit.door && exit.door.state !== 'open' && (dx === 0 || dy === 0)) {
+    return MAP_GLYPHS.closedDoor;
+  }
+
+  if (dx === 0) return '|';
+  if (dy === 0) return '-';
+  return dx === dy ? '\\' : '/';
+}
@@ -2,6 +2,22 @@ import fs from 'fs';
 import path from 'path';
 import { parseAndValidateJson, formatValidationErrors, JsonValidationError } from './jsonUtils';
 import { systemLogger } from './logger';
+import { DirectionHelper } from '../room/services/directionHelper';
+
+// Room every player can get back to, see RoomManager.getStartingRoomId()
+const STARTING_ROOM_ID = 'start';
+
+// Item types the game knows how to handle
+const KNOWN_ITEM_TYPES = ['weapon', 'armor', 'consumable', 'quest', 'misc'];
+
+export type IntegritySeverity = 'error' | 'warning';
+
+// A single problem found by the world integrity check
+export interface IntegrityIssue {
+  severity: IntegritySeverity;
+  check: string; // Which check found it, e.g. 'exits' or 'reachability'
+  message: string;
+}
 
 /**
  * Validates a JSON file against the appropriate schema
@@ -10,7 +26,7 @@ import { systemLogger } from './logger';
  * @param dataType Type of data to validate
  * @returns Object with validation result and error messages
  */
-function validateJsonFile(filePath: string, dataType: 'rooms' | 'users' | 'items' | 'npcs'): { 
+function validateJsonFile(filePath: string, dataType: 'rooms' | 'zones' | 'users' | 'items' | 'npcs'): { 
   valid: boolean; 
   message: string;
   data?: any;
@@ -26,6 +42,14 @@ function validateJsonFile(filePath: string, dataType: 'rooms' | 'users' | 'items
     const data = fs.readFileSync(filePath, 'utf8');
     const validatedData = parseAndValidateJson(data, dataType);
     
+    // parseAndValidateJson logs the details and returns undefined when validation fails
+    if (validatedData === undefined) {
+      return {
+        valid: false,
+        message: `✗ Validation failed for ${filePath} (see the log for details)`
+      };
+    }
+    
     return {
       valid: true,
       message: `✓ File is valid: ${filePath}`,
@@ -70,15 +94,18 @@ function printValidationResult(result: { valid: boolean; message: string }): voi
 }
 
 /**
- * Validate all files in the data directory
+ * Validate each known data file and every zone file in the data directory, without printing
+ * @returns the result for each file, and the known files that are missing
  */
-function validateAllFiles(dataDir: string): boolean {
-  console.log(`\n------ Validating files in ${dataDir} ------\n`);
-  let allValid = true;
+function collectValidationResults(dataDir: string): {
+  results: Array<{ filePath: string; valid: boolean; message: string }>;
+  missing: string[];
+} {
+  const results: Array<{ filePath: string; valid: boolean; message: string }> = [];
+  const missing: string[] = [];
   
   // Map of files to their data types
-  const fileDataTypes: Record<string, 'rooms' | 'users' | 'items' | 'npcs'> = {
-    'rooms.json': 'rooms',
+  const fileDataTypes: Record<string, 'rooms' | 'zones' | 'users' | 'items' | 'npcs'> = {
     'users.json': 'users',
     'items.json': 'items',
     'itemInstances.json': 'items', // This will be detected as item instances automatically
@@ -89,19 +116,319 @@ function validateAllFiles(dataDir: string): boolean {
   for (const [filename, dataType] of Object.entries(fileDataTypes)) {
     const filePath = path.join(dataDir, filename);
     if (fs.existsSync(filePath)) {
-      const result = validateJsonFile(filePath, dataType);
-      printValidationResult(result);
-      if (!result.valid) {
-        allValid = false;
-      }
+      results.push({ filePath, ...validateJsonFile(filePath, dataType) });
     } else {
-      console.log(`\x1b[33m⚠ File not found: ${filePath}\x1b[0m`); // Yellow warning
+      missing.push(filePath);
     }
   }
   
+  // A legacy rooms file only gets validated if one is still around; zone files replaced it
+  const legacyRoomsFile = path.join(dataDir, 'rooms.json');
+  if (fs.existsSync(legacyRoomsFile)) {
+    results.push({ filePath: legacyRoomsFile, ...validateJsonFile(legacyRoomsFile, 'rooms') });
+  }
+  
+  // Validate each zone file in the zones directory
+  const zonesDir = path.join(dataDir, 'zones');
+  if (fs.existsSync(zonesDir)) {
+    const zoneFiles = fs.readdirSync(zonesDir).filter(file => file.endsWith('.json')).sort();
+    for (const zoneFile of zoneFiles) {
+      const filePath = path.join(zonesDir, zoneFile);
+      results.push({ filePath, ...validateJsonFile(filePath, 'zones') });
+    }
+  }
+  
+  return { results, missing };
+}
+
+/**
+ * Validate all files in the data directory
+ */
+function validateAllFiles(dataDir: string): boolean {
+  console.log(`\n------ Validating files in ${dataDir} ------\n`);
+  
+  const { results, missing } = collectValidationResults(dataDir);
+  for (const filePath of missing) {
+    console.log(`\x1b[33m⚠ File not found: ${filePath}\x1b[0m`); // Yellow warning
+  }
+  results.forEach(printValidationResult);
+  
   console.log('\n-----------------------------------------\n');
   
-  return allValid;
+  return results.every(result => result.valid);
+}
+
+/**
+ * Read a JSON array from the data directory for the integrity check, or an empty list if it's missing or broken
+ */
+function readDataArray(filePath: string): any[] {
+  try {
+    const data = fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf8')) : [];
+    return Array.isArray(data) ? data : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Load every room along with its zone, from zone files or the legacy rooms file
+ */
+function loadWorldRooms(dataDir: string): { zones: any[], rooms: any[] } {
+  const zonesDir = path.join(dataDir, 'zones');
+  const zoneFiles = fs.existsSync(zonesDir)
+    ? fs.readdirSync(zonesDir).filter(file => file.endsWith('.json')).sort()
+    : [];
+
+  if (zoneFiles.length === 0) {
+    const rooms = readDataArray(path.join(dataDir, 'rooms.json'));
+    return { zones: [], rooms: rooms.map(room => ({ ...room, zoneId: 'default' })) };
+  }
+
+  const zones: any[] = [];
+  const rooms: any[] = [];
+  for (const zoneFile of zoneFiles) {
+    try {
+      const zone = JSON.parse(fs.readFileSync(path.join(zonesDir, zoneFile), 'utf8'));
+      zones.push(zone);
+      (zone.rooms || []).forEach((room: any) => rooms.push({ ...room, zoneId: zone.id }));
+    } catch {
+      // Broken zone files are already reported by the schema validation
+    }
+  }
+  return { zones, rooms };
+}
+
+/**
+ * Check references between the data files: exits, NPC and item templates, NPC equipment, dialogue,
+ * factions, shops, loot tables, reset rules, door keys and whether every room can be reached
+ */
+function checkWorldIntegrity(dataDir: string): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  const report = (severity: IntegritySeverity, check: string, message: string) => issues.push({ severity, check, message });
+
+  const { zones, rooms } = loadWorldRooms(dataDir);
+  const roomsById = new Map<string, any>(rooms.map(room => [room.id, room]));
+  const npcs = readDataArray(path.join(dataDir, 'npcs.json'));
+  const npcIds = new Set(npcs.map(npc => npc.id));
+  const items = readDataArray(path.join(dataDir, 'items.json'));
+  const itemIds = new Set(items.map(item => item.id));
+  const itemInstances = readDataArray(path.join(dataDir, 'itemInstances.json'));
+  const instanceIds = new Set(itemInstances.map(instance => instance.instanceId));
+  const directionHelper = new DirectionHelper();
+
+  for (const item of items) {
+    if (!KNOWN_ITEM_TYPES.includes(item.type)) {
+      report('warning', 'items', `Item '${item.id}' has unknown type '${item.type}'`);
+    }
+  }
+
+  for (const instance of itemInstances) {
+    if (!itemIds.has(instance.templateId)) {
+      report('error', 'items', `Item instance '${instance.instanceId}' uses missing item template '${instance.templateId}'`);
+    }
+  }
+
+  for (const npc of npcs.filter(npc => npc.dialogue)) {
+    checkDialogue(npc, itemIds, report);
+  }
+
+  for (const npc of npcs.filter(npc => npc.loot)) {
+    for (const entry of npc.loot.entries || []) {
+      if (!itemIds.has(entry.templateId)) {
+        report('error', 'loot', `NPC '${npc.id}' drops item '${entry.templateId}' which is missing from items.json`);
+      }
+    }
+  }
+
+  const itemsById = new Map<string, any>(items.map(item => [item.id, item]));
+  for (const npc of npcs.filter(npc => npc.equipment)) {
+    for (const [slot, templateId] of Object.entries<string>(npc.equipment)) {
+      const item = itemsById.get(templateId);
+      if (!item) {
+        report('error', 'equipment', `NPC '${npc.id}' equips item '${templateId}' which is missing from items.json`);
+      } else if (item.slot && item.slot !== slot) {
+        report('warning', 'equipment', `NPC '${npc.id}' wears item '${templateId}' in slot '${slot}' instead of its own slot '${item.slot}'`);
+      }
+    }
+  }
+
+  const factions = new Set(npcs.filter(npc => npc.faction).map(npc => npc.faction));
+  for (const npc of npcs.filter(npc => npc.assists)) {
+    for (const faction of npc.assists) {
+      if (!factions.has(faction)) {
+        report('warning', 'factions', `NPC '${npc.id}' assists faction '${faction}' which no NPC belongs to`);
+      }
+    }
+  }
+
+  for (const npc of npcs.filter(npc => npc.shop)) {
+    for (const entry of npc.shop.stock || []) {
+      if (!itemIds.has(entry.templateId)) {
+        report('error', 'shops', `NPC '${npc.id}' stocks item '${entry.templateId}' which is missing from items.json`);
+      }
+    }
+  }
+
+  for (const zone of zones) {
+    if (zone.instance && !roomsById.has(zone.instance.returnRoomId)) {
+      report('error', 'zones', `Zone '${zone.id}' returns players from its instances to missing room '${zone.instance.returnRoomId}'`);
+    }
+    for (const rule of zone.resets || []) {
+      const room = roomsById.get(rule.roomId);
+      if (!room || room.zoneId !== zone.id) {
+        report('error', 'resets', `Zone '${zone.id}' has a reset rule for room '${rule.roomId}' which isn't in the zone`);
+      }
+      checkResetRule(rule, `Zone '${zone.id}'`, npcIds, itemIds, report);
+    }
+  }
+
+  for (const room of rooms) {
+    const where = `Room '${room.id}' (zone '${room.zoneId}')`;
+
+    for (const exit of room.exits || []) {
+      const target = roomsById.get(exit.roomId);
+      if (!target) {
+        report('error', 'exits', `${where} has exit ${exit.direction} to missing room '${exit.roomId}'`);
+        continue;
+      }
+
+      // One-way exits are meant to have no way back
+      const reverseDirection = directionHelper.getReverseDirection(exit.direction);
+      const leadsBack = (target.exits || []).some((back: any) =>
+        back.direction.toLowerCase() === reverseDirection && back.roomId === room.id
+      );
+      if (!exit.oneWay && !leadsBack) {
+        report('warning', 'exits', `${where} has exit ${exit.direction} to '${exit.roomId}' with no exit ${reverseDirection} leading back`);
+      }
+
+      if (exit.door?.keyId && !itemIds.has(exit.door.keyId)) {
+        report('error', 'doors', `${where} has a door ${exit.direction} whose key '${exit.door.keyId}' is missing from items.json`);
+      }
+    }
+
+    for (const npcId of room.npcs || []) {
+      if (!npcIds.has(npcId)) {
+        report('error', 'npcs', `${where} contains NPC '${npcId}' which is missing from npcs.json`);
+      }
+    }
+
+    for (const instance of room.itemInstances || []) {
+      if (!instance || typeof instance !== 'object') continue;
+      if (!itemIds.has(instance.templateId)) {
+        report('error', 'items', `${where} contains item instance '${instance.instanceId}' whose template '${instance.templateId}' is missing from items.json`);
+      } else if (!instanceIds.has(instance.instanceId)) {
+        report('warning', 'items', `${where} contains item instance '${instance.instanceId}' which is missing from itemInstances.json`);
+      }
+    }
+
+    for (const rule of room.resets || []) {
+      checkResetRule(rule, where, npcIds, itemIds, report);
+    }
+  }
+
+  // Every room should be reachable on foot from the starting room
+  if (!roomsById.has(STARTING_ROOM_ID)) {
+    report('error', 'reachability', `Starting room '${STARTING_ROOM_ID}' doesn't exist`);
+  } else {
+    const reached = new Set<string>([STARTING_ROOM_ID]);
+    const queue = [STARTING_ROOM_ID];
+    while (queue.length > 0) {
+      for (const exit of roomsById.get(queue.shift()!).exits || []) {
+        if (roomsById.has(exit.roomId) && !reached.has(exit.roomId)) {
+          reached.add(exit.roomId);
+          queue.push(exit.roomId);
+        }
+      }
+    }
+
+    for (const room of rooms.filter(room => !reached.has(room.id))) {
+      report('warning', 'reachability', `Room '${room.id}' (zone '${room.zoneId}') can't be reached from '${STARTING_ROOM_ID}'`);
+    }
+  }
+
+  return issues;
+}
+
+function checkResetRule(
+  rule: any,
+  where: string,
+  npcIds: Set<string>,
+  itemIds: Set<string>,
+  report: (severity: IntegritySeverity, check: string, message: string) => void
+): void {
+  if (rule.type === 'npc' && !npcIds.has(rule.templateId)) {
+    report('error', 'resets', `${where} has a reset rule for NPC '${rule.templateId}' which is missing from npcs.json`);
+  } else if (rule.type === 'item' && !itemIds.has(rule.templateId)) {
+    report('error', 'resets', `${where} has a reset rule for item '${rule.templateId}' which is missing from items.json`);
+  }
+}
+
+/**
+ * Check that an NPC's dialogue only points at nodes and items that exist, and that nothing
+ * hands out items or coins more than once per player
+ */
+function checkDialogue(
+  npc: any,
+  itemIds: Set<string>,
+  report: (severity: IntegritySeverity, check: string, message: string) => void
+): void {
+  const where = `NPC '${npc.id}'`;
+  const nodes = npc.dialogue.nodes || {};
+  const checkNode = (nodeId: string, from: string) => {
+    if (!nodes[nodeId]) {
+      report('error', 'dialogue', `${where} has ${from} leading to missing dialogue node '${nodeId}'`);
+    }
+  };
+  const checkActions = (owner: { actions?: any[]; excludesFlags?: string[] }, from: string) => {
+    const actions = owner.actions || [];
+    for (const action of actions) {
+      if (action.giveItem && !itemIds.has(action.giveItem)) {
+        report('error', 'dialogue', `${where} gives item '${action.giveItem}' in ${from}, which is missing from items.json`);
+      }
+    }
+
+    // Actions run every time, so a gift must set a flag that keeps the player from coming back for more
+    const gives = actions.some(action => action.giveItem || action.giveCurrency);
+    const setsExcludedFlag = actions.some(action => action.setFlag && (owner.excludesFlags || []).includes(action.setFlag));
+    if (gives && !setsExcludedFlag) {
+      report('error', 'dialogue', `${where} gives items or coins in ${from} without setting a flag it excludes, so they can be collected again`);
+    }
+  };
+
+  for (const nodeId of npc.dialogue.greeting || []) {
+    checkNode(nodeId, 'a greeting');
+  }
+  for (const [topic, nodeId] of Object.entries<string>(npc.dialogue.topics || {})) {
+    checkNode(nodeId, `topic '${topic}'`);
+  }
+  for (const [nodeId, node] of Object.entries<any>(nodes)) {
+    checkActions(node, `node '${nodeId}'`);
+    for (const choice of node.choices || []) {
+      if (choice.next) {
+        checkNode(choice.next, `a choice in node '${nodeId}'`);
+      }
+      checkActions(choice, `a choice in node '${nodeId}'`);
+    }
+  }
+}
+
+/**
+ * Print the integrity issues grouped by severity with a summary line
+ */
+function printIntegrityReport(issues: IntegrityIssue[]): void {
+  console.log('------ World integrity ------\n');
+
+  for (const issue of issues.filter(issue => issue.severity === 'error')) {
+    console.log(`\x1b[31m✗ ERROR   [${issue.check}] ${issue.message}\x1b[0m`); // Red text for errors
+  }
+  for (const issue of issues.filter(issue => issue.severity === 'warning')) {
+    console.log(`\x1b[33m⚠ WARNING [${issue.check}] ${issue.message}\x1b[0m`); // Yellow text for warnings
+  }
+
+  const errors = issues.filter(issue => issue.severity === 'error').length;
+  const warnings = issues.length - errors;
+  console.log(`\n${errors} error(s), ${warnings} warning(s)`);
+  console.log('\n-----------------------------------------\n');
 }
 
 /**
@@ -119,15 +446,17 @@ function main(): void {
     console.log('  --help, -h     Show this help message');
     console.log('  --all, -a      Validate all known data files');
     console.log('  --dir=PATH     Specify a custom data directory');
+    console.log('  --json         Print schema failures and the world integrity report as JSON');
     console.log('\nExamples:');
     console.log('  npm run validate                         # Validates all files in default data directory');
-    console.log('  npm run validate data/rooms.json         # Validates specific file');
+    console.log('  npm run validate data/npcs.json          # Validates specific file');
+    console.log('  npm run validate data/zones/starter.json # Validates a single zone file');
     console.log('  npm run validate --dir=custom/data       # Validates all files in custom directory');
     return;
   }
   
   // Check if we should validate all files
-  const validateAll = args.includes('--all') || args.includes('-a') || args.length === 0;
+  const validateAll = args.includes('--all') || args.includes('-a') || args.every(arg => arg.startsWith('-'));
   
   // Get data directory from args or use default
   let dataDir = defaultDataDir;
@@ -137,8 +466,25 @@ function main(): void {
   }
   
   if (validateAll) {
-    // Validate all files in the data directory
-    const allValid = validateAllFiles(dataDir);
+    // Validate all files in the data directory, then the references between them
+    if (args.includes('--json')) {
+      // Keep validation log lines out of the JSON on stdout
+      systemLogger.silent = true;
+
+      const schemaFailures = collectValidationResults(dataDir).results
+        .filter(result => !result.valid)
+        .map(({ filePath, message }) => ({ filePath, message }));
+      const issues = checkWorldIntegrity(dataDir);
+      console.log(JSON.stringify({ dataDir, schemaFailures, issues }, null, 2));
+      process.exit(schemaFailures.length > 0 || issues.some(issue => issue.severity === 'error') ? 1 : 0);
+    }
+
+    const schemasValid = validateAllFiles(dataDir);
+    const issues = checkWorldIntegrity(dataDir);
+    printIntegrityReport(issues);
+
+    // Warnings are worth a look but don't fail validation
+    const allValid = schemasValid && !issues.some(issue => issue.severity === 'error');
     if (allValid) {
       console.log('\x1b[32m✓ All files are valid!\x1b[0m'); // Green text
       process.exit(0);
@@ -153,10 +499,12 @@ function main(): void {
     
     for (const filePath of filePaths) {
       const fileName = path.basename(filePath);
-      let dataType: 'rooms' | 'users' | 'items' | 'npcs' = 'items'; // Default
+      let dataType: 'rooms' | 'zones' | 'users' | 'items' | 'npcs' = 'items'; // Default
       
       // Determine data type based on file name
-      if (fileName.includes('room')) {
+      if (path.basename(path.dirname(filePath)) === 'zones') {
+        dataType = 'zones';
+      } else if (fileName.includes('room')) {
         dataType = 'rooms';
       } else if (fileName.includes('user')) {
         dataType = 'users';
@@ -187,4 +535,4 @@ if (require.main === module) {
 }
 
 // Export for use in other modules
-export { validateJsonFile, validateAllFiles };
\ No newline at end of file
+export { validateJsonFile, validateAllFiles, checkWorldIntegrity };
\ No newline at end of file
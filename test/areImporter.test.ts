@@ -0,0 +1,142 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_ARE_PICK_DIFFICULTY, parseAreFile } from '../src/utils/areImporter';
+
+// A two-room ROM area: a pickproof locked gate and an ordinary door back,
+// a guard wielding a sword and two swords lying in the yard
+const AREA = `#AREA
+test.are~
+Test Area~
+{ 1 10} Tester  Test Area~
+3000 3099
+
+#MOBILES
+#3000
+guard cityguard~
+the cityguard~
+A cityguard stands here.
+~
+He looks tough.
+~
+human~
+ABG DF 0 0
+10 5 2d8+100 1d1+0 1d8+2 slash
+-2 -2 -2 0
+0 0 0 0
+stand stand male 200
+0 0 medium 0
+#0
+
+#OBJECTS
+#3001
+sword long~
+a long sword~
+A long sword lies here.~
+steel~
+weapon 0 AN
+sword 2 6 slash 0
+5 10 100 P
+#3002
+key brass~
+a brass key~
+A brass key lies here.~
+brass~
+key 0 A
+0 0 0 0 0
+1 1 10 P
+#0
+
+#ROOMS
+#3000
+The Gate~
+You are at a gate.
+~
+0 0 1
+D0
+~
+gate~
+2 3002 3001
+S
+#3001
+The Yard~
+A yard.
+~
+0 C 1
+D2
+~
+door~
+1 3002 3000
+S
+#0
+
+#RESETS
+M 0 3000 1 3000 1
+E 1 3001 0 16
+O 0 3001 0 3001
+O 0 3001 0 3001
+D 0 3000 0 2
+S
+
+#$
+`;
+
+function importArea() {
+  const result = parseAreFile(AREA, 'test');
+  const room = (vnum: number) => result.zone.rooms.find(candidate => candidate.id === `rom-${vnum}`);
+  return { result, room };
+}
+
+test('area header gives the zone name and level range', () => {
+  const { result } = importArea();
+  assert.equal(result.zone.id, 'test');
+  assert.equal(result.zone.name, 'Test Area');
+  assert.deepEqual(result.zone.levelRange, { min: 1, max: 10 });
+  assert.deepEqual(result.zone.rooms.map(room => room.id), ['rom-3000', 'rom-3001']);
+});
+
+test('pickproof doors cannot be picked and ordinary locks get the default difficulty', () => {
+  const { room } = importArea();
+  const gate = room(3000)!.exits[0];
+  const door = room(3001)!.exits[0];
+
+  assert.equal(gate.door?.pickDifficulty, 0);
+  assert.equal(door.door?.pickDifficulty, DEFAULT_ARE_PICK_DIFFICULTY);
+  assert.ok(DEFAULT_ARE_PICK_DIFFICULTY > 0);
+  assert.equal(door.door?.keyId, 'rom-3002');
+});
+
+test('D resets set the starting door state', () => {
+  const { room } = importArea();
+  assert.equal(room(3000)!.exits[0].door?.state, 'locked');
+  assert.equal(room(3001)!.exits[0].door?.state, 'open');
+});
+
+test('M and O resets become reset rules, counting repeats', () => {
+  const { room } = importArea();
+  assert.deepEqual(room(3000)!.npcs, ['rom-3000']);
+  assert.deepEqual(room(3000)!.resets, [{ type: 'npc', templateId: 'rom-3000', maxCount: 1 }]);
+  assert.deepEqual(room(3001)!.resets, [{ type: 'item', templateId: 'rom-3001', maxCount: 2 }]);
+});
+
+test('ROM mobiles convert to NPC templates wearing their E reset equipment', () => {
+  const { result } = importArea();
+  const guard = result.npcs.find(npc => npc.id === 'rom-3000')!;
+
+  assert.equal(guard.name, 'cityguard');
+  assert.equal(guard.health, 109); // average of 2d8+100
+  assert.deepEqual(guard.damage, [3, 10]); // 1d8+2
+  assert.equal(guard.damageType, 'slash');
+  assert.equal(guard.behavior?.type, 'sentinel');
+  assert.equal(guard.faction, 'human');
+  assert.deepEqual(guard.equipment, { mainHand: 'rom-3001' });
+});
+
+test('objects convert to item templates', () => {
+  const { result } = importArea();
+  const sword = result.items.find(item => item.id === 'rom-3001')!;
+
+  assert.equal(sword.name, 'long sword');
+  assert.equal(sword.type, 'weapon');
+  assert.equal(sword.slot, 'mainHand');
+  assert.equal(sword.value, 100);
+});
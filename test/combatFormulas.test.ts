@@ -0,0 +1,136 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  CombatantStats,
+  CRITICAL_MULTIPLIER,
+  combatRandom,
+  createSeededRandom,
+  defaultCombatFormulas,
+  getBlockChance,
+  getPlayerCombatStats,
+  MAX_BLOCK_CHANCE,
+  RandomSource,
+  resolveAttack,
+  seedCombatRandom
+} from '../src/combat/combatFormulas';
+import { EquipmentSlot } from '../src/types';
+import { NPC } from '../src/combat/npc';
+
+// Plays back fixed rolls so each branch of a formula can be hit on purpose
+function scripted(...rolls: number[]): RandomSource {
+  return () => {
+    const roll = rolls.shift();
+    assert.notEqual(roll, undefined, 'formula rolled more often than expected');
+    return roll!;
+  };
+}
+
+function stats(overrides: Partial<CombatantStats> = {}): CombatantStats {
+  return { level: 1, accuracy: 5, evasion: 5, damage: [4, 8], mitigation: 0, blockChance: 0, ...overrides };
+}
+
+test('the same seed replays the same fight', () => {
+  const fight = (): Array<{ outcome: string; damage: number }> => {
+    seedCombatRandom(1234);
+    return Array.from({ length: 50 }, () => resolveAttack(stats(), stats({ mitigation: 10, blockChance: 0.2 })));
+  };
+
+  try {
+    assert.deepEqual(fight(), fight());
+  } finally {
+    seedCombatRandom();
+  }
+});
+
+test('combatRandom follows the seed', () => {
+  try {
+    seedCombatRandom(99);
+    const expected = createSeededRandom(99);
+    for (let i = 0; i < 10; i++) {
+      assert.equal(combatRandom(), expected());
+    }
+  } finally {
+    seedCombatRandom();
+  }
+});
+
+test('spawning NPCs between fights leaves the combat sequence alone', () => {
+  try {
+    seedCombatRandom(7);
+    const expected = createSeededRandom(7);
+    NPC.fromNPCData({ id: 'rat', name: 'rat', description: 'A rat.', health: 5, maxHealth: 5, damage: [1, 2], isHostile: false, isPassive: false, experienceValue: 5, levelRange: [1, 9] });
+    assert.equal(combatRandom(), expected());
+  } finally {
+    seedCombatRandom();
+  }
+});
+
+test('seeded rolls stay in [0, 1)', () => {
+  const random = createSeededRandom(42);
+  for (let i = 0; i < 1000; i++) {
+    const roll = random();
+    assert.ok(roll >= 0 && roll < 1, `roll ${roll} out of range`);
+  }
+});
+
+test('rollOutcome checks fumble, then hit, then block, then critical', () => {
+  const { rollOutcome } = defaultCombatFormulas;
+  const even = stats();
+
+  assert.equal(rollOutcome(even, even, scripted(0.01)), 'fumble');
+  assert.equal(rollOutcome(even, even, scripted(0.5, 0.6)), 'miss');
+  assert.equal(rollOutcome(even, stats({ blockChance: 0.3 }), scripted(0.5, 0.1, 0.2)), 'block');
+  assert.equal(rollOutcome(even, even, scripted(0.5, 0.1, 0.5, 0.01)), 'critical');
+  assert.equal(rollOutcome(even, even, scripted(0.5, 0.1, 0.5, 0.5)), 'hit');
+});
+
+test('accuracy over evasion turns a miss into a hit', () => {
+  const { rollOutcome } = defaultCombatFormulas;
+
+  // 0.6 misses at the base 50% hit chance but lands with 10 points of accuracy to spare
+  assert.equal(rollOutcome(stats(), stats(), scripted(0.5, 0.6)), 'miss');
+  assert.equal(rollOutcome(stats({ accuracy: 15 }), stats(), scripted(0.5, 0.6, 0.5, 0.5)), 'hit');
+});
+
+test('rollDamage rolls within the range and multiplies criticals', () => {
+  const { rollDamage } = defaultCombatFormulas;
+  const attacker = stats({ damage: [4, 8] });
+
+  assert.equal(rollDamage(attacker, 'hit', scripted(0)), 4);
+  assert.equal(rollDamage(attacker, 'hit', scripted(0.999)), 8);
+  assert.equal(rollDamage(attacker, 'critical', scripted(0)), 4 * CRITICAL_MULTIPLIER);
+  for (const outcome of ['fumble', 'miss', 'block'] as const) {
+    assert.equal(rollDamage(attacker, outcome, scripted()), 0);
+  }
+});
+
+test('mitigateDamage soaks half at the half-mitigation defense and never below 1', () => {
+  const { mitigateDamage } = defaultCombatFormulas;
+
+  assert.equal(mitigateDamage(10, stats({ mitigation: 0 })), 10);
+  assert.equal(mitigateDamage(10, stats({ mitigation: 50 })), 5);
+  assert.equal(mitigateDamage(1, stats({ mitigation: 1000 })), 1);
+  assert.equal(mitigateDamage(0, stats({ mitigation: 50 })), 0);
+});
+
+test('block chance grows with shield defense up to the cap', () => {
+  const shield = (defense: number) => ({
+    slot: EquipmentSlot.OFF_HAND as const,
+    instanceId: 'shield',
+    template: { id: 'shield', name: 'shield', description: '', type: 'armor' as const, value: 0, stats: { defense } }
+  });
+
+  assert.equal(getBlockChance(undefined), 0);
+  assert.ok(Math.abs(getBlockChance(shield(3)) - 0.09) < 1e-9);
+  assert.equal(getBlockChance(shield(100)), MAX_BLOCK_CHANCE);
+});
+
+test('effect stat modifiers such as a storm count towards player combat stats', () => {
+  const user = { level: 1, strength: 10, dexterity: 10, agility: 12, defense: 0, equipment: {} } as any;
+  const calm = getPlayerCombatStats(user);
+  const storm = getPlayerCombatStats(user, undefined, { agility: -3 });
+
+  assert.equal(calm.evasion, 6);
+  assert.equal(storm.evasion, 4);
+  assert.equal(storm.accuracy, calm.accuracy);
+});
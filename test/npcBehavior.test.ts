@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { NPC } from '../src/combat/npc';
+import { Room } from '../src/room/room';
+import { DirectionHelper } from '../src/room/services/directionHelper';
+import { NPCBehaviorService } from '../src/room/services/npcBehaviorService';
+
+// Two connected rooms and a guard that always wanders when it's free to
+function setUp() {
+  const yard = new Room({ id: 'yard', name: 'Yard', description: '', zoneId: 'town', exits: [{ direction: 'north', roomId: 'gate' }] });
+  const gate = new Room({ id: 'gate', name: 'Gate', description: '', zoneId: 'town', exits: [{ direction: 'south', roomId: 'yard' }] });
+  const rooms = new Map([[yard.id, yard], [gate.id, gate]]);
+
+  const guard = new NPC('guard', 20, 20);
+  guard.behavior = { type: 'wander', moveChance: 1 };
+  yard.addNPC(guard);
+
+  const service = new NPCBehaviorService(
+    { getRoom: (roomId: string) => rooms.get(roomId), getAllRooms: () => Array.from(rooms.values()) },
+    new DirectionHelper(),
+    () => {}
+  );
+  return { yard, gate, guard, service };
+}
+
+test('a free wandering NPC moves on', () => {
+  const { yard, gate, guard, service } = setUp();
+  service.processNpcBehaviors();
+
+  assert.equal(yard.npcs.has(guard.instanceId), false);
+  assert.equal(gate.npcs.has(guard.instanceId), true);
+});
+
+test('a wandering NPC that was attacked stays put', () => {
+  const { yard, guard, service } = setUp();
+  guard.addAggression('bob');
+  service.processNpcBehaviors();
+
+  assert.equal(yard.npcs.has(guard.instanceId), true);
+});
+
+test('a wandering NPC assisting an ally keeps its place until the fight is over', () => {
+  const { yard, guard, service } = setUp();
+  guard.assistAgainst('bob');
+  assert.equal(guard.isInCombat(), true);
+
+  service.processNpcBehaviors();
+  assert.equal(yard.npcs.has(guard.instanceId), true);
+
+  guard.clearAllAggression();
+  assert.equal(guard.isInCombat(), false);
+  service.processNpcBehaviors();
+  assert.equal(yard.npcs.has(guard.instanceId), false);
+});
@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TravelCommand } from '../src/command/commands/travel.command';
+import { RoomManager } from '../src/room/roomManager';
+
+const DIRECTION_NAMES: Record<string, string> = {
+  n: 'north', s: 'south', e: 'east', w: 'west', u: 'up', d: 'down',
+  ne: 'northeast', nw: 'northwest', se: 'southeast', sw: 'southwest'
+};
+
+// The parser only needs direction names from the room manager
+const travel = new TravelCommand({
+  getFullDirectionName: (direction: string) => DIRECTION_NAMES[direction] || direction
+} as unknown as RoomManager);
+
+test('speedwalk steps default to one move each', () => {
+  assert.deepEqual(travel.parseSpeedwalk('nwu'), [
+    { direction: 'northwest', repeat: 1 },
+    { direction: 'up', repeat: 1 }
+  ]);
+});
+
+test('speedwalk counts apply to the direction that follows them', () => {
+  assert.deepEqual(travel.parseSpeedwalk('3n2e'), [
+    { direction: 'north', repeat: 3 },
+    { direction: 'east', repeat: 2 }
+  ]);
+  assert.deepEqual(travel.parseSpeedwalk('12sw'), [{ direction: 'southwest', repeat: 12 }]);
+});
+
+test('speedwalk reads two-letter directions before single letters', () => {
+  assert.deepEqual(travel.parseSpeedwalk('ne2se'), [
+    { direction: 'northeast', repeat: 1 },
+    { direction: 'southeast', repeat: 2 }
+  ]);
+});
+
+test('speedwalk rejects counts below one', () => {
+  assert.equal(travel.parseSpeedwalk('0n'), null);
+  assert.equal(travel.parseSpeedwalk('2e0n'), null);
+  assert.equal(travel.parseSpeedwalk('00s'), null);
+});
+
+test('anything that is not a speedwalk is left for destination lookup', () => {
+  assert.equal(travel.parseSpeedwalk('market'), null);
+  assert.equal(travel.parseSpeedwalk('3'), null);
+  assert.equal(travel.parseSpeedwalk('n3'), null);
+  assert.equal(travel.parseSpeedwalk(''), null);
+});